@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { getAssignment, updateAssignment, validateAssignmentInput } from '@/lib/assignments'
+import { getSection } from '@/lib/courses'
+
+interface RouteContext {
+  params: Promise<{ assignmentId: string }>
+}
+
+// GET: One assignment
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { assignmentId } = await params
+    const assignment = await getAssignment(assignmentId)
+
+    if (!assignment) {
+      return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    }
+    return NextResponse.json({ assignment })
+  } catch (error) {
+    console.error('Error retrieving assignment:', error)
+    return NextResponse.json(
+      { error: 'Failed to retrieve assignment' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH: Rename, change instructions or section, or { status: 'closed' | 'open' } to stop or resume new turns
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { assignmentId } = await params
+    const changes = await req.json()
+
+    const errors = validateAssignmentInput(changes, true)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid assignment', details: errors }, { status: 400 })
+    }
+    if (changes.sectionId && !await getSection(changes.sectionId)) {
+      return NextResponse.json({ error: 'Section not found' }, { status: 404 })
+    }
+
+    const assignment = await updateAssignment(assignmentId, changes)
+    if (!assignment) {
+      return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    }
+    return NextResponse.json({ assignment })
+  } catch (error) {
+    console.error('Error updating assignment:', error)
+    return NextResponse.json(
+      { error: 'Failed to update assignment' },
+      { status: 500 }
+    )
+  }
+}
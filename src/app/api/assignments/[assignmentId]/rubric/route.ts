@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server'
+import { getAssignment } from '@/lib/assignments'
+import { DEFAULT_RUBRIC, deleteRubric, getRubric, RUBRIC_CRITERIA, saveRubric, validateRubric } from '@/lib/rubrics'
+
+interface RouteContext {
+  params: Promise<{ assignmentId: string }>
+}
+
+// GET: The assignment's grading rubric, or the default if none was saved, with the criteria it may weigh
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { assignmentId } = await params
+    if (!await getAssignment(assignmentId)) {
+      return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    }
+
+    const stored = await getRubric(assignmentId)
+    return NextResponse.json({
+      assignmentId,
+      rubric: stored?.rubric || DEFAULT_RUBRIC,
+      updatedAt: stored?.updatedAt,
+      isDefault: !stored,
+      criteria: RUBRIC_CRITERIA
+    })
+  } catch (error) {
+    console.error('Error retrieving rubric:', error)
+    return NextResponse.json(
+      { error: 'Failed to retrieve rubric' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT: Replace the assignment's rubric. Its sessions' cached reports are dropped, so they are graded again
+// with the new rubric the next time they are analyzed.
+export async function PUT(req: Request, { params }: RouteContext) {
+  try {
+    const { assignmentId } = await params
+    const { rubric } = await req.json()
+
+    if (!await getAssignment(assignmentId)) {
+      return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    }
+
+    const { rubric: validated, errors } = validateRubric(rubric)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid rubric', details: errors }, { status: 400 })
+    }
+
+    const stored = await saveRubric(assignmentId, validated)
+    console.log(`Rubric saved for assignment ${assignmentId}:`, validated.criteria.map(c => `${c.criterion}=${c.weight}`).join(', '))
+
+    return NextResponse.json({ assignmentId, rubric: stored.rubric, updatedAt: stored.updatedAt })
+  } catch (error) {
+    console.error('Error saving rubric:', error)
+    return NextResponse.json(
+      { error: 'Failed to save rubric' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE: Go back to the default rubric
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    const { assignmentId } = await params
+    await deleteRubric(assignmentId)
+    return NextResponse.json({ assignmentId, rubric: DEFAULT_RUBRIC, isDefault: true })
+  } catch (error) {
+    console.error('Error resetting rubric:', error)
+    return NextResponse.json(
+      { error: 'Failed to reset rubric' },
+      { status: 500 }
+    )
+  }
+}
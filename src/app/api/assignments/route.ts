@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { createAssignment, listAssignments, validateAssignmentInput } from '@/lib/assignments'
+import { getSection } from '@/lib/courses'
+import { getProject } from '@/lib/projects'
+
+// GET: Assignments, newest first, optionally only those for ?projectId= or ?sectionId=
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const assignments = await listAssignments({
+      projectId: searchParams.get('projectId') || undefined,
+      sectionId: searchParams.get('sectionId') || undefined
+    })
+
+    return NextResponse.json({ assignments })
+  } catch (error) {
+    console.error('Error retrieving assignments:', error)
+    return NextResponse.json(
+      { error: 'Failed to retrieve assignments' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST: Publish a project to students under a new join code
+export async function POST(req: Request) {
+  try {
+    const input = await req.json()
+
+    const errors = validateAssignmentInput(input)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid assignment', details: errors }, { status: 400 })
+    }
+
+    const project = await getProject(input.projectId)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    if (project.status === 'archived') {
+      return NextResponse.json({ error: 'Project is archived' }, { status: 409 })
+    }
+    if (input.sectionId && !await getSection(input.sectionId)) {
+      return NextResponse.json({ error: 'Section not found' }, { status: 404 })
+    }
+
+    const assignment = await createAssignment(input)
+    console.log(`Assignment ${assignment.joinCode} published for project ${project.projectId}`)
+
+    return NextResponse.json({ assignment }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating assignment:', error)
+    return NextResponse.json(
+      { error: 'Failed to create assignment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { checkInstructorPassword, clearInstructorCookie, isInstructor, setInstructorCookie } from '@/lib/auth'
+
+// GET: Whether the request comes from a signed-in instructor
+export async function GET(req: Request) {
+  try {
+    if (!isInstructor(req)) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+    return NextResponse.json({ instructor: true })
+  } catch (error) {
+    console.error('Error reading instructor session:', error)
+    return NextResponse.json(
+      { error: 'Failed to read session' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST: Sign in with the instructor password
+export async function POST(req: Request) {
+  try {
+    const { password } = await req.json()
+
+    if (!password) {
+      return NextResponse.json({ error: 'Password required' }, { status: 400 })
+    }
+    if (!checkInstructorPassword(password)) {
+      return NextResponse.json({ error: 'Invalid credentials' }, { status: 401 })
+    }
+
+    console.log('Instructor signed in')
+    const response = NextResponse.json({ instructor: true })
+    setInstructorCookie(response)
+    return response
+  } catch (error) {
+    console.error('Error signing in instructor:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE: Sign out
+export async function DELETE() {
+  const response = NextResponse.json({ success: true })
+  clearInstructorCookie(response)
+  return response
+}
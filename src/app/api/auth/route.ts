@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { clearSessionCookie, getCurrentStudent, setSessionCookie } from '@/lib/auth'
+import { authenticateStudent, toPublicStudent } from '@/lib/students'
+
+// GET: The signed-in student
+export async function GET(req: Request) {
+  try {
+    const student = await getCurrentStudent(req)
+    if (!student) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+    }
+    return NextResponse.json({ student: toPublicStudent(student) })
+  } catch (error) {
+    console.error('Error reading student session:', error)
+    return NextResponse.json(
+      { error: 'Failed to read session' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST: Sign in with a roster ID or email and password
+export async function POST(req: Request) {
+  try {
+    const { identifier, password } = await req.json()
+
+    if (!identifier || !password) {
+      return NextResponse.json(
+        { error: 'Student ID or email and password required' },
+        { status: 400 }
+      )
+    }
+
+    const student = await authenticateStudent(identifier, password)
+    if (!student) {
+      return NextResponse.json({ error: 'Invalid credentials' }, { status: 401 })
+    }
+
+    console.log('Student signed in:', student.studentId)
+    const response = NextResponse.json({ student: toPublicStudent(student) })
+    setSessionCookie(response, student.studentId)
+    return response
+  } catch (error) {
+    console.error('Error signing in:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE: Sign out
+export async function DELETE() {
+  const response = NextResponse.json({ success: true })
+  clearSessionCookie(response)
+  return response
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { getCourse, listSections, updateCourse, validateCourseInput } from '@/lib/courses'
+
+interface RouteContext {
+  params: Promise<{ courseId: string }>
+}
+
+// GET: One course and its sections
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { courseId } = await params
+    const course = await getCourse(courseId)
+
+    if (!course) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+    return NextResponse.json({ course, sections: await listSections(courseId) })
+  } catch (error) {
+    console.error('Error retrieving course:', error)
+    return NextResponse.json(
+      { error: 'Failed to retrieve course' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH: Rename the course, change its term or choose its model
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { courseId } = await params
+    const changes = await req.json()
+
+    const errors = validateCourseInput(changes, true)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid course', details: errors }, { status: 400 })
+    }
+
+    const course = await updateCourse(courseId, changes)
+    if (!course) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+    return NextResponse.json({ course })
+  } catch (error) {
+    console.error('Error updating course:', error)
+    return NextResponse.json(
+      { error: 'Failed to update course' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { getSection, updateSection, validateSectionInput } from '@/lib/courses'
+
+interface RouteContext {
+  params: Promise<{ courseId: string, sectionId: string }>
+}
+
+// PATCH: Rename the section or replace its enrollment with { studentIds }
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { courseId, sectionId } = await params
+    const changes = await req.json()
+
+    const errors = validateSectionInput(changes, true)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid section', details: errors }, { status: 400 })
+    }
+
+    const existing = await getSection(sectionId)
+    if (!existing || existing.courseId !== courseId) {
+      return NextResponse.json({ error: 'Section not found' }, { status: 404 })
+    }
+
+    const section = await updateSection(sectionId, changes)
+    return NextResponse.json({ section })
+  } catch (error) {
+    console.error('Error updating section:', error)
+    return NextResponse.json(
+      { error: 'Failed to update section' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { createSection, getCourse, validateSectionInput } from '@/lib/courses'
+
+interface RouteContext {
+  params: Promise<{ courseId: string }>
+}
+
+// POST: Add a section to the course, optionally enrolling students by roster ID
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    const { courseId } = await params
+    const input = await req.json()
+
+    const errors = validateSectionInput(input)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid section', details: errors }, { status: 400 })
+    }
+
+    if (!await getCourse(courseId)) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+
+    const section = await createSection(courseId, input)
+    console.log(`Section ${section.sectionId} added to course ${courseId}: ${section.name}`)
+
+    return NextResponse.json({ section }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating section:', error)
+    return NextResponse.json(
+      { error: 'Failed to create section' },
+      { status: 500 }
+    )
+  }
+}
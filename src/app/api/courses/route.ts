@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { createCourse, listCourses, listSections, validateCourseInput } from '@/lib/courses'
+
+// GET: All courses, newest first, each with its sections
+export async function GET() {
+  try {
+    const [courses, sections] = await Promise.all([listCourses(), listSections()])
+
+    return NextResponse.json({
+      courses: courses.map(course => ({
+        ...course,
+        sections: sections.filter(section => section.courseId === course.courseId)
+      }))
+    })
+  } catch (error) {
+    console.error('Error retrieving courses:', error)
+    return NextResponse.json(
+      { error: 'Failed to retrieve courses' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST: Create a course; sections are added to it separately
+export async function POST(req: Request) {
+  try {
+    const input = await req.json()
+
+    const errors = validateCourseInput(input)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid course', details: errors }, { status: 400 })
+    }
+
+    const course = await createCourse(input)
+    console.log(`Course ${course.courseId} created: ${course.name}`)
+
+    return NextResponse.json({ course }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating course:', error)
+    return NextResponse.json(
+      { error: 'Failed to create course' },
+      { status: 500 }
+    )
+  }
+}
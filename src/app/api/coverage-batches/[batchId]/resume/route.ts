@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { findRunningBatch, getCoverageBatch, resumeCoverageBatch } from '@/lib/coverage-batches'
+
+interface RouteContext {
+  params: Promise<{ batchId: string }>
+}
+
+// POST: Retry a batch's failed sessions, and finish an interrupted one
+export async function POST(_req: Request, { params }: RouteContext) {
+  try {
+    const { batchId } = await params
+    const batch = await getCoverageBatch(batchId)
+    if (!batch) {
+      return NextResponse.json({ error: 'Coverage batch not found' }, { status: 404 })
+    }
+    if (batch.status === 'running' || await findRunningBatch(batch.projectId)) {
+      return NextResponse.json({ error: 'A coverage batch is already running for this project' }, { status: 409 })
+    }
+    if (batch.progress.failed === 0 && batch.progress.remaining === 0) {
+      return NextResponse.json({ error: 'Nothing left to analyze in this batch' }, { status: 409 })
+    }
+
+    return NextResponse.json({ batch: await resumeCoverageBatch(batch) }, { status: 202 })
+  } catch (error) {
+    console.error('Error resuming coverage batch:', error)
+    return NextResponse.json(
+      { error: 'Failed to resume coverage batch' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { getCoverageBatch } from '@/lib/coverage-batches'
+
+interface RouteContext {
+  params: Promise<{ batchId: string }>
+}
+
+// GET: A batch's progress and where each of its sessions stands
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { batchId } = await params
+    const batch = await getCoverageBatch(batchId)
+    if (!batch) {
+      return NextResponse.json({ error: 'Coverage batch not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ batch })
+  } catch (error) {
+    console.error('Error retrieving coverage batch:', error)
+    return NextResponse.json(
+      { error: 'Failed to retrieve coverage batch' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server'
+import {
+  findRunningBatch,
+  listCoverageBatches,
+  MAX_BATCH_CONCURRENCY,
+  startCoverageBatch
+} from '@/lib/coverage-batches'
+import { getProject } from '@/lib/projects'
+
+// GET: The project's coverage batches, newest first (?projectId=)
+export async function GET(req: Request) {
+  try {
+    const projectId = new URL(req.url).searchParams.get('projectId')
+    if (!projectId) {
+      return NextResponse.json({ error: 'projectId is required' }, { status: 400 })
+    }
+
+    return NextResponse.json({ batches: await listCoverageBatches(projectId) })
+  } catch (error) {
+    console.error('Error retrieving coverage batches:', error)
+    return NextResponse.json(
+      { error: 'Failed to retrieve coverage batches' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST: Analyze every completed session in a project in the background. Sessions with a report for
+// their current transcript are skipped unless force is set. Answers at once; poll the batch for progress.
+export async function POST(req: Request) {
+  try {
+    const { projectId, concurrency, force } = await req.json()
+
+    const errors: string[] = []
+    if (typeof projectId !== 'string' || !projectId) errors.push('projectId is required')
+    if (concurrency !== undefined &&
+        (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_BATCH_CONCURRENCY)) {
+      errors.push(`concurrency must be a whole number from 1 to ${MAX_BATCH_CONCURRENCY}`)
+    }
+    if (force !== undefined && typeof force !== 'boolean') errors.push('force must be true or false')
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid batch', details: errors }, { status: 400 })
+    }
+
+    if (!await getProject(projectId)) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    const running = await findRunningBatch(projectId)
+    if (running) {
+      return NextResponse.json({ error: 'A coverage batch is already running for this project', batch: running }, { status: 409 })
+    }
+
+    const batch = await startCoverageBatch(projectId, { concurrency, force })
+    return NextResponse.json({ batch }, { status: 202 })
+  } catch (error) {
+    console.error('Error starting coverage batch:', error)
+    return NextResponse.json(
+      { error: 'Failed to start coverage batch' },
+      { status: 500 }
+    )
+  }
+}
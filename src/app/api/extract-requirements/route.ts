@@ -1,17 +1,12 @@
 import { NextResponse } from 'next/server'
-import { CohereClient } from 'cohere-ai'
-
-// Initialize Cohere client
-console.log('Cohere API Key exists:', !!process.env.CO_API_KEY)
-console.log('API Key length:', process.env.CO_API_KEY?.length)
-
-const cohere = new CohereClient({
-  token: process.env.CO_API_KEY!
-})
+import { resolveLLMProvider } from '@/lib/courses'
+import { enqueueJob, wantsBackground } from '@/lib/jobs'
+import { LLMProvider } from '@/lib/llm'
+import { ExtractedRequirement, normalizeRequirements, RawRequirement, renderRequirementsList } from '@/lib/requirements'
 
 interface Message {
   id: string
-  sender: 'student' | 'persona'
+  sender: 'student' | 'persona' | 'system'
   personaName?: string
   content: string
   timestamp: Date
@@ -30,11 +25,12 @@ interface TranscriptRequest {
   messages: Message[]
   selectedMessageIds?: string[] // NEW: Optional selected message IDs
   personas: Persona[]
+  assignmentId?: string // Extraction uses the assignment's course's model
 }
 
 export async function POST(req: Request) {
   try {
-    const { messages, selectedMessageIds, personas }: TranscriptRequest = await req.json()
+    const { messages, selectedMessageIds, personas, assignmentId }: TranscriptRequest = await req.json()
 
     if (!messages || messages.length === 0) {
       return NextResponse.json(
@@ -55,81 +51,118 @@ export async function POST(req: Request) {
       )
     }
 
-    console.log('=== GENERATING REQUIREMENTS FROM INTERVIEW ===')
-    console.log('Total messages:', messages.length)
-    console.log('Messages to analyze:', relevantMessages.length)
-    console.log('Selected mode:', selectedMessageIds ? 'Yes' : 'No')
-    console.log('Personas:', personas.map(p => p.name).join(', '))
+    const llm = await resolveLLMProvider(assignmentId)
 
-    // Build a transcript from selected messages
-    let transcript = 'INTERVIEW TRANSCRIPT:\n\n'
-    relevantMessages.forEach(msg => {
-      const speaker = msg.sender === 'student' ? 'STUDENT' : msg.personaName || 'PERSONA'
-      transcript += `${speaker}: ${msg.content}\n\n`
-    })
+    if (wantsBackground(req)) {
+      const job = await enqueueJob(
+        'extract-requirements',
+        () => extractRequirements(llm, messages, relevantMessages, personas, selectedMessageIds),
+        `${relevantMessages.length} of ${messages.length} messages`
+      )
+      return NextResponse.json({ job }, { status: 202 })
+    }
 
-    // Add persona context
-    transcript += '\nSTAKEHOLDER INFORMATION:\n'
-    personas.forEach(p => {
-      transcript += `${p.name} (${p.role}): Goal - ${p.goal}, Concerns - ${p.concerns}\n`
-    })
+    return NextResponse.json(await extractRequirements(llm, messages, relevantMessages, personas, selectedMessageIds))
 
-    // Enhanced prompt for selective extraction
-    const selectionContext = selectedMessageIds && selectedMessageIds.length > 0
-      ? `\nNOTE: This is a SELECTED portion of the conversation (${relevantMessages.length} out of ${messages.length} messages). Focus only on requirements mentioned in these selected messages.\n`
-      : ''
+  } catch (error) {
+    console.error('Requirements extraction error:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate requirements' },
+      { status: 500 }
+    )
+  }
+}
 
-    const prompt = `Analyze this interview transcript and extract project requirements.
+// One model call over the transcript, answering with the route's response body
+async function extractRequirements(
+  llm: LLMProvider,
+  messages: Message[],
+  relevantMessages: Message[],
+  personas: Persona[],
+  selectedMessageIds?: string[]
+) {
+  console.log('=== GENERATING REQUIREMENTS FROM INTERVIEW ===')
+  console.log('Total messages:', messages.length)
+  console.log('Messages to analyze:', relevantMessages.length)
+  console.log('Selected mode:', selectedMessageIds ? 'Yes' : 'No')
+  console.log('Personas:', personas.map(p => p.name).join(', '))
+
+  // Build a transcript from selected messages, tagging each with its ID so requirements can cite it
+  let transcript = 'INTERVIEW TRANSCRIPT:\n\n'
+  relevantMessages.forEach(msg => {
+    const speaker = msg.sender === 'student' ? 'STUDENT' : msg.personaName || 'PERSONA'
+    transcript += `[msg:${msg.id}] ${speaker}: ${msg.content}\n\n`
+  })
+
+  // Add persona context
+  transcript += '\nSTAKEHOLDER INFORMATION:\n'
+  personas.forEach(p => {
+    transcript += `${p.name} (${p.role}): Goal - ${p.goal}, Concerns - ${p.concerns}\n`
+  })
+
+  // Enhanced prompt for selective extraction
+  const selectionContext = selectedMessageIds && selectedMessageIds.length > 0
+    ? `\nNOTE: This is a SELECTED portion of the conversation (${relevantMessages.length} out of ${messages.length} messages). Focus only on requirements mentioned in these selected messages.\n`
+    : ''
+
+  const prompt = `Analyze this interview transcript and extract project requirements.
 
 ${transcript}
 ${selectionContext}
-Extract all project requirements mentioned in the conversation. Format as a numbered list (1, 2, 3, etc.).
-Each requirement should be clear and actionable. Include who mentioned it in brackets.
+Extract all project requirements mentioned in the conversation. Each requirement should be clear and actionable.
 
 ${selectedMessageIds ? 'Since this is a partial selection, only extract requirements from the selected messages shown above.' : ''}
 
-Example format:
-1. The system must have user authentication [Source: John Smith]
-2. Users should be able to export data to PDF [Source: Sarah Lee]
-
-List all requirements you find:`
-
-    // Call Cohere API
-    const response = await cohere.chat({
-      model: 'command-r-plus',
-      message: prompt,
-      maxTokens: 2000,
-      temperature: 0.3,
-    })
-
-    // Get the requirements from Cohere
-    const extractedRequirements = response.text?.trim() || 'No requirements could be extracted.'
-
-    // Generate the final document with context about selection
-    const requirements = generateRequirementsDocument(
-      extractedRequirements,
-      relevantMessages,
-      messages,
-      personas,
-      selectedMessageIds
-    )
-
-    return NextResponse.json({
-      requirements: requirements,
-      success: true,
-      metadata: {
-        totalMessages: messages.length,
-        analyzedMessages: relevantMessages.length,
-        selectionMode: !!selectedMessageIds
-      }
-    })
-
-  } catch (error) {
-    console.error('Requirements extraction error:', error)
-    return NextResponse.json(
-      { error: 'Failed to generate requirements' },
-      { status: 500 }
-    )
+Classify each requirement as:
+- "functional": something the system must do
+- "non-functional": a quality such as performance, security, usability or reliability
+- "constraint": a limit on the solution such as budget, schedule, regulation or existing technology
+
+Respond with ONLY a JSON array, one object per requirement:
+[
+  {
+  "text": "The system must have user authentication",
+  "type": "functional",
+  "sourcePersona": "John Smith",
+  "messageIds": ["<id from the [msg:...] tag of each message that states or supports it>"],
+  "evidence": [
+    { "messageId": "<one of those ids>", "quote": "<words copied EXACTLY from that message that justify the requirement>" }
+  ]
+  }
+]
+
+Only include a requirement if you can quote a persona's own words for it; never paraphrase inside "quote".`
+
+  // Call the configured LLM provider. A failed call or an unparseable answer fails the extraction, so the
+  // student sees an error they can retry rather than an empty list
+  const rawRequirements = await llm.chatJSON<RawRequirement[]>({
+    message: prompt,
+    maxTokens: 2000,
+    temperature: 0.3,
+  })
+  const structuredRequirements: ExtractedRequirement[] = normalizeRequirements(
+    Array.isArray(rawRequirements) ? rawRequirements : [],
+    relevantMessages
+  )
+
+  // Generate the final document with context about selection
+  const requirements = generateRequirementsDocument(
+    renderRequirementsList(structuredRequirements),
+    relevantMessages,
+    messages,
+    personas,
+    selectedMessageIds
+  )
+
+  return {
+    requirements: requirements,
+    structuredRequirements,
+    success: true,
+    metadata: {
+      totalMessages: messages.length,
+      analyzedMessages: relevantMessages.length,
+      selectionMode: !!selectedMessageIds
+    }
   }
 }
 
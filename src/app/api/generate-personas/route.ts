@@ -1,10 +1,9 @@
 import { NextResponse } from 'next/server'
-import { CohereClient } from 'cohere-ai'
-
-// Initialize Cohere client
-const cohere = new CohereClient({
-  token: process.env.CO_API_KEY!
-})
+import { resolveProjectLLMProvider } from '@/lib/courses'
+import { normalizeHiddenFacts } from '@/lib/hidden-facts'
+import { enqueueJob, wantsBackground } from '@/lib/jobs'
+import { LLMProvider, parseJSONResponse } from '@/lib/llm'
+import { assignRequirementOwners } from '@/lib/requirement-owners'
 
 // Helper function to extract meaningful keywords from project description
 function extractProjectKeywords(projectName: string, stories: string): string[] {
@@ -202,6 +201,7 @@ async function fetchReadmeContent(owner: string, repo: string) {
 
 // Helper function to generate requirements
 async function generateRequirements(
+  llm: LLMProvider,
   projectName: string,
   domain: string,
   stories: string,
@@ -232,8 +232,7 @@ ${customRequirements && customRequirements.length > 0
 
 Return ONLY the requirements as a numbered list, no additional text.`
 
-    const response = await cohere.chat({
-      model: 'command-r-plus',
+    const response = await llm.chat({
       message: requirementsPrompt,
       maxTokens: 500,
       temperature: 0.6,
@@ -316,54 +315,67 @@ function generateDefaultPersonas(projectName: string, domain: string, count: num
   }))
 }
 
-export async function POST(req: Request) {
-  try {
-    // 1. Parse incoming request
-    const { projectName, domain, stories, count, customRequirements } = await req.json()
-    const effectiveDomain = domain?.trim() || 'General'
-
-    console.log('=== PERSONA GENERATION REQUEST ===')
-    console.log('Project Name:', projectName)
-    console.log('Domain:', effectiveDomain)
-    console.log('Description:', stories)
-    console.log('Custom requirements provided:', customRequirements?.length || 0)
-
-    // 2. Search for related GitHub repositories with improved relevance
-    console.log('=== GITHUB SEARCH DEBUG ===')
-    console.log('Searching for relevant GitHub repositories...')
-
-    // Use the improved search function with project name
-    const repos = await searchGitHubRepos(projectName, effectiveDomain, stories, 5)
-    console.log('Relevant repositories found:', repos.length)
-
-    // 3. Fetch README content from found repositories
-    console.log('=== README FETCH DEBUG ===')
-    console.log('Fetching README content from relevant repos...')
-    const readmeContents: string[] = []
-    const repoReferences: Array<{name: string, url: string, description: string, relevanceScore?: number}> = []
-
-    for (const repo of repos) {
-      console.log(`Processing repo: ${repo.full_name} (relevance: ${repo.relevanceScore?.toFixed(2) || 'N/A'})`)
-      const readme = await fetchReadmeContent(repo.owner.login, repo.name)
-      if (readme) {
-        // Take first 1000 characters to avoid token limits
-        readmeContents.push(readme.substring(0, 1000))
-        console.log(`Added README content (${readme.length} chars) from ${repo.full_name}`)
-      }
+interface GenerationRequest {
+  projectName: string
+  domain?: string
+  stories: string
+  count: number
+  customRequirements?: string[]
+  projectId?: string // When regenerating a published project, generation uses its course's model
+}
 
-      repoReferences.push({
-        name: repo.full_name,
-        url: repo.html_url,
-        description: repo.description || 'No description available',
-        relevanceScore: repo.relevanceScore
-      })
+// The whole generation, answering with the route's response body. onStep reports progress to a background job.
+async function generatePersonas(
+  llm: LLMProvider,
+  { projectName, domain, stories, count, customRequirements }: GenerationRequest,
+  onStep: (step: string) => Promise<void> = async () => {}
+) {
+  const effectiveDomain = domain?.trim() || 'General'
+
+  console.log('=== PERSONA GENERATION REQUEST ===')
+  console.log('Project Name:', projectName)
+  console.log('Domain:', effectiveDomain)
+  console.log('Description:', stories)
+  console.log('Custom requirements provided:', customRequirements?.length || 0)
+
+  // 2. Search for related GitHub repositories with improved relevance
+  await onStep('Searching GitHub for similar projects')
+  console.log('=== GITHUB SEARCH DEBUG ===')
+  console.log('Searching for relevant GitHub repositories...')
+
+  // Use the improved search function with project name
+  const repos = await searchGitHubRepos(projectName, effectiveDomain, stories, 5)
+  console.log('Relevant repositories found:', repos.length)
+
+  // 3. Fetch README content from found repositories
+  console.log('=== README FETCH DEBUG ===')
+  console.log('Fetching README content from relevant repos...')
+  const readmeContents: string[] = []
+  const repoReferences: Array<{name: string, url: string, description: string, relevanceScore?: number}> = []
+
+  for (const repo of repos) {
+    console.log(`Processing repo: ${repo.full_name} (relevance: ${repo.relevanceScore?.toFixed(2) || 'N/A'})`)
+    const readme = await fetchReadmeContent(repo.owner.login, repo.name)
+    if (readme) {
+      // Take first 1000 characters to avoid token limits
+      readmeContents.push(readme.substring(0, 1000))
+      console.log(`Added README content (${readme.length} chars) from ${repo.full_name}`)
     }
 
-    console.log('Total README contents collected:', readmeContents.length)
-    console.log('Total repo references:', repoReferences.length)
+    repoReferences.push({
+      name: repo.full_name,
+      url: repo.html_url,
+      description: repo.description || 'No description available',
+      relevanceScore: repo.relevanceScore
+    })
+  }
 
-    // 4. Generate project outline with better context
-    const outlinePrompt = `Based on the project details and carefully selected related GitHub repositories, create a concise project outline (2-3 paragraphs) describing what this project is about:
+  console.log('Total README contents collected:', readmeContents.length)
+  console.log('Total repo references:', repoReferences.length)
+
+  // 4. Generate project outline with better context
+  await onStep('Writing the project outline')
+  const outlinePrompt = `Based on the project details and carefully selected related GitHub repositories, create a concise project outline (2-3 paragraphs) describing what this project is about:
 
 Project Name: "${projectName}"
 Domain: ${effectiveDomain}
@@ -379,26 +391,27 @@ ${customRequirements && customRequirements.length > 0
 Create a project outline that specifically describes the "${projectName}" project based on the given description, NOT a generic ${effectiveDomain} system.
 Focus on the unique aspects mentioned in the project description.`
 
-    const outlineResponse = await cohere.chat({
-      model: 'command-r-plus',
-      message: outlinePrompt,
-      maxTokens: 300,
-      temperature: 0.7,
-    })
+  const outlineResponse = await llm.chat({
+    message: outlinePrompt,
+    maxTokens: 300,
+    temperature: 0.7,
+  })
 
-    const projectOutline = outlineResponse.text?.trim() || 'This project focuses on delivering solutions in the specified domain with attention to user needs and stakeholder requirements.'
+  const projectOutline = outlineResponse.text?.trim() || 'This project focuses on delivering solutions in the specified domain with attention to user needs and stakeholder requirements.'
 
-    // 5. Generate requirements based on project outline
-    const requirements = await generateRequirements(
-      projectName,
-      effectiveDomain,
-      stories,
-      projectOutline,
-      customRequirements
-    )
+  // 5. Generate requirements based on project outline
+  await onStep('Generating requirements')
+  const requirements = await generateRequirements(
+    llm,
+    projectName,
+    effectiveDomain,
+    stories,
+    projectOutline,
+    customRequirements
+  )
 
-    // 6. Build enhanced persona generation prompt with specific project context
-    const systemPrompt = `You are an expert at creating realistic stakeholder personas for software projects based on real-world examples and industry patterns.
+  // 6. Build enhanced persona generation prompt with specific project context
+  const systemPrompt = `You are an expert at creating realistic stakeholder personas for software projects based on real-world examples and industry patterns.
 
 Generate exactly ${count} realistic personas as a JSON array. Each persona should be an object with these exact fields:
 - name (string): Full name
@@ -407,12 +420,17 @@ Generate exactly ${count} realistic personas as a JSON array. Each persona shoul
 - goal (string): What they want to achieve with "${projectName}"
 - concerns (string): What worries them or challenges they face regarding "${projectName}"
 - personality (string): Brief personality description
+- hiddenFacts (array): 2-3 things they know but would not volunteer to a vague question, such as a tacit requirement, a workaround they rely on or a past incident. Each is an object with:
+  - topic (string): A short label that does not give the fact away, e.g. "Offline use"
+  - fact (string): The specific detail, in one or two sentences
+  - keywords (array of strings): 2-4 lowercase words a student would use when asking about it
+  - revealWhen (string): "asked" if a direct question earns it, "follow-up" if the student must keep probing, "rapport" if they only tell someone they have talked with for a while
 
 IMPORTANT: Create personas specifically for the "${projectName}" project, not generic ${effectiveDomain} personas.
 
 Return ONLY the JSON array, no other text.`
 
-    const contextualPrompt = `Project: "${projectName}"
+  const contextualPrompt = `Project: "${projectName}"
 Domain: ${effectiveDomain}
 Specific Project Context: ${stories}
 
@@ -426,60 +444,81 @@ ${readmeContents.length > 0 ? readmeContents.join('\n\n---\n\n').substring(0, 20
 Generate personas that would realistically be involved in the "${projectName}" project specifically.
 Make sure their roles, goals, and concerns directly relate to: ${stories}`
 
-    // 7. Call Cohere API for persona generation
-    const response = await cohere.chat({
-      model: 'command-r-plus',
-      message: `${systemPrompt}\n\n${contextualPrompt}`,
-      maxTokens: 1000,
-      temperature: 0.8,
-    })
+  // 7. Call the LLM provider for persona generation
+  await onStep('Generating personas')
+  const response = await llm.chat({
+    message: `${systemPrompt}\n\n${contextualPrompt}`,
+    maxTokens: 2000,
+    temperature: 0.8,
+  })
 
-    // 8. Extract and clean the response text
-    let rawText = response.text?.trim() || ''
-    rawText = rawText.replace(/```json\s*|\s*```/g, '').trim()
+  // 8. Extract the response text
+  const rawText = response.text?.trim() || ''
 
-    // 9. Parse the JSON response
-    let personas = []
-    try {
-      personas = JSON.parse(rawText)
+  // 9. Parse the JSON response
+  let personas = []
+  try {
+    personas = parseJSONResponse<Record<string, string>[]>(rawText)
 
-      if (!Array.isArray(personas)) {
-        throw new Error('Response is not an array')
-      }
+    if (!Array.isArray(personas)) {
+      throw new Error('Response is not an array')
+    }
+
+    personas = personas.map(persona => ({
+      name: persona.name || 'Unknown',
+      initials: persona.initials || 'UK',
+      role: persona.role || 'Stakeholder',
+      goal: persona.goal || 'To be defined',
+      concerns: persona.concerns || 'None specified',
+      personality: persona.personality || 'Professional',
+      hiddenFacts: normalizeHiddenFacts(persona.hiddenFacts)
+    }))
+
+  } catch (parseError) {
+    console.error('Failed to parse personas JSON:', parseError)
+    console.error('Raw response:', rawText)
+
+    // Fallback: create default personas relevant to the project
+    personas = generateDefaultPersonas(projectName, effectiveDomain, count)
+  }
+
+  // 10. Work out which persona should be the source of each requirement
+  await onStep('Matching requirements to personas')
+  const roster = personas.slice(0, count)
+  const requirementOwners = await assignRequirementOwners(requirements, roster, llm)
+
+  // 11. Return comprehensive response
+  return {
+    personas: roster,
+    projectOutline,
+    requirements,
+    requirementOwners,
+    references: repoReferences.filter(ref => ref.relevanceScore && ref.relevanceScore > 0.3), // Only show relevant repos
+    metadata: {
+      projectName,
+      searchQuery: `${projectName} ${effectiveDomain}`,
+      reposFound: repos.length,
+      readmesProcessed: readmeContents.length,
+      averageRelevance: repos.length > 0
+        ? repos.reduce((sum, r) => sum + (r.relevanceScore || 0), 0) / repos.length
+        : 0
+    }
+  }
+}
+
+// Generation makes several model and GitHub calls; ?background=true runs it as a job that can outlast the request
+export async function POST(req: Request) {
+  try {
+    // 1. Parse incoming request
+    const input: GenerationRequest = await req.json()
+    const llm = await resolveProjectLLMProvider(input.projectId)
 
-      personas = personas.map(persona => ({
-        name: persona.name || 'Unknown',
-        initials: persona.initials || 'UK',
-        role: persona.role || 'Stakeholder',
-        goal: persona.goal || 'To be defined',
-        concerns: persona.concerns || 'None specified',
-        personality: persona.personality || 'Professional'
-      }))
-
-    } catch (parseError) {
-      console.error('Failed to parse personas JSON:', parseError)
-      console.error('Raw response:', rawText)
-
-      // Fallback: create default personas relevant to the project
-      personas = generateDefaultPersonas(projectName, effectiveDomain, count)
+    if (wantsBackground(req)) {
+      const job = await enqueueJob('generate-personas', ({ setProgress }) => generatePersonas(llm, input, setProgress), input.projectName)
+      return NextResponse.json({ job }, { status: 202 })
     }
 
-    // 10. Return comprehensive response
-    return NextResponse.json({
-      personas: personas.slice(0, count),
-      projectOutline,
-      requirements,
-      references: repoReferences.filter(ref => ref.relevanceScore && ref.relevanceScore > 0.3), // Only show relevant repos
-      metadata: {
-        projectName,
-        searchQuery: `${projectName} ${effectiveDomain}`,
-        reposFound: repos.length,
-        readmesProcessed: readmeContents.length,
-        averageRelevance: repos.length > 0
-          ? repos.reduce((sum, r) => sum + (r.relevanceScore || 0), 0) / repos.length
-          : 0
-      }
-    })
+    return NextResponse.json(await generatePersonas(llm, input))
 
   } catch (error) {
     console.error('API error:', error)
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { getAssignment } from '@/lib/assignments'
+import { buildGradebook, gradebookToCSV } from '@/lib/gradebook'
+import { getProject } from '@/lib/projects'
+
+// GET: One row per student for ?projectId= or ?assignmentId=, as JSON or with ?format=csv a file for the LMS
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const projectId = searchParams.get('projectId')
+    const assignmentId = searchParams.get('assignmentId')
+    const format = searchParams.get('format') || 'json'
+
+    if (!projectId && !assignmentId) {
+      return NextResponse.json(
+        { error: 'Project ID or assignment ID required' },
+        { status: 400 }
+      )
+    }
+    if (format !== 'json' && format !== 'csv') {
+      return NextResponse.json({ error: 'format must be "json" or "csv"' }, { status: 400 })
+    }
+    if (projectId && !await getProject(projectId)) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    if (assignmentId && !await getAssignment(assignmentId)) {
+      return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    }
+
+    const gradebook = await buildGradebook({
+      projectId: projectId || undefined,
+      assignmentId: assignmentId || undefined
+    })
+    console.log(`Gradebook exported: ${gradebook.rows.length} students, ${gradebook.ungradedSessions} ungraded sessions`)
+
+    if (format === 'json') {
+      return NextResponse.json(gradebook)
+    }
+
+    const filename = `gradebook_${new Date().toISOString().split('T')[0]}.csv`
+    return new Response(gradebookToCSV(gradebook), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting gradebook:', error)
+    return NextResponse.json(
+      { error: 'Failed to export gradebook' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server'
+import {
+  DEFAULT_INSTRUCTOR_CONFIG,
+  deleteInstructorConfig,
+  getInstructorConfig,
+  saveInstructorConfig,
+  validateInstructorConfig
+} from '@/lib/instructor-config'
+import { getProject } from '@/lib/projects'
+
+// GET: The interview settings for a project, or the defaults if none were saved
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const projectId = searchParams.get('projectId')
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: 'Project ID required' },
+        { status: 400 }
+      )
+    }
+
+    const stored = await getInstructorConfig(projectId)
+    return NextResponse.json({
+      projectId,
+      config: stored?.config || DEFAULT_INSTRUCTOR_CONFIG,
+      updatedAt: stored?.updatedAt,
+      isDefault: !stored
+    })
+  } catch (error) {
+    console.error('Error retrieving instructor config:', error)
+    return NextResponse.json(
+      { error: 'Failed to retrieve instructor config' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST: Save a project's interview settings; every student's next turn uses them
+export async function POST(req: Request) {
+  try {
+    const { projectId, config } = await req.json()
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: 'Project ID required' },
+        { status: 400 }
+      )
+    }
+
+    if (!await getProject(projectId)) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const { config: validated, errors } = validateInstructorConfig(config)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid config', details: errors }, { status: 400 })
+    }
+
+    const stored = await saveInstructorConfig(projectId, validated)
+    console.log(`Instructor config saved for ${projectId}:`, validated)
+
+    return NextResponse.json({ success: true, ...stored })
+  } catch (error) {
+    console.error('Error saving instructor config:', error)
+    return NextResponse.json(
+      { error: 'Failed to save instructor config' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE: Go back to the default settings
+export async function DELETE(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const projectId = searchParams.get('projectId')
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: 'Project ID required' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await deleteInstructorConfig(projectId)
+    return NextResponse.json({ success: true, deleted, config: DEFAULT_INSTRUCTOR_CONFIG })
+  } catch (error) {
+    console.error('Error deleting instructor config:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete instructor config' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,18 @@
+import { randomUUID } from 'crypto'
 import { NextResponse } from 'next/server'
-import { CohereClient } from 'cohere-ai'
-
-// Initialize Cohere client
-const cohere = new CohereClient({
-  token: process.env.CO_API_KEY!
-})
+import { Annotation, END, START, StateGraph } from '@langchain/langgraph'
+import { getAssignment } from '@/lib/assignments'
+import { getCheckpointer } from '@/lib/checkpointer'
+import { ConflictStance, stancesOf, touchesConflict } from '@/lib/conflicts'
+import { resolveLLMProvider } from '@/lib/courses'
+import { LEDGER_PROMPT_LIMIT, LedgerEntry, recordStatements, reviewReply } from '@/lib/fact-ledger'
+import { assessDisclosure, Disclosure, HiddenFact, recordReveals } from '@/lib/hidden-facts'
+import { InstructorConfig, resolveInstructorConfig } from '@/lib/instructor-config'
+import { ChatRequest, LLMProvider } from '@/lib/llm'
+import { getProject } from '@/lib/projects'
+import { assessTone, isTone, moodOf, PersonaMood, Tone, updateMoods, willingnessOf } from '@/lib/rapport'
+import { requirementsOwnedBy } from '@/lib/requirement-owners'
+import { getSession } from '@/lib/sessions'
 
 interface Message {
   id: string
@@ -22,14 +30,9 @@ interface Persona {
   goal: string
   concerns: string
   personality: string
-}
-
-interface InstructorConfig {
-  requireAllPersonas?: boolean
-  maxResponseLength?: number
-  forcedPersonaOrder?: string[]
-  personalityEmphasis?: boolean
-  summaryInterval?: number // Summarize every N turns
+  hiddenFacts?: HiddenFact[]
+  ownedRequirements?: string[] // The project requirements this persona is the source for
+  conflicts?: ConflictStance[] // Positions the instructor set it against other personas
 }
 
 interface AgentState {
@@ -46,6 +49,11 @@ interface AgentState {
   personaTurnHistory: Record<string, number> // Track turn frequency
   instructorConfig: InstructorConfig // Instructor settings
   collaborativeGoals: Record<string, string[]> // Track team consensus
+  revealedFacts: Record<string, string[]> // Hidden fact IDs each persona has disclosed, by persona name
+  personaMoods: Record<string, PersonaMood> // How each persona feels about the student, by persona name
+  factLedger: Record<string, LedgerEntry[]> // Claims each persona has made to the student, by persona name
+  contradictions: Record<string, string[]> // This turn's rejected replies' contradictions, by persona name; steers the retry
+  replySource?: ReplySource // Where this turn's replies were generated; a failed validation retries from there
   analysisResult?: {
     intent: "targeted" | "general" | "follow_up"
     targetPersonas: string[]
@@ -53,12 +61,56 @@ interface AgentState {
     confidence: number
     reasoning: string
     collaborationGoal?: string // What the team needs to achieve
+    tone?: Tone // How the student's message came across
   }
+  analysisAttempts: number // Analysis passes this turn
+  validationAttempts: number // Regenerations after failed validation this turn
+  responses: PersonaResponse[] // Output of the latest turn
 }
 
+// The node that wrote a turn's replies and the routing it started from, restored when validation drops them
+type ReplySource = Pick<AgentState, 'currentSpeaker' | 'engagedPersonas' | 'previouslyEngagedPersonas'> & {
+  node: 'generate_responses' | 'collaborative_discussion'
+}
+
+// Every message the server creates gets a globally unique ID; clients keep it as-is, so requirement
+// citations and dashboard analytics can refer to the same message the student saw
+function newMessageId(): string {
+  return randomUUID()
+}
+
+// Retry caps so a stubborn model can't loop the graph until the recursion limit
+const MAX_ANALYSIS_ATTEMPTS = 2
+const MAX_VALIDATION_RETRIES = 2
+
+// LangGraph channels for AgentState; every field keeps its last written value and is
+// checkpointed per session, so memory carries over from one turn to the next
+const InterviewState = Annotation.Root({
+  messages: Annotation<Message[]>,
+  currentSpeaker: Annotation<string | null>,
+  conversationContext: Annotation<string>,
+  conversationSummary: Annotation<string>,
+  registeredPersonas: Annotation<Persona[]>,
+  engagedPersonas: Annotation<Persona[]>,
+  sessionId: Annotation<string>,
+  turnCount: Annotation<number>,
+  lastAction: Annotation<string>,
+  previouslyEngagedPersonas: Annotation<string[]>,
+  personaTurnHistory: Annotation<Record<string, number>>,
+  instructorConfig: Annotation<InstructorConfig>,
+  collaborativeGoals: Annotation<Record<string, string[]>>,
+  revealedFacts: Annotation<Record<string, string[]>>,
+  personaMoods: Annotation<Record<string, PersonaMood>>,
+  factLedger: Annotation<Record<string, LedgerEntry[]>>,
+  contradictions: Annotation<Record<string, string[]>>,
+  replySource: Annotation<ReplySource | undefined>,
+  analysisResult: Annotation<AgentState['analysisResult']>,
+  analysisAttempts: Annotation<number>,
+  validationAttempts: Annotation<number>,
+  responses: Annotation<PersonaResponse[]>
+})
+
 interface NodeResult {
-  nextNode?: string
-  shouldContinue: boolean
   responses?: PersonaResponse[]
   updatedState: AgentState
 }
@@ -69,109 +121,138 @@ interface PersonaResponse {
   agentId: string
   confidence: number
   reasoning?: string
+  revealedFactIds?: string[] // Hidden facts this reply was the first to disclose
+  mood?: PersonaMood // How the persona felt about the student when it replied
 }
 
+// Progress events pushed to streaming clients while the workflow runs
+type WorkflowEvent =
+  | { type: 'node', node: string }
+  | { type: 'persona_start', personaName: string }
+  | { type: 'token', personaName: string, delta: string }
+  | { type: 'persona_done', response: PersonaResponse }
+  | { type: 'collaboration_summary', content: string }
+
 interface RequestBody {
   message: string
-  personas: Persona[]
+  personas: Persona[] // Who the student is interviewing; with a project, only the names are used
   conversationHistory: Message[]
   sessionId?: string
-  instructorConfig?: InstructorConfig
+  projectId?: string // Supplies the persona roster and the instructor's config; a saved session's own project wins
+  assignmentId?: string // The assignment the student joined; its project overrides projectId
+  stream?: boolean // Reply with Server-Sent Events instead of one JSON body
 }
 
 // LangGraph Node Types
 type GraphNode = (state: AgentState) => Promise<NodeResult>
 
-// LangGraph-inspired workflow orchestrator
+// Interview orchestrator built on a LangGraph StateGraph
 class InterviewWorkflow {
-  private nodes: Map<string, GraphNode>
-  private edges: Map<string, string[]>
-  private conditionalEdges: Map<string, (state: AgentState) => string>
-
-  constructor() {
-    this.nodes = new Map()
-    this.edges = new Map()
-    this.conditionalEdges = new Map()
-    this.buildWorkflow()
+  private graph
+  private llm: LLMProvider // The course's model, or the deployment default
+  private onEvent?: (event: WorkflowEvent) => void
+
+  constructor(llm: LLMProvider, onEvent?: (event: WorkflowEvent) => void) {
+    this.llm = llm
+    this.onEvent = onEvent
+    this.graph = this.buildWorkflow()
   }
 
-  private buildWorkflow(): void {
-    // Define workflow nodes
-    this.addNode('analyze_input', this.analyzeInputNode.bind(this))
-    this.addNode('route_to_personas', this.routeToPersonasNode.bind(this))
-    this.addNode('collaborative_discussion', this.collaborativeDiscussionNode.bind(this))
-    this.addNode('collaboration_summary', this.collaborationSummaryNode.bind(this))
-    this.addNode('generate_responses', this.generateResponsesNode.bind(this))
-    this.addNode('validate_responses', this.validateResponsesNode.bind(this))
-    this.addNode('format_output', this.formatOutputNode.bind(this))
-    this.addNode('summarize_context', this.summarizeContextNode.bind(this))
-
-    // Enhanced conditional routing with confidence thresholds
-    this.addConditionalEdge('analyze_input', (state: AgentState) => {
-      const analysis = state.analysisResult
-      if (!analysis || analysis.confidence < 0.4) {
-        console.log('⚠️ Low analysis confidence, retrying...')
-        return 'analyze_input' // Retry analysis
-      }
-
-      // Check if we need to summarize (instructor config)
-      const interval = state.instructorConfig.summaryInterval || 20
-      if (state.turnCount > 0 && state.turnCount % interval === 0) {
-        return 'summarize_context'
-      }
+  private buildWorkflow() {
+    return new StateGraph(InterviewState)
+      // Define workflow nodes
+      .addNode('analyze_input', this.node('analyze_input', this.analyzeInputNode))
+      .addNode('route_to_personas', this.node('route_to_personas', this.routeToPersonasNode))
+      .addNode('collaborative_discussion', this.node('collaborative_discussion', this.collaborativeDiscussionNode))
+      .addNode('collaboration_summary', this.node('collaboration_summary', this.collaborationSummaryNode))
+      .addNode('generate_responses', this.node('generate_responses', this.generateResponsesNode))
+      .addNode('validate_responses', this.node('validate_responses', this.validateResponsesNode))
+      .addNode('format_output', this.node('format_output', this.formatOutputNode))
+      .addNode('summarize_context', this.node('summarize_context', this.summarizeContextNode))
+      .addEdge(START, 'analyze_input')
+
+      // Enhanced conditional routing with confidence thresholds
+      .addConditionalEdges('analyze_input', (state: AgentState) => {
+        if (state.lastAction === 'analyze_input_failed') {
+          return END
+        }
 
-      return 'route_to_personas'
-    })
+        const analysis = state.analysisResult
+        if ((!analysis || analysis.confidence < 0.4) && state.analysisAttempts < MAX_ANALYSIS_ATTEMPTS) {
+          console.log('⚠️ Low analysis confidence, retrying...')
+          return 'analyze_input' // Retry analysis
+        }
 
-    // NEW: Route to collaborative discussion if collaboration detected
-    this.addConditionalEdge('route_to_personas', (state: AgentState) => {
-      const latestMessage = state.messages[state.messages.length - 1]
-      if (latestMessage && this.isCollaborationPrompt(latestMessage.content) && state.engagedPersonas.length > 1) {
-        console.log('🤝 Collaboration detected - routing to collaborative discussion')
-        return 'collaborative_discussion'
-      }
-      return 'generate_responses'
-    })
+        // Check if we need to summarize (instructor config)
+        const interval = state.instructorConfig.summaryInterval || 20
+        if (state.turnCount > 0 && state.turnCount % interval === 0) {
+          return 'summarize_context'
+        }
 
-    // NEW: Route to collaboration summary after 3+ collaborative turns
-    this.addConditionalEdge('collaborative_discussion', (state: AgentState) => {
-      const collaborativeTurns = state.messages.filter(msg =>
-        msg.metadata?.discussionRound === true
-      ).length
+        return 'route_to_personas'
+      }, ['analyze_input', 'summarize_context', 'route_to_personas', END])
 
-      if (collaborativeTurns >= 3 && state.analysisResult?.collaborationGoal) {
-        console.log('🤝 Enough collaborative turns - routing to summary')
-        return 'collaboration_summary'
-      }
-      return 'validate_responses'
-    })
+      // NEW: Route to collaborative discussion if collaboration detected
+      .addConditionalEdges('route_to_personas', (state: AgentState) => {
+        const latestMessage = state.messages[state.messages.length - 1]
+        if (latestMessage && this.isCollaborationPrompt(latestMessage.content) && state.engagedPersonas.length > 1) {
+          console.log('🤝 Collaboration detected - routing to collaborative discussion')
+          return 'collaborative_discussion'
+        }
+        return 'generate_responses'
+      }, ['collaborative_discussion', 'generate_responses'])
+
+      // validateResponsesNode decides whether another generation attempt is allowed; it is made by
+      // the node that wrote the rejected replies, so a collaborative turn stays collaborative.
+      // NEW: Kept replies go on to the collaboration summary once 3+ personas have spoken in this turn's discussion
+      .addConditionalEdges('validate_responses', (state: AgentState) => {
+        if (state.lastAction.startsWith('validation_failed')) {
+          return state.replySource?.node || 'generate_responses'
+        }
+        if (this.currentDiscussion(state).length >= 3 && state.analysisResult?.collaborationGoal) {
+          console.log('🤝 Enough collaborative turns - routing to summary')
+          return 'collaboration_summary'
+        }
+        return 'format_output'
+      }, ['generate_responses', 'collaborative_discussion', 'collaboration_summary', 'format_output'])
+
+      // Standard edges
+      .addEdge('summarize_context', 'route_to_personas')
+      .addEdge('collaboration_summary', 'format_output')
+      .addEdge('generate_responses', 'validate_responses')
+      .addEdge('collaborative_discussion', 'validate_responses')
+      .addEdge('format_output', END)
+      .compile({ checkpointer: getCheckpointer() })
+  }
 
-    this.addConditionalEdge('validate_responses', (state: AgentState) => {
-      const recentMessages = state.messages.filter(msg => msg.sender === 'persona').slice(-state.engagedPersonas.length)
-      const hasValidResponses = recentMessages.every(msg =>
-        msg.content.length > 15 &&
-        !this.isOutOfCharacter(msg.content) &&
-        (msg.metadata?.confidence || 0) > 0.5
-      )
-      return hasValidResponses ? 'format_output' : 'generate_responses'
-    })
+  // Adapt a node method to LangGraph: announce it to streaming clients and return its state update
+  private node(name: string, fn: GraphNode) {
+    return async (state: AgentState): Promise<Partial<AgentState>> => {
+      console.log(`🔄 Executing node: ${name}`)
+      this.emit({ type: 'node', node: name })
 
-    // Standard edges (lower priority than conditional)
-    this.addEdge('summarize_context', ['route_to_personas'])
-    this.addEdge('collaboration_summary', ['format_output'])
-    this.addEdge('generate_responses', ['validate_responses'])
+      const result = await fn.call(this, state)
+      return result.responses ? { ...result.updatedState, responses: result.responses } : result.updatedState
+    }
   }
 
-  private addNode(name: string, fn: GraphNode): void {
-    this.nodes.set(name, fn)
+  private emit(event: WorkflowEvent): void {
+    this.onEvent?.(event)
   }
 
-  private addEdge(from: string, to: string[]): void {
-    this.edges.set(from, to)
-  }
+  // Generate a persona reply, forwarding token deltas when a client is listening for them
+  private async completePersonaReply(personaName: string, request: ChatRequest): Promise<string> {
+    if (!this.onEvent) {
+      const response = await this.llm.chat(request)
+      return response.text
+    }
 
-  private addConditionalEdge(from: string, condition: (state: AgentState) => string): void {
-    this.conditionalEdges.set(from, condition)
+    let text = ''
+    for await (const delta of this.llm.chatStream(request)) {
+      text += delta
+      this.emit({ type: 'token', personaName, delta })
+    }
+    return text
   }
 
   // Helper function to detect collaboration prompts
@@ -315,6 +396,143 @@ class InterviewWorkflow {
     return examples[role] || 'Information outside your direct experience or role'
   }
 
+  // The requirements the persona is the stakeholder for, as needs it can speak to first-hand
+  private getOwnedRequirementsInstructions(persona: Persona): string {
+    if (!persona.ownedRequirements?.length) return ''
+    return `
+WHAT YOU NEED FROM THE SYSTEM:
+These are your own needs, and you are the person who can explain them. Describe them in your own words as they come up; don't recite them as a list or all at once:
+${persona.ownedRequirements.map(requirement => `- ${requirement}`).join('\n')}
+`
+  }
+
+  // Declared disagreements with other personas, held the same way every turn so students can notice them
+  private getConflictInstructions(persona: Persona): string {
+    if (!persona.conflicts?.length) return ''
+    return `
+WHERE YOU DISAGREE WITH COLLEAGUES:
+You hold these positions firmly and consistently. Don't drop them to be agreeable; only move if the student proposes a trade-off that really answers your concern:
+${persona.conflicts.map(stance => `- On ${stance.topic}: ${stance.position} (${stance.opponent} wants something different: ${stance.opponentPosition})`).join('\n')}
+If the student asks whether others see it the same way, say honestly who disagrees with you.
+`
+  }
+
+  // What the persona knows but holds back. Facts the student hasn't asked about stay out of the prompt
+  // entirely, so the model can't let them slip; facts asked about too early are named so it can hedge.
+  private getHiddenKnowledgeInstructions(persona: Persona, disclosure: Disclosure): string {
+    if (!persona.hiddenFacts?.length) return ''
+
+    const reluctance: Record<HiddenFact['revealWhen'], string> = {
+      asked: 'you would tell them if they asked you directly',
+      'follow-up': 'you would only go into it if they pressed you on it',
+      rapport: "you don't know the student well enough yet to get into it"
+    }
+    const lines = [
+      '',
+      'WHAT YOU KEEP TO YOURSELF:',
+      'Like a real stakeholder, you know more than you volunteer and only get specific when the student asks the right questions.'
+    ]
+    if (disclosure.known.length > 0) {
+      lines.push('You may share these details where they answer the question:')
+      lines.push(...disclosure.known.map(fact => `- ${fact.topic}: ${fact.fact}`))
+    }
+    if (disclosure.withheld.length > 0) {
+      lines.push('The student is getting close to these topics. Hint that there is more to them but keep it general:')
+      lines.push(...disclosure.withheld.map(fact => `- ${fact.topic} (${reluctance[fact.revealWhen]})`))
+    }
+    lines.push('If a question is vague, answer it just as generally. Never make up specific constraints, numbers or incidents.')
+    return lines.join('\n') + '\n'
+  }
+
+  // What the persona has said so far, however long ago, so it neither repeats nor contradicts itself
+  private getLedgerInstructions(persona: Persona, state: AgentState): string {
+    const ledger = (state.factLedger[persona.name] || []).slice(-LEDGER_PROMPT_LIMIT)
+    const contradicted = state.contradictions[persona.name] || []
+    if (ledger.length === 0 && contradicted.length === 0) return ''
+
+    const lines = ['', "WHAT YOU'VE ALREADY TOLD THE STUDENT:"]
+    if (ledger.length > 0) {
+      lines.push("Stay consistent with all of these. Don't repeat them unless the student asks again, and then just confirm them briefly:")
+      lines.push(...ledger.map(entry => `- ${entry.statement}`))
+    }
+    if (contradicted.length > 0) {
+      lines.push('Your last attempt at this reply contradicted what you said before. Keep to your earlier statements:')
+      lines.push(...contradicted.map(statement => `- ${statement}`))
+    }
+    return lines.join('\n') + '\n'
+  }
+
+  // Reviews this turn's replies against each persona's ledger: the claims they make, and the ones they contradict
+  private async reviewTurnReplies(state: AgentState): Promise<Pick<AgentState, 'factLedger' | 'contradictions'>> {
+    const lastStudentIndex = state.messages.map(msg => msg.sender).lastIndexOf('student')
+    const replies = state.messages.slice(lastStudentIndex + 1)
+      .filter(msg => msg.sender === 'persona' && state.registeredPersonas.some(p => p.name === msg.personaName))
+
+    // Each reply is checked against its persona's ledger as it stood before the turn, so they can run together
+    const reviews = await Promise.all(replies.map(reply =>
+      reviewReply(reply.personaName as string, state.factLedger[reply.personaName as string] || [], reply.content, this.llm)))
+
+    let factLedger = state.factLedger
+    const contradictions: Record<string, string[]> = {}
+    replies.forEach((reply, index) => {
+      const personaName = reply.personaName as string
+      const review = reviews[index]
+      if (review.contradictions.length > 0) {
+        contradictions[personaName] = review.contradictions.map(c => `${c.statement} (${c.explanation})`)
+      }
+      factLedger = recordStatements(factLedger, personaName, review.statements, reply.id)
+    })
+    return { factLedger, contradictions }
+  }
+
+  // How the persona feels about the student, and how that shows in this reply
+  private getMoodInstructions(mood: PersonaMood, tone?: Tone): string {
+    const reaction: Record<Tone, string> = {
+      hostile: "The student was just rude to you. Stay professional but say plainly that you don't appreciate being spoken to that way, and keep your answer minimal.",
+      dismissive: "The student just brushed off what you said. Let some irritation show and don't go out of your way to help.",
+      careless: 'That message was sloppy and too casual for a professional interview. React as a busy professional would: briefly ask what exactly they need, and give only a general answer.',
+      neutral: '',
+      considerate: 'The student was considerate. Warm to them a little.'
+    }
+    const stance = {
+      open: "You're comfortable with this student. Share specifics and examples where they help.",
+      guarded: "You're wary of this student. Answer what is asked, briefly and in general terms, and don't volunteer extra detail.",
+      withdrawn: "You've had enough of this student. Give a short, curt answer of a sentence or two, share nothing new, and tell them you'd be more forthcoming if they took the interview seriously."
+    }[willingnessOf(mood)]
+    return `
+HOW YOU FEEL ABOUT THIS STUDENT (rapport ${mood.rapport}/100, patience ${mood.patience}/100, trust ${mood.trust}/100):
+${[tone ? reaction[tone] : '', stance].filter(Boolean).join('\n')}
+`
+  }
+
+  // The transcript before the question being answered, for judging what the question has earned
+  private historyBefore(state: AgentState, studentMessage: Message): Message[] {
+    const index = state.messages.findIndex(msg => msg.id === studentMessage.id)
+    return index >= 0 ? state.messages.slice(0, index) : state.messages
+  }
+
+  // The discussion replies to the latest student message; the checkpoint keeps every earlier discussion too
+  private currentDiscussion(state: AgentState): Message[] {
+    const studentIndex = state.messages.map(msg => msg.sender).lastIndexOf('student')
+    return state.messages.slice(studentIndex + 1).filter(msg => msg.metadata?.discussionRound === true)
+  }
+
+  private recordRevealedFacts(revealedFacts: Record<string, string[]>, responses: PersonaResponse[]): Record<string, string[]> {
+    return responses.reduce(
+      (revealed, response) => recordReveals(revealed, response.personaName, response.revealedFactIds),
+      revealedFacts
+    )
+  }
+
+  private replySource(node: ReplySource['node'], state: AgentState): ReplySource {
+    return {
+      node,
+      currentSpeaker: state.currentSpeaker,
+      engagedPersonas: state.engagedPersonas,
+      previouslyEngagedPersonas: state.previouslyEngagedPersonas
+    }
+  }
+
   // NEW: Validate if response is role-appropriate
   private validateRoleAppropriateResponse(
     content: string,
@@ -485,9 +703,7 @@ class InterviewWorkflow {
   private async collaborationSummaryNode(state: AgentState): Promise<NodeResult> {
     console.log('📋 Generating collaboration summary to consolidate team decisions')
 
-    const collaborativeMessages = state.messages.filter(msg =>
-      msg.metadata?.discussionRound === true
-    )
+    const collaborativeMessages = this.currentDiscussion(state)
 
     const discussionText = collaborativeMessages
       .map(msg => `${msg.personaName}: ${msg.content}`)
@@ -510,20 +726,21 @@ Please provide:
 
 Format as a brief team summary (2-3 sentences):`
 
-      const response = await cohere.chat({
-        model: 'command-r-plus',
+      const response = await this.llm.chat({
         message: summaryPrompt,
         maxTokens: 200,
         temperature: 0.3,
       })
 
       const summaryContent = response.text?.trim() || "The team discussed the topic and shared various perspectives."
+      this.emit({ type: 'collaboration_summary', content: summaryContent })
 
       // Create a summary message
       const summaryMessage: Message = {
-        id: `${Date.now()}-team-summary`,
+        id: newMessageId(),
         sender: 'system',
-        content: `**Team Consensus Summary:** ${summaryContent}`,
+        personaName: 'Team',
+        content: summaryContent,
         timestamp: new Date(),
         metadata: {
           isCollaborationSummary: true,
@@ -539,8 +756,6 @@ Format as a brief team summary (2-3 sentences):`
       }
 
       return {
-        nextNode: 'format_output',
-        shouldContinue: true,
         responses: [{
           personaName: 'Team',
           content: summaryContent,
@@ -558,8 +773,6 @@ Format as a brief team summary (2-3 sentences):`
     } catch (error) {
       console.error('Collaboration summary failed:', error)
       return {
-        nextNode: 'format_output',
-        shouldContinue: true,
         updatedState: { ...state, lastAction: 'collaboration_summary_failed' }
       }
     }
@@ -581,20 +794,22 @@ Format as a brief team summary (2-3 sentences):`
       consensusItems.push(...state.collaborativeGoals[collaborationGoal])
     }
 
-    // Check if we should encourage challenging (vary the discussion dynamics)
-    const collaborativeTurns = state.messages.filter(msg =>
-      msg.metadata?.discussionRound === true
-    ).length
-    const shouldChallenge = collaborativeTurns > 0 && Math.random() > 0.6 // 40% chance to challenge after first turn
-
     // Generate responses sequentially so each persona can build on previous ones
     for (let i = 0; i < state.engagedPersonas.length; i++) {
       const persona = state.engagedPersonas[i]
+      this.emit({ type: 'persona_start', personaName: persona.name })
 
       try {
         // Build context of prior replies in this discussion round
         const priorReplies = responses.slice(0, i).map(r => `${r.personaName}: ${r.content}`).join('\n')
 
+        // Personas challenge each other over the conflicts the instructor declared: a speaker pushes back
+        // once a colleague it disagrees with has spoken, if the question or that reply touches the topic
+        const challenge = persona.conflicts?.find(stance => {
+          const opponentReply = responses.find(r => r.personaName === stance.opponent)
+          return opponentReply && touchesConflict(stance, `${latestMessage.content}\n${opponentReply.content}`)
+        })
+
         const response = await this.generateCollaborativeResponse(
           persona,
           latestMessage,
@@ -603,7 +818,7 @@ Format as a brief team summary (2-3 sentences):`
           i === 0, // isFirstSpeaker
           collaborationGoal,
           consensusItems,
-          shouldChallenge && i > 0 // Only non-first speakers can challenge
+          challenge
         )
         responses.push(response)
 
@@ -619,11 +834,12 @@ Format as a brief team summary (2-3 sentences):`
           reasoning: 'Fallback due to generation error in collaboration'
         })
       }
+      this.emit({ type: 'persona_done', response: responses[responses.length - 1] })
     }
 
     // Add responses to state as new messages
     const newMessages = responses.map((resp, index) => ({
-      id: `${Date.now()}-${resp.personaName}-${index}`,
+      id: newMessageId(),
       sender: 'persona' as const,
       personaName: resp.personaName,
       content: resp.content,
@@ -633,7 +849,9 @@ Format as a brief team summary (2-3 sentences):`
         reasoning: resp.reasoning,
         discussionRound: true,
         speakingOrder: index + 1,
-        collaborationGoal: collaborationGoal
+        collaborationGoal: collaborationGoal,
+        revealedFactIds: resp.revealedFactIds,
+        mood: resp.mood
       }
     }))
 
@@ -645,8 +863,6 @@ Format as a brief team summary (2-3 sentences):`
     ].slice(-8)
 
     return {
-      nextNode: 'validate_responses',
-      shouldContinue: true,
       responses,
       updatedState: {
         ...state,
@@ -654,6 +870,8 @@ Format as a brief team summary (2-3 sentences):`
         currentSpeaker: responses.length === 1 ? responses[0].personaName : null,
         turnCount: state.turnCount + 1,
         previouslyEngagedPersonas: updatedPreviouslyEngaged,
+        revealedFacts: this.recordRevealedFacts(state.revealedFacts, responses),
+        replySource: this.replySource('collaborative_discussion', state),
         lastAction: 'collaborative_discussion_complete'
       }
     }
@@ -678,8 +896,7 @@ CURRENT SUMMARY: ${state.conversationSummary}
 
 Provide an updated summary that captures the main themes and progression:`
 
-      const response = await cohere.chat({
-        model: 'command-r-plus',
+      const response = await this.llm.chat({
         message: summaryPrompt,
         maxTokens: 150,
         temperature: 0.3,
@@ -688,8 +905,6 @@ Provide an updated summary that captures the main themes and progression:`
       const newSummary = response.text?.trim() || state.conversationSummary
 
       return {
-        nextNode: 'route_to_personas',
-        shouldContinue: true,
         updatedState: {
           ...state,
           conversationSummary: newSummary,
@@ -699,8 +914,6 @@ Provide an updated summary that captures the main themes and progression:`
     } catch (error) {
       console.error('Summarization failed:', error)
       return {
-        nextNode: 'route_to_personas',
-        shouldContinue: true,
         updatedState: { ...state, lastAction: 'summarization_failed' }
       }
     }
@@ -713,7 +926,6 @@ Provide an updated summary that captures the main themes and progression:`
     const latestMessage = state.messages[state.messages.length - 1]
     if (!latestMessage || latestMessage.sender !== 'student') {
       return {
-        shouldContinue: false,
         updatedState: { ...state, lastAction: 'analyze_input_failed' }
       }
     }
@@ -755,6 +967,7 @@ Provide an updated summary that captures the main themes and progression:`
     // Enhanced AI analysis with robust parsing
     let topic = "general_inquiry"
     let aiReasoning = ""
+    let tone: Tone | undefined
 
     try {
       const analysisPrompt = `Analyze this student interview question:
@@ -764,12 +977,12 @@ AVAILABLE PERSONAS: ${state.registeredPersonas.map(p => `${p.name} (${p.role})`)
 CONVERSATION SUMMARY: ${state.conversationSummary}
 
 Determine the main topic and provide structured analysis.
-Format your response as: TOPIC:[single_word] | GENERAL:[yes/no] | REASONING:[brief_explanation]
+Also judge the question's tone towards the stakeholders: hostile (rude or insulting), dismissive (brushing them off), careless (slangy or low-effort), neutral, or considerate (polite or building on their answers).
+Format your response as: TOPIC:[single_word] | GENERAL:[yes/no] | TONE:[tone] | REASONING:[brief_explanation]
 
 Question: "${latestMessage.content}"`
 
-      const response = await cohere.chat({
-        model: 'command-r-plus',
+      const response = await this.llm.chat({
         message: analysisPrompt,
         maxTokens: 120,
         temperature: 0.2,
@@ -780,6 +993,7 @@ Question: "${latestMessage.content}"`
       // Robust parsing with fallbacks
       const topicMatch = analysisText.match(/TOPIC:\s*([^\|]+)/)
       const generalMatch = analysisText.match(/GENERAL:\s*([^\|]+)/)
+      const toneMatch = analysisText.match(/TONE:\s*([a-zA-Z]+)/)
       const reasoningMatch = analysisText.match(/REASONING:\s*(.+)/)
 
       if (topicMatch) {
@@ -795,6 +1009,10 @@ Question: "${latestMessage.content}"`
         aiReasoning = reasoningMatch[1].trim()
       }
 
+      if (toneMatch && isTone(toneMatch[1].toLowerCase())) {
+        tone = toneMatch[1].toLowerCase() as Tone
+      }
+
     } catch (error) {
       console.error('AI analysis failed, using heuristics:', error)
       // Fallback to heuristic analysis
@@ -808,26 +1026,37 @@ Question: "${latestMessage.content}"`
       console.log(`🎯 Collaboration goal identified: ${collaborationGoal}`)
     }
 
+    tone = tone || assessTone(latestMessage.content)
     const analysisResult = {
       intent,
       targetPersonas: targetedPersonas,
       topic,
       confidence,
       reasoning: `${reasoning} | AI: ${aiReasoning}`,
-      collaborationGoal
+      collaborationGoal,
+      tone
     }
 
+    // Everyone in the interview hears the message; the persona it was put to takes it most to heart.
+    // A retried analysis is the same message, so it only counts once.
+    const addressed = targetedPersonas.length > 0 ? targetedPersonas
+      : intent === 'follow_up' && state.currentSpeaker ? [state.currentSpeaker]
+      : []
+    const personaMoods = state.analysisAttempts === 0
+      ? updateMoods(state.personaMoods, state.registeredPersonas, tone, addressed)
+      : state.personaMoods
+
     // Update conversation summary for long-term memory
     const updatedSummary = await this.updateConversationSummary(state, latestMessage.content, analysisResult)
 
     return {
-      nextNode: 'route_to_personas',
-      shouldContinue: true,
       updatedState: {
         ...state,
         conversationContext: `Intent: ${intent}, Topic: ${topic}, Confidence: ${confidence}`,
         conversationSummary: updatedSummary,
         analysisResult,
+        personaMoods,
+        analysisAttempts: state.analysisAttempts + 1,
         lastAction: 'analyze_input_complete'
       }
     }
@@ -950,8 +1179,6 @@ Question: "${latestMessage.content}"`
       })
 
       return {
-        nextNode: 'generate_responses',
-        shouldContinue: true,
         updatedState: {
           ...state,
           engagedPersonas: selectedPersonas,
@@ -985,8 +1212,6 @@ Question: "${latestMessage.content}"`
     })
 
     return {
-      nextNode: 'generate_responses',
-      shouldContinue: true,
       updatedState: {
         ...state,
         engagedPersonas: selectedPersonas,
@@ -1060,7 +1285,7 @@ Question: "${latestMessage.content}"`
     isFirstSpeaker: boolean,
     collaborationGoal: string,
     consensusItems: string[],
-    shouldChallenge: boolean = false
+    challenge?: ConflictStance
   ): Promise<PersonaResponse> {
     const config = state.instructorConfig
 
@@ -1092,6 +1317,20 @@ Question: "${latestMessage.content}"`
     const roleKnowledgeBoundaries = this.getRoleKnowledgeBoundaries(persona.role)
     const roleValidationKeywords = this.getRoleValidationKeywords(persona.role)
 
+    const mood = moodOf(state.personaMoods, persona.name)
+    const disclosure = assessDisclosure(
+      persona,
+      studentMessage.content,
+      this.historyBefore(state, studentMessage),
+      state.revealedFacts[persona.name],
+      willingnessOf(mood)
+    )
+    const hiddenKnowledge = this.getHiddenKnowledgeInstructions(persona, disclosure)
+    const moodInstructions = this.getMoodInstructions(mood, state.analysisResult?.tone)
+    const statedFacts = this.getLedgerInstructions(persona, state)
+    const ownedRequirements = this.getOwnedRequirementsInstructions(persona)
+    const conflictPositions = this.getConflictInstructions(persona)
+
     // ENHANCED: Collaborative-specific instructions with clear shared goal
     const sharedGoalInstruction = `SHARED TEAM GOAL: The team must produce a unified ${collaborationGoal.replace('_', ' ')} recommendation.`
 
@@ -1102,12 +1341,12 @@ Question: "${latestMessage.content}"`
 - Be specific about your role's unique viewpoint and recommendations
 - ONLY share information that someone in your role would know` :
 
-      shouldChallenge ?
+      challenge ?
       `- Your teammates have shared their thoughts (see below)
-- You may respectfully challenge or offer alternatives to their suggestions FROM YOUR ROLE'S PERSPECTIVE
-- Provide constructive criticism and propose better solutions based on your role's expertise
-- Reference what others said specifically (e.g., "I disagree with [Name] about X because...")
-- Work toward a better collaborative solution
+- You genuinely disagree with ${challenge.opponent} about ${challenge.topic}. Your position: ${challenge.position}
+- Push back on ${challenge.opponent}'s view respectfully but firmly, FROM YOUR ROLE'S PERSPECTIVE
+- Reference what they said specifically (e.g., "I disagree with ${challenge.opponent} about X because...")
+- Do not give up your position to reach consensus; only move if someone offers a trade-off that answers your concern
 - ONLY contribute knowledge from your role's domain` :
 
       `- Your teammates have already shared their thoughts (see below)
@@ -1146,7 +1385,7 @@ ${sharedGoalInstruction}
 CONTEXT: ${state.conversationContext}
 STUDENT'S QUESTION: ${studentMessage.content}
 ${consensusContext}
-
+${ownedRequirements}${conflictPositions}${statedFacts}${hiddenKnowledge}${moodInstructions}
 ${priorReplies ? `TEAMMATES' RESPONSES SO FAR:
 ${priorReplies}
 
@@ -1181,14 +1420,13 @@ Respond as ${persona.name} in this collaborative team discussion, working toward
     const maxTokens = config.maxResponseLength ?
       Math.min(300, Math.floor(config.maxResponseLength / 4)) : 250
 
-    const response = await cohere.chat({
-      model: 'command-r-plus',
+    const responseText = await this.completePersonaReply(persona.name, {
       message: prompt,
       maxTokens,
       temperature,
     })
 
-    let content = response.text?.trim() || this.getFallbackResponse(persona, studentMessage.content)
+    let content = responseText.trim() || this.getFallbackResponse(persona, studentMessage.content)
 
     // Filter unnecessary content
     content = this.filterUnnecessaryContent(content)
@@ -1257,7 +1495,9 @@ Respond as ${persona.name} in this collaborative team discussion, working toward
       content,
       agentId: persona.name,
       confidence: Math.min(0.99, Math.round(finalConfidence * 100) / 100),
-      reasoning: `Collaborative response as ${persona.role} (${isFirstSpeaker ? 'initiating' : shouldChallenge ? 'challenging teammates' : 'building on teammates'}), confidence: ${Math.round(finalConfidence * 100)}%`
+      reasoning: `Collaborative response as ${persona.role} (${isFirstSpeaker ? 'initiating' : challenge ? `challenging ${challenge.opponent} on ${challenge.topic}` : 'building on teammates'}), confidence: ${Math.round(finalConfidence * 100)}%`,
+      revealedFactIds: validationResult.isValid ? disclosure.earned.map(fact => fact.id) : [],
+      mood
     }
   }
 
@@ -1287,6 +1527,7 @@ Respond as ${persona.name} in this collaborative team discussion, working toward
     }
 
     for (const persona of eligiblePersonas) {
+      this.emit({ type: 'persona_start', personaName: persona.name })
       try {
         const response = await this.generatePersonaResponse(persona, latestMessage, state)
         responses.push(response)
@@ -1300,6 +1541,7 @@ Respond as ${persona.name} in this collaborative team discussion, working toward
           reasoning: 'Fallback due to generation error'
         })
       }
+      this.emit({ type: 'persona_done', response: responses[responses.length - 1] })
     }
 
     // If no responses generated in multi-persona scenario, get one different persona
@@ -1307,19 +1549,21 @@ Respond as ${persona.name} in this collaborative team discussion, working toward
       const alternativePersona = state.registeredPersonas.find(p => p.name !== state.currentSpeaker)
       if (alternativePersona) {
         console.log(`⚠️ No eligible personas, using alternative: ${alternativePersona.name}`)
+        this.emit({ type: 'persona_start', personaName: alternativePersona.name })
         const response = await this.generatePersonaResponse(alternativePersona, latestMessage, state)
         responses.push(response)
+        this.emit({ type: 'persona_done', response })
       }
     }
 
     // Add responses to state as new messages
     const newMessages = responses.map(resp => ({
-      id: `${Date.now()}-${resp.personaName}`,
+      id: newMessageId(),
       sender: 'persona' as const,
       personaName: resp.personaName,
       content: resp.content,
       timestamp: new Date(),
-      metadata: { confidence: resp.confidence, reasoning: resp.reasoning }
+      metadata: { confidence: resp.confidence, reasoning: resp.reasoning, revealedFactIds: resp.revealedFactIds, mood: resp.mood }
     }))
 
     // Update engagement tracking
@@ -1330,8 +1574,6 @@ Respond as ${persona.name} in this collaborative team discussion, working toward
     ].slice(-8)
 
     return {
-      nextNode: 'validate_responses',
-      shouldContinue: true,
       responses,
       updatedState: {
         ...state,
@@ -1339,6 +1581,8 @@ Respond as ${persona.name} in this collaborative team discussion, working toward
         currentSpeaker: responses.length === 1 ? responses[0].personaName : null,
         turnCount: state.turnCount + 1,
         previouslyEngagedPersonas: updatedPreviouslyEngaged,
+        revealedFacts: this.recordRevealedFacts(state.revealedFacts, responses),
+        replySource: this.replySource('generate_responses', state),
         lastAction: 'responses_generated'
       }
     }
@@ -1387,12 +1631,51 @@ Respond as ${persona.name} in this collaborative team discussion, working toward
       }
     }
 
+    // Replies that pass the checks above, or that are kept anyway, are checked against what their
+    // personas said before; their claims join the ledgers once the replies are kept
+    const exhausted = state.validationAttempts >= MAX_VALIDATION_RETRIES
+    let factLedger = state.factLedger
+    let contradictions: Record<string, string[]> = {}
+    if (allValid || exhausted) {
+      ({ factLedger, contradictions } = await this.reviewTurnReplies(state))
+      if (allValid && Object.keys(contradictions).length > 0) {
+        allValid = false
+        validationReason = `Contradicts earlier statements by ${Object.keys(contradictions).join(', ')}`
+      }
+    }
+
+    if (allValid) {
+      return { updatedState: { ...state, factLedger, contradictions: {}, lastAction: 'validation_passed' } }
+    }
+
+    if (exhausted) {
+      console.log(`⚠️ Validation still failing after ${state.validationAttempts} retries (${validationReason}) - keeping responses`)
+      return { updatedState: { ...state, factLedger, contradictions: {}, lastAction: `validation_exhausted_${validationReason}` } }
+    }
+
+    // Drop this turn's replies so the retry replaces them rather than piling up in the history,
+    // along with the facts they revealed; the retry earns those again. Who was lined up to speak goes
+    // back to how routing left it, or the rejected speaker would be skipped as having already spoken.
+    const lastStudentIndex = state.messages.map(msg => msg.sender).lastIndexOf('student')
+    const dropped = state.messages.slice(lastStudentIndex + 1)
+    const revealedFacts = Object.fromEntries(Object.entries(state.revealedFacts).map(([name, ids]) => {
+      const retracted = dropped.filter(msg => msg.personaName === name).flatMap(msg => msg.metadata?.revealedFactIds || [])
+      return [name, ids.filter(id => !retracted.includes(id))]
+    }))
     return {
-      nextNode: allValid ? 'format_output' : 'generate_responses',
-      shouldContinue: true,
       updatedState: {
         ...state,
-        lastAction: allValid ? 'validation_passed' : `validation_failed_${validationReason}`
+        ...(state.replySource && {
+          currentSpeaker: state.replySource.currentSpeaker,
+          engagedPersonas: state.replySource.engagedPersonas,
+          previouslyEngagedPersonas: state.replySource.previouslyEngagedPersonas
+        }),
+        messages: state.messages.slice(0, lastStudentIndex + 1),
+        revealedFacts,
+        contradictions,
+        turnCount: state.turnCount - 1,
+        validationAttempts: state.validationAttempts + 1,
+        lastAction: `validation_failed_${validationReason}`
       }
     }
   }
@@ -1409,11 +1692,17 @@ Respond as ${persona.name} in this collaborative team discussion, working toward
       content: msg.content,
       agentId: msg.personaName || 'unknown',
       confidence: msg.metadata?.confidence || 0.8,
-      reasoning: msg.metadata?.reasoning
+      reasoning: msg.metadata?.reasoning,
+      revealedFactIds: msg.metadata?.revealedFactIds,
+      mood: msg.metadata?.mood
     }))
 
+    // Keep the team consensus produced by collaboration_summary alongside the persona replies
+    if (state.lastAction === 'collaboration_summary_complete') {
+      responses.push(...state.responses)
+    }
+
     return {
-      shouldContinue: false,
       responses,
       updatedState: {
         ...state,
@@ -1468,6 +1757,21 @@ Respond as ${persona.name} in this collaborative team discussion, working toward
     const roleKnowledgeBoundaries = this.getRoleKnowledgeBoundaries(persona.role)
     const roleValidationKeywords = this.getRoleValidationKeywords(persona.role)
 
+    // Hidden facts: only what the student has earned goes into the prompt, and less once they've put the persona off
+    const mood = moodOf(state.personaMoods, persona.name)
+    const disclosure = assessDisclosure(
+      persona,
+      studentMessage.content,
+      this.historyBefore(state, studentMessage),
+      state.revealedFacts[persona.name],
+      willingnessOf(mood)
+    )
+    const hiddenKnowledge = this.getHiddenKnowledgeInstructions(persona, disclosure)
+    const moodInstructions = this.getMoodInstructions(mood, state.analysisResult?.tone)
+    const statedFacts = this.getLedgerInstructions(persona, state)
+    const ownedRequirements = this.getOwnedRequirementsInstructions(persona)
+    const conflictPositions = this.getConflictInstructions(persona)
+
     const prompt = `You are ${persona.name}, a ${persona.role}. Here are your characteristics:
 
 ROLE: ${persona.role}
@@ -1487,7 +1791,7 @@ ${this.getRoleInappropriateExamples(persona.role)}
 
 CONTEXT: ${state.conversationContext}
 CONVERSATION THEMES: ${state.conversationSummary}
-
+${ownedRequirements}${conflictPositions}${statedFacts}${hiddenKnowledge}${moodInstructions}
 CRITICAL INSTRUCTIONS:
 - Stay completely in character as ${persona.name}
 - NEVER mention you are an AI, language model, or chatbot
@@ -1517,14 +1821,13 @@ Respond as ${persona.name} would, fully embodying your role and personality whil
     const maxTokens = config.maxResponseLength ?
       Math.min(300, Math.floor(config.maxResponseLength / 4)) : 300
 
-    const response = await cohere.chat({
-      model: 'command-r-plus',
+    const responseText = await this.completePersonaReply(persona.name, {
       message: prompt,
       maxTokens,
       temperature,
     })
 
-    let content = response.text?.trim() || this.getFallbackResponse(persona, studentMessage.content)
+    let content = responseText.trim() || this.getFallbackResponse(persona, studentMessage.content)
 
     // ADD THESE TWO LINES HERE:
     // Filter unnecessary content
@@ -1588,7 +1891,10 @@ Respond as ${persona.name} would, fully embodying your role and personality whil
       content,
       agentId: persona.name,
       confidence: Math.min(0.99, Math.round(finalConfidence * 100) / 100),
-      reasoning: `Generated as ${persona.role} with personality "${persona.personality}"${config.personalityEmphasis ? ' (EMPHASIZED)' : ''}, confidence: ${Math.round(finalConfidence * 100)}%`
+      reasoning: `Generated as ${persona.role} with personality "${persona.personality}"${config.personalityEmphasis ? ' (EMPHASIZED)' : ''}, confidence: ${Math.round(finalConfidence * 100)}%`,
+      // A deflection replaced the reply, so nothing it earned was actually said
+      revealedFactIds: validationResult.isValid ? disclosure.earned.map(fact => fact.id) : [],
+      mood
     }
   }
 
@@ -1624,59 +1930,203 @@ Respond as ${persona.name} would, fully embodying your role and personality whil
     return personalityBasedFallbacks[Math.floor(Math.random() * personalityBasedFallbacks.length)]
   }
 
-  // Execute the enhanced workflow
-  async execute(initialState: AgentState): Promise<PersonaResponse[]> {
-    let currentState = initialState
-    let currentNode = 'analyze_input'
-    let iterations = 0
-    const maxIterations = 15 // Increased for retry logic
+  // Latest checkpointed state for a session, or undefined on its first turn
+  async loadState(sessionId: string): Promise<AgentState | undefined> {
+    const snapshot = await this.graph.getState({ configurable: { thread_id: sessionId } })
+    return snapshot.values?.messages ? snapshot.values as AgentState : undefined
+  }
 
-    while (iterations < maxIterations) {
-      console.log(`🔄 Executing node: ${currentNode} (iteration ${iterations + 1})`)
+  // Run one interview turn; the checkpointer keeps the resulting state for the session's next turn
+  async execute(turnState: AgentState): Promise<AgentState> {
+    const finalState = await this.graph.invoke(turnState, {
+      configurable: { thread_id: turnState.sessionId }
+    })
+    console.log('✅ Workflow complete')
+    return finalState as AgentState
+  }
+}
 
-      const nodeFunction = this.nodes.get(currentNode)
-      if (!nodeFunction) {
-        console.error(`Node ${currentNode} not found`)
-        break
-      }
+// State for a session the graph has not seen yet, reconstructed from the client's history
+function newSessionState(
+  sessionId: string,
+  conversationHistory: Message[],
+  studentMessage: Message,
+  personas: Persona[],
+  instructorConfig: InstructorConfig
+): AgentState {
+  const previousPersonaTurns: Record<string, number> = {}
+  conversationHistory.forEach(msg => {
+    if (msg.sender === 'persona' && msg.personaName) {
+      previousPersonaTurns[msg.personaName] = (previousPersonaTurns[msg.personaName] || 0) + 1
+    }
+  })
+
+  return {
+    messages: [...conversationHistory, studentMessage],
+    currentSpeaker: conversationHistory.slice(-1).find(msg => msg.sender === 'persona')?.personaName || null,
+    conversationContext: '',
+    conversationSummary: '',
+    registeredPersonas: personas, // Full roster never mutated
+    engagedPersonas: [], // Separate engaged list
+    sessionId,
+    turnCount: conversationHistory.length,
+    lastAction: 'workflow_started',
+    previouslyEngagedPersonas: conversationHistory
+      .filter(msg => msg.sender === 'persona' && msg.personaName)
+      .slice(-6)
+      .map(msg => msg.personaName!),
+    personaTurnHistory: previousPersonaTurns,
+    collaborativeGoals: {}, // Track team consensus
+    revealedFacts: {},
+    personaMoods: {},
+    factLedger: {},
+    contradictions: {},
+    instructorConfig,
+    analysisAttempts: 0,
+    validationAttempts: 0,
+    responses: []
+  }
+}
 
-      const result = await nodeFunction(currentState)
-      currentState = result.updatedState
+// Next turn of a checkpointed session: memory (summary, goals, turn history) carries over
+function continueSessionState(
+  previousState: AgentState,
+  studentMessage: Message,
+  personas: Persona[],
+  instructorConfig: InstructorConfig
+): AgentState {
+  return {
+    ...previousState,
+    messages: [...previousState.messages, studentMessage],
+    registeredPersonas: personas,
+    engagedPersonas: [],
+    revealedFacts: previousState.revealedFacts || {}, // Checkpoints from before hidden facts lack it
+    personaMoods: previousState.personaMoods || {},
+    factLedger: previousState.factLedger || {},
+    contradictions: {},
+    lastAction: 'workflow_started',
+    instructorConfig,
+    analysisAttempts: 0,
+    validationAttempts: 0,
+    responses: []
+  }
+}
 
-      if (!result.shouldContinue) {
-        console.log('✅ Workflow complete')
-        return result.responses || []
+// Shape the workflow result the way the interview page expects it
+function buildInterviewResponse(state: AgentState) {
+  const responses = state.responses
+  const lastStudentIndex = state.messages.map(msg => msg.sender).lastIndexOf('student')
+  return {
+    // This turn's finished messages (the student's question, persona replies and any team summary)
+    // with their server-assigned IDs and metadata; clients store these rather than rebuilding them
+    messages: state.messages.slice(Math.max(lastStudentIndex, 0)),
+    responses: responses.map(r => ({
+      personaName: r.personaName,
+      content: r.content,
+      agentId: r.agentId,
+      confidence: r.confidence
+    })),
+    metadata: {
+      totalPersonas: state.registeredPersonas.length,
+      respondingPersonas: responses.length,
+      conversationLength: state.messages.length,
+      sessionId: state.sessionId,
+      workflowComplete: true,
+      analysisResult: state.analysisResult,
+      qualityScores: responses.map(r => r.confidence),
+      turnHistory: state.personaTurnHistory,
+      collaborativeGoals: state.collaborativeGoals, // Include consensus tracking
+      revealedFacts: state.revealedFacts,
+      personaMoods: state.personaMoods,
+      factLedger: state.factLedger,
+      instructorConfig: state.instructorConfig, // Include config in response
+      debugInfo: {
+        routing: responses.map(r => r.reasoning),
+        previousSpeakers: state.previouslyEngagedPersonas,
+        currentSpeaker: state.currentSpeaker,
+        collaborationDetected: responses.some(r => r.reasoning?.includes('Collaborative')),
+        hasCollaborationSummary: responses.some(r => r.agentId === 'team-summary'),
+        memoryManagement: {
+          summaryInterval: state.instructorConfig.summaryInterval,
+          shouldSummarize: state.turnCount > 0 &&
+            state.turnCount % (state.instructorConfig.summaryInterval || 20) === 0
+        }
       }
+    }
+  }
+}
 
-      // Enhanced next node determination
-      if (result.nextNode) {
-        currentNode = result.nextNode
-      } else {
-        const conditionalLogic = this.conditionalEdges.get(currentNode)
-        if (conditionalLogic) {
-          currentNode = conditionalLogic(currentState)
-        } else {
-          const possibleEdges = this.edges.get(currentNode)
-          if (possibleEdges && possibleEdges.length > 0) {
-            currentNode = possibleEdges[0]
-          } else {
-            console.log('No more nodes to execute')
-            break
-          }
-        }
+// Run a turn and push each workflow event to the client as it happens, ending with a `done`
+// event that carries the same body the non-streaming mode returns
+function streamWorkflow(runTurn: (onEvent: (event: WorkflowEvent) => void) => Promise<AgentState>): Response {
+  const encoder = new TextEncoder()
+  let clientGone = false
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (clientGone) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
       }
 
-      iterations++
+      try {
+        const finalState = await runTurn(event => send(event.type, event))
+        send('done', buildInterviewResponse(finalState))
+      } catch (error) {
+        console.error('Streaming interview error:', error)
+        send('error', { error: 'Failed to process interview message' })
+      } finally {
+        if (!clientGone) controller.close()
+      }
+    },
+    cancel() {
+      // The student navigated away; let the turn finish quietly
+      clientGone = true
     }
+  })
 
-    console.warn('Workflow reached max iterations')
-    return []
-  }
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
 }
 
 export async function POST(req: Request) {
   try {
-    const { message, personas, conversationHistory, sessionId, instructorConfig }: RequestBody = await req.json()
+    const { message, personas: requestedPersonas, conversationHistory, sessionId, projectId, assignmentId, stream }: RequestBody = await req.json()
+
+    const session = sessionId ? await getSession(sessionId) : undefined
+    const activeAssignmentId = session?.assignmentId || assignmentId
+    const assignment = activeAssignmentId ? await getAssignment(activeAssignmentId) : undefined
+    if (activeAssignmentId && !assignment) {
+      return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    }
+    if (assignment?.status === 'closed') {
+      return NextResponse.json({ error: 'Assignment is closed' }, { status: 409 })
+    }
+
+    const activeProjectId = assignment?.projectId || session?.projectId || projectId
+    const project = activeProjectId ? await getProject(activeProjectId) : undefined
+    if (activeProjectId && !project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    if (project?.status === 'archived') {
+      return NextResponse.json({ error: 'Project is archived' }, { status: 409 })
+    }
+
+    // A project's stored roster is authoritative: the client picks who to interview, not what they are like
+    const personas: Persona[] = project
+      ? project.personas
+        .filter(p => requestedPersonas?.some(requested => requested.name === p.name))
+        .map(p => ({
+          ...p,
+          ownedRequirements: requirementsOwnedBy(project.requirementOwners, project.requirements, p.name),
+          conflicts: stancesOf(project.conflicts, p.name)
+        }))
+      : requestedPersonas
 
     if (!message || !personas || personas.length === 0) {
       return NextResponse.json(
@@ -1689,91 +2139,47 @@ export async function POST(req: Request) {
     console.log('Student message:', message)
     console.log('Registered personas:', personas.map(p => `${p.name} (${p.initials}) - ${p.personality}`))
     console.log('Session ID:', sessionId || 'new')
-    console.log('Instructor config:', instructorConfig)
 
     // Create student message
     const studentMessage: Message = {
-      id: `${Date.now()}-student`,
+      id: newMessageId(),
       sender: 'student',
       content: message,
       timestamp: new Date()
     }
 
-    // Initialize enhanced workflow state with instructor config
-    const previousPersonaTurns: Record<string, number> = {}
-    conversationHistory?.forEach(msg => {
-      if (msg.sender === 'persona' && msg.personaName) {
-        previousPersonaTurns[msg.personaName] = (previousPersonaTurns[msg.personaName] || 0) + 1
-      }
-    })
-
-    const initialState: AgentState = {
-      messages: [...(conversationHistory || []), studentMessage],
-      currentSpeaker: conversationHistory?.slice(-1).find(msg => msg.sender === 'persona')?.personaName || null,
-      conversationContext: '',
-      conversationSummary: '',
-      registeredPersonas: personas, // Full roster never mutated
-      engagedPersonas: [], // Separate engaged list
-      sessionId: sessionId || `session-${Date.now()}`,
-      turnCount: conversationHistory?.length || 0,
-      lastAction: 'workflow_started',
-      previouslyEngagedPersonas: conversationHistory
-        ?.filter(msg => msg.sender === 'persona' && msg.personaName)
-        .slice(-6)
-        .map(msg => msg.personaName!) || [],
-      personaTurnHistory: previousPersonaTurns,
-      collaborativeGoals: {}, // Track team consensus
-      instructorConfig: {
-        requireAllPersonas: false,
-        maxResponseLength: undefined,
-        forcedPersonaOrder: undefined,
-        personalityEmphasis: false,
-        summaryInterval: 20,
-        ...instructorConfig // Override with provided config
-      }
+    // Settings come from the instructor's saved config for the project, never from the client,
+    // and are re-read every turn so edits reach sessions already in progress
+    const turnConfig: InstructorConfig = await resolveInstructorConfig(project?.projectId)
+    console.log('Instructor config:', turnConfig)
+    const llm = await resolveLLMProvider(activeAssignmentId)
+
+    const runTurn = async (onEvent?: (event: WorkflowEvent) => void): Promise<AgentState> => {
+      const workflow = new InterviewWorkflow(llm, onEvent)
+      const threadId = sessionId || `session-${Date.now()}`
+
+      // Resume the session's checkpointed state; only a session's first turn is seeded from the client history
+      const previousState = sessionId ? await workflow.loadState(sessionId) : undefined
+      const turnState = previousState
+        ? continueSessionState(previousState, studentMessage, personas, turnConfig)
+        : newSessionState(threadId, conversationHistory || [], studentMessage, personas, turnConfig)
+
+      // Execute enhanced workflow
+      const finalState = await workflow.execute(turnState)
+
+      console.log('Generated responses:', finalState.responses.length)
+      console.log('Quality metrics:', finalState.responses.map(r =>
+        `${r.personaName}: ${r.confidence} confidence`
+      ))
+      return finalState
     }
 
-    // Execute enhanced workflow
-    const workflow = new InterviewWorkflow()
-    const responses = await workflow.execute(initialState)
-
-    console.log('Generated responses:', responses.length)
-    console.log('Quality metrics:', responses.map(r =>
-      `${r.personaName}: ${r.confidence} confidence`
-    ))
+    // Streaming clients get workflow events as they happen
+    if (stream || req.headers.get('accept')?.includes('text/event-stream')) {
+      return streamWorkflow(runTurn)
+    }
 
-    return NextResponse.json({
-      responses: responses.map(r => ({
-        personaName: r.personaName,
-        content: r.content,
-        agentId: r.agentId,
-        confidence: r.confidence
-      })),
-      metadata: {
-        totalPersonas: personas.length,
-        respondingPersonas: responses.length,
-        conversationLength: initialState.messages.length,
-        sessionId: initialState.sessionId,
-        workflowComplete: true,
-        analysisResult: initialState.analysisResult,
-        qualityScores: responses.map(r => r.confidence),
-        turnHistory: initialState.personaTurnHistory,
-        collaborativeGoals: initialState.collaborativeGoals, // Include consensus tracking
-        instructorConfig: initialState.instructorConfig, // Include config in response
-        debugInfo: {
-          routing: responses.map(r => r.reasoning),
-          previousSpeakers: initialState.previouslyEngagedPersonas,
-          currentSpeaker: initialState.currentSpeaker,
-          collaborationDetected: responses.some(r => r.reasoning?.includes('Collaborative')),
-          hasCollaborationSummary: responses.some(r => r.agentId === 'team-summary'),
-          memoryManagement: {
-            summaryInterval: initialState.instructorConfig.summaryInterval,
-            shouldSummarize: initialState.turnCount > 0 &&
-              initialState.turnCount % (initialState.instructorConfig.summaryInterval || 20) === 0
-          }
-        }
-      }
-    })
+    return NextResponse.json(buildInterviewResponse(await runTurn()))
 
   } catch (error) {
     console.error('Enhanced Interview API error:', error)
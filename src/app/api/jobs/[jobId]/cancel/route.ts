@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { cancelJob, FINISHED_JOB_STATUSES } from '@/lib/jobs'
+
+interface RouteContext {
+  params: Promise<{ jobId: string }>
+}
+
+// POST: Stop a queued or running job
+export async function POST(_req: Request, { params }: RouteContext) {
+  try {
+    const { jobId } = await params
+    const job = await cancelJob(jobId)
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+    if (FINISHED_JOB_STATUSES.includes(job.status) && !job.cancelRequested) {
+      return NextResponse.json({ error: `Job already ${job.status}`, job }, { status: 409 })
+    }
+
+    return NextResponse.json({ job })
+  } catch (error) {
+    console.error('Error cancelling job:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel job' },
+      { status: 500 }
+    )
+  }
+}
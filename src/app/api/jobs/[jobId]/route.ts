@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { getJob } from '@/lib/jobs'
+
+interface RouteContext {
+  params: Promise<{ jobId: string }>
+}
+
+// GET: A job's status, and its result once it has succeeded
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { jobId } = await params
+    const job = await getJob(jobId)
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ job })
+  } catch (error) {
+    console.error('Error retrieving job:', error)
+    return NextResponse.json(
+      { error: 'Failed to retrieve job' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { Job, JobType, listJobs } from '@/lib/jobs'
+
+// GET: Background jobs, newest first and without their results, optionally only ?type= or ?status=
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const jobs = await listJobs({
+      type: (searchParams.get('type') || undefined) as JobType | undefined,
+      status: (searchParams.get('status') || undefined) as Job['status'] | undefined
+    })
+
+    return NextResponse.json({ jobs })
+  } catch (error) {
+    console.error('Error retrieving jobs:', error)
+    return NextResponse.json(
+      { error: 'Failed to retrieve jobs' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { findAssignmentByCode } from '@/lib/assignments'
+import { resolveInstructorConfig } from '@/lib/instructor-config'
+import { getProject, toStudentProject } from '@/lib/projects'
+
+interface RouteContext {
+  params: Promise<{ code: string }>
+}
+
+// GET: Everything a student's interview page needs to join an assignment.
+// The project's requirement list and the personas' hidden facts are left out; they are what students are meant to elicit.
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { code } = await params
+    const assignment = await findAssignmentByCode(code)
+
+    if (!assignment) {
+      return NextResponse.json({ error: 'No assignment with that join code' }, { status: 404 })
+    }
+
+    const project = await getProject(assignment.projectId)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    if (assignment.status === 'closed' || project.status === 'archived') {
+      return NextResponse.json({ error: 'This assignment is closed' }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      assignment: {
+        assignmentId: assignment.assignmentId,
+        title: assignment.title,
+        instructions: assignment.instructions,
+        joinCode: assignment.joinCode
+      },
+      project: toStudentProject(project),
+      config: await resolveInstructorConfig(project.projectId)
+    })
+  } catch (error) {
+    console.error('Error joining assignment:', error)
+    return NextResponse.json(
+      { error: 'Failed to join assignment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { getToolKey } from '@/lib/lti'
+
+// GET: The tool's public key, which platforms use to check its grade passback requests
+export async function GET() {
+  try {
+    const key = await getToolKey()
+    return NextResponse.json({ keys: [key.publicJwk] })
+  } catch (error) {
+    console.error('Error loading LTI key:', error)
+    return NextResponse.json(
+      { error: 'Failed to load LTI key' },
+      { status: 500 }
+    )
+  }
+}
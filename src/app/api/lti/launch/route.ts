@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { setSessionCookie } from '@/lib/auth'
+import { handleLaunch, LtiError, toolBaseUrl, validateLaunch } from '@/lib/lti'
+
+// POST: The platform's id_token, posted by the browser after login. Students are signed in and sent
+// to the interview; instructors to the project's dashboard.
+export async function POST(req: Request) {
+  try {
+    const form = new URLSearchParams(await req.text())
+    const idToken = form.get('id_token')
+    const state = form.get('state')
+    if (!idToken || !state) {
+      return NextResponse.json({ error: 'id_token and state are required' }, { status: 400 })
+    }
+
+    const baseUrl = toolBaseUrl(req)
+    const { claims, registration } = await validateLaunch(baseUrl, idToken, state)
+    const result = await handleLaunch(claims, registration)
+    console.log(`LTI launch from ${registration.issuer}: ${result.role} on assignment ${result.assignmentId}`)
+
+    // 303 turns the form POST into a GET of the page
+    if (result.role === 'instructor') {
+      return NextResponse.redirect(`${baseUrl}/instructor-dashboard?projectId=${encodeURIComponent(result.projectId)}`, 303)
+    }
+    const response = NextResponse.redirect(`${baseUrl}/interview?code=${encodeURIComponent(result.joinCode)}`, 303)
+    setSessionCookie(response, result.studentId)
+    return response
+  } catch (error) {
+    if (error instanceof LtiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('LTI launch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to process LTI launch' },
+      { status: 500 }
+    )
+  }
+}
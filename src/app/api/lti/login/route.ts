@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { LoginParams, LtiError, startLogin, toolBaseUrl } from '@/lib/lti'
+
+// Platforms may start the login with a GET or a form POST; both carry the same parameters
+async function login(req: Request, params: URLSearchParams) {
+  try {
+    const loginParams: LoginParams = {
+      iss: params.get('iss'),
+      login_hint: params.get('login_hint'),
+      target_link_uri: params.get('target_link_uri'),
+      lti_message_hint: params.get('lti_message_hint'),
+      client_id: params.get('client_id'),
+      lti_deployment_id: params.get('lti_deployment_id')
+    }
+    return NextResponse.redirect(await startLogin(toolBaseUrl(req), loginParams), 302)
+  } catch (error) {
+    if (error instanceof LtiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('LTI login error:', error)
+    return NextResponse.json(
+      { error: 'Failed to start LTI login' },
+      { status: 500 }
+    )
+  }
+}
+
+// GET: Third-party initiated login, the first step of an LTI 1.3 launch
+export async function GET(req: Request) {
+  return login(req, new URL(req.url).searchParams)
+}
+
+// POST: The same login, sent as a form
+export async function POST(req: Request) {
+  return login(req, new URLSearchParams(await req.text()))
+}
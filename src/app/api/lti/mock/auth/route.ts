@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { assertMockEnabled, authorizeMockLaunch, LtiError, toolBaseUrl } from '@/lib/lti'
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+// GET: The mock LMS's OIDC authorization endpoint. Like a real LMS, it answers with a page that
+// posts the signed id_token to the tool.
+export async function GET(req: Request) {
+  try {
+    assertMockEnabled()
+    const { redirectUri, idToken, state } = await authorizeMockLaunch(toolBaseUrl(req), new URL(req.url).searchParams)
+
+    const html = `<!DOCTYPE html>
+<html><body onload="document.forms[0].submit()">
+<form method="POST" action="${escapeHtml(redirectUri)}">
+<input type="hidden" name="id_token" value="${escapeHtml(idToken)}">
+<input type="hidden" name="state" value="${escapeHtml(state)}">
+<noscript><button type="submit">Continue</button></noscript>
+</form>
+</body></html>`
+    return new Response(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+  } catch (error) {
+    if (error instanceof LtiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Mock LTI authorization error:', error)
+    return NextResponse.json(
+      { error: 'Failed to authorize mock launch' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { assertMockEnabled, LtiError, mockKeyset } from '@/lib/lti'
+
+// GET: The mock LMS's public key, which the tool checks launches against
+export async function GET() {
+  try {
+    assertMockEnabled()
+    return NextResponse.json(await mockKeyset())
+  } catch (error) {
+    if (error instanceof LtiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error loading mock LTI key:', error)
+    return NextResponse.json(
+      { error: 'Failed to load mock LTI key' },
+      { status: 500 }
+    )
+  }
+}
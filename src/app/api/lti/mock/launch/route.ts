@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { assertMockEnabled, LtiError, MockLaunchOptions, startMockLaunch, toolBaseUrl } from '@/lib/lti'
+
+// GET: Launch the tool from the mock LMS, e.g. ?role=learner&userId=u1&name=Ada&projectId=...
+export async function GET(req: Request) {
+  try {
+    assertMockEnabled()
+    const { searchParams } = new URL(req.url)
+    const option = (name: string) => searchParams.get(name) || undefined
+
+    const options: MockLaunchOptions = {
+      role: searchParams.get('role') === 'instructor' ? 'instructor' : 'learner',
+      userId: option('userId'),
+      name: option('name'),
+      email: option('email'),
+      contextId: option('contextId'),
+      contextTitle: option('contextTitle'),
+      resourceLinkId: option('resourceLinkId'),
+      resourceLinkTitle: option('resourceLinkTitle'),
+      projectId: option('projectId'),
+      joinCode: option('joinCode')
+    }
+    return NextResponse.redirect(await startMockLaunch(toolBaseUrl(req), options), 302)
+  } catch (error) {
+    if (error instanceof LtiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Mock LTI launch error:', error)
+    return NextResponse.json(
+      { error: 'Failed to start mock launch' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { assertMockEnabled, listMockScores, LtiError, recordMockScore } from '@/lib/lti'
+
+interface RouteContext {
+  params: Promise<{ lineItemId: string }>
+}
+
+// GET: The scores the tool has posted to this line item, to check passback by hand
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    assertMockEnabled()
+    const { lineItemId } = await params
+    return NextResponse.json({ scores: await listMockScores(lineItemId) })
+  } catch (error) {
+    if (error instanceof LtiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error listing mock scores:', error)
+    return NextResponse.json(
+      { error: 'Failed to list mock scores' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST: An Assignment and Grade Services score from the tool
+export async function POST(req: Request, { params }: RouteContext) {
+  try {
+    assertMockEnabled()
+    const { lineItemId } = await params
+    const score = await recordMockScore(lineItemId, req.headers.get('authorization'), await req.json())
+    console.log(`Mock LMS received score ${score.scoreGiven}/${score.scoreMaximum} for ${score.userId} on ${lineItemId}`)
+    return NextResponse.json({ score })
+  } catch (error) {
+    if (error instanceof LtiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error recording mock score:', error)
+    return NextResponse.json(
+      { error: 'Failed to record mock score' },
+      { status: 500 }
+    )
+  }
+}
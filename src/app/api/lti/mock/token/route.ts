@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { assertMockEnabled, issueMockToken, LtiError, toolBaseUrl } from '@/lib/lti'
+
+// POST: The mock LMS's OAuth2 token endpoint for the tool's signed client assertion
+export async function POST(req: Request) {
+  try {
+    assertMockEnabled()
+    const form = new URLSearchParams(await req.text())
+    return NextResponse.json(await issueMockToken(toolBaseUrl(req), form))
+  } catch (error) {
+    if (error instanceof LtiError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Mock LTI token error:', error)
+    return NextResponse.json(
+      { error: 'Failed to issue mock token' },
+      { status: 500 }
+    )
+  }
+}
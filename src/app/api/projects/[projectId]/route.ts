@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server'
+import { isInstructor } from '@/lib/auth'
+import { archiveProject, getProject, toStudentProject, updateProject, validateProjectInput } from '@/lib/projects'
+
+interface RouteContext {
+  params: Promise<{ projectId: string }>
+}
+
+// GET: One project with its personas and requirements, for a signed-in instructor.
+// ?view=student answers anyone with what an interview page may show instead (see toStudentProject).
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const { projectId } = await params
+    const studentView = new URL(req.url).searchParams.get('view') === 'student'
+    if (!studentView && !isInstructor(req)) {
+      return NextResponse.json({ error: 'Instructor sign-in required' }, { status: 401 })
+    }
+
+    const project = await getProject(projectId)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    return NextResponse.json({ project: studentView ? toStudentProject(project) : project })
+  } catch (error) {
+    console.error('Error retrieving project:', error)
+    return NextResponse.json(
+      { error: 'Failed to retrieve project' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH: Update personas, requirements or details; { status: 'active' } restores an archived project
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { projectId } = await params
+    const changes = await req.json()
+
+    const existing = await getProject(projectId)
+    if (!existing) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const errors = validateProjectInput(changes, true, existing)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid project', details: errors }, { status: 400 })
+    }
+
+    const project = await updateProject(projectId, changes)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    return NextResponse.json({ project })
+  } catch (error) {
+    console.error('Error updating project:', error)
+    return NextResponse.json(
+      { error: 'Failed to update project' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE: Archive the project; its sessions and reports are kept
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    const { projectId } = await params
+    const project = await archiveProject(projectId)
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, project })
+  } catch (error) {
+    console.error('Error archiving project:', error)
+    return NextResponse.json(
+      { error: 'Failed to archive project' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { isInstructor } from '@/lib/auth'
+import { createProject, listProjects, validateProjectInput } from '@/lib/projects'
+
+// GET: All projects, newest first; archived ones only with ?includeArchived=true. Instructors only,
+// since each project carries its hidden facts and requirement answer key.
+export async function GET(req: Request) {
+  try {
+    if (!isInstructor(req)) {
+      return NextResponse.json({ error: 'Instructor sign-in required' }, { status: 401 })
+    }
+    const { searchParams } = new URL(req.url)
+    const projects = await listProjects(searchParams.get('includeArchived') === 'true')
+
+    return NextResponse.json({ projects })
+  } catch (error) {
+    console.error('Error retrieving projects:', error)
+    return NextResponse.json(
+      { error: 'Failed to retrieve projects' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST: Create a project from generated personas
+export async function POST(req: Request) {
+  try {
+    const input = await req.json()
+
+    const errors = validateProjectInput(input)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid project', details: errors }, { status: 400 })
+    }
+
+    const project = await createProject(input)
+    console.log(`Project ${project.projectId} created: ${project.name} (${project.personas.length} personas)`)
+
+    return NextResponse.json({ project }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating project:', error)
+    return NextResponse.json(
+      { error: 'Failed to create project' },
+      { status: 500 }
+    )
+  }
+}
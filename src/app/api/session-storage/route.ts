@@ -1,51 +1,28 @@
 import { NextResponse } from 'next/server'
-
-interface Message {
-  id: string
-  sender: 'student' | 'persona' | 'system'
-  personaName?: string
-  content: string
-  timestamp: Date
-  metadata?: Record<string, any>
-}
-
-interface SessionData {
-  sessionId: string
-  projectName: string
-  studentName: string
-  startTime: Date
-  endTime?: Date
-  messages: Message[]
-  personasInterviewed: string[]
-  status: 'active' | 'completed' | 'abandoned'
-  requirementsExtracted: boolean
-  transcriptDownloaded: boolean
-  metadata?: {
-    projectRequirements?: string[]
-    [key: string]: any
-  }
-}
-
-// In-memory storage (in production, use a real database)
-const sessionStorage = new Map<string, SessionData>()
+import { getAssignment } from '@/lib/assignments'
+import { getCurrentStudent } from '@/lib/auth'
+import { getCheckpointer } from '@/lib/checkpointer'
+import { getProject } from '@/lib/projects'
+import { deleteReport } from '@/lib/reports'
+import { deleteSession, getSession, listSessions, saveSession } from '@/lib/sessions'
 
 // GET: Retrieve all sessions for a project
 export async function GET(req: Request) {
   try {
     const { searchParams } = new URL(req.url)
+    const projectId = searchParams.get('projectId')
+    const assignmentId = searchParams.get('assignmentId')
     const projectName = searchParams.get('projectName')
 
-    if (!projectName) {
-      // Return all sessions
-      const allSessions = Array.from(sessionStorage.values())
-      return NextResponse.json({ sessions: allSessions })
-    }
-
-    // Filter sessions by project name
-    const projectSessions = Array.from(sessionStorage.values())
-      .filter(session => session.projectName === projectName)
+    // Return all sessions, or only those for the requested project.
+    // projectName only matches sessions from before projects had IDs, since names are not unique.
+    const sessions = await listSessions({
+      projectId: projectId || undefined,
+      assignmentId: assignmentId || undefined,
+      projectName: projectName || undefined
+    })
 
-    return NextResponse.json({ sessions: projectSessions })
+    return NextResponse.json({ sessions })
   } catch (error) {
     console.error('Error retrieving sessions:', error)
     return NextResponse.json(
@@ -58,7 +35,7 @@ export async function GET(req: Request) {
 // POST: Save or update a session
 export async function POST(req: Request) {
   try {
-    const sessionData: SessionData = await req.json()
+    const sessionData = await req.json()
 
     if (!sessionData.sessionId) {
       return NextResponse.json(
@@ -67,26 +44,56 @@ export async function POST(req: Request) {
       )
     }
 
-    // Store the session data with metadata
-    sessionStorage.set(sessionData.sessionId, {
-      ...sessionData,
-      // Ensure dates are Date objects
-      startTime: new Date(sessionData.startTime),
-      endTime: sessionData.endTime ? new Date(sessionData.endTime) : undefined,
-      messages: sessionData.messages.map(msg => ({
-        ...msg,
-        timestamp: new Date(msg.timestamp)
-      })),
-      // Preserve metadata including project requirements
-      metadata: sessionData.metadata || {}
-    })
+    // Identity comes from the sign-in cookie, never from the payload
+    const student = await getCurrentStudent(req)
+    const existing = await getSession(sessionData.sessionId)
+    if (existing?.studentId && existing.studentId !== student?.studentId) {
+      return NextResponse.json(
+        { error: 'Session belongs to another student' },
+        { status: 403 }
+      )
+    }
+    sessionData.studentId = student?.studentId
+    if (student) {
+      sessionData.studentName = student.name
+    }
+
+    // A session stays with the assignment it was joined through, which decides its project
+    const assignmentId = existing?.assignmentId || sessionData.assignmentId
+    if (assignmentId) {
+      const assignment = await getAssignment(assignmentId)
+      if (!assignment) {
+        return NextResponse.json(
+          { error: 'Assignment not found' },
+          { status: 404 }
+        )
+      }
+      sessionData.assignmentId = assignment.assignmentId
+      sessionData.projectId = assignment.projectId
+    }
+
+    // A session stays with the project it started in; the project's own name is the one recorded
+    const projectId = existing?.projectId || sessionData.projectId
+    if (projectId) {
+      const project = await getProject(projectId)
+      if (!project) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        )
+      }
+      sessionData.projectId = project.projectId
+      sessionData.projectName = project.name
+    }
+
+    // Persist the session; older payload shapes are migrated to the current schema
+    await saveSession(sessionData)
 
-    console.log(`Session ${sessionData.sessionId} saved with metadata. Total sessions: ${sessionStorage.size}`)
+    console.log(`Session ${sessionData.sessionId} saved with metadata`)
 
     return NextResponse.json({
       success: true,
-      sessionId: sessionData.sessionId,
-      totalSessions: sessionStorage.size
+      sessionId: sessionData.sessionId
     })
   } catch (error) {
     console.error('Error saving session:', error)
@@ -110,7 +117,10 @@ export async function DELETE(req: Request) {
       )
     }
 
-    const deleted = sessionStorage.delete(sessionId)
+    const deleted = await deleteSession(sessionId)
+    // The interview graph's memory and the coverage report for the session go with it
+    await getCheckpointer().deleteThread(sessionId)
+    await deleteReport(sessionId)
 
     return NextResponse.json({
       success: deleted,
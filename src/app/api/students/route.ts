@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { importRoster, listStudents, toPublicStudent } from '@/lib/students'
+
+// GET: The class roster
+export async function GET() {
+  try {
+    const students = await listStudents()
+    return NextResponse.json({ students: students.map(toPublicStudent) })
+  } catch (error) {
+    console.error('Error retrieving roster:', error)
+    return NextResponse.json(
+      { error: 'Failed to retrieve roster' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST: Import a roster CSV, sent as text/csv or as JSON { csv }
+export async function POST(req: Request) {
+  try {
+    const csv = req.headers.get('content-type')?.includes('application/json')
+      ? (await req.json()).csv
+      : await req.text()
+
+    if (!csv || typeof csv !== 'string') {
+      return NextResponse.json(
+        { error: 'Roster CSV required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await importRoster(csv)
+    console.log(`Roster import: ${result.created.length} created, ${result.updated.length} updated, ${result.errors.length} errors`)
+
+    // Partial imports succeed; the response lists the rows that were rejected
+    const imported = result.created.length + result.updated.length
+    return NextResponse.json(result, { status: imported === 0 && result.errors.length > 0 ? 400 : 200 })
+  } catch (error) {
+    console.error('Error importing roster:', error)
+    return NextResponse.json(
+      { error: 'Failed to import roster' },
+      { status: 500 }
+    )
+  }
+}
@@ -10,6 +10,12 @@ interface NavigationProps {
   className?: string
 }
 
+// Students open the interview from this link, so it names the project rather than relying on this tab's storage
+export function interviewUrl() {
+  const projectId = sessionStorage.getItem('projectId')
+  return projectId ? `/interview?projectId=${encodeURIComponent(projectId)}` : '/interview'
+}
+
 export function Navigation({
   showHome = true,
   showInstructorDashboard = false,
@@ -50,7 +56,7 @@ export function Navigation({
 
       {showInterview && (
         <button
-          onClick={() => window.open('/interview', '_blank')}
+          onClick={() => window.open(interviewUrl(), '_blank')}
           className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 flex items-center gap-2"
         >
           💬 Start Interview
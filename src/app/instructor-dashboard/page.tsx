@@ -2,6 +2,8 @@
 import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Navigation } from '../components/Navigation'
+import { runInBackground } from '@/lib/jobs/client'
+import { willingnessOf } from '@/lib/rapport'
 
 interface Persona {
  name: string
@@ -22,6 +24,7 @@ interface CoverageReport {
 
 interface StudentSession {
  sessionId: string
+ studentId?: string
  studentName: string
  startTime: Date
  endTime?: Date
@@ -34,6 +37,13 @@ interface StudentSession {
  transcriptDownloaded: boolean
  requirementCoverageRate?: number
  coverageReport?: CoverageReport
+ personaMoods: Record<string, PersonaMood> // As of each persona's last reply
+}
+
+interface PersonaMood {
+ rapport: number
+ patience: number
+ trust: number
 }
 
 interface ClassOverview {
@@ -49,11 +59,44 @@ interface ClassOverview {
    engagementRate: number
    avgResponseConfidence: number
    collaborativeDiscussions: number
+   neglectedSessions: number
+   requirementsMissed: number
+   averageRapport?: number
+   withdrawnSessions: number
  }[]
  overallProgress: number
 }
 
+interface InstructorConfig {
+ requireAllPersonas?: boolean
+ maxResponseLength?: number
+ forcedPersonaOrder?: string[]
+ personalityEmphasis?: boolean
+ summaryInterval?: number
+}
+
+interface RosterImportResult {
+ created: { studentId: string; name: string }[]
+ updated: { studentId: string; name: string }[]
+ temporaryPasswords: { studentId: string; name: string; password: string }[]
+ errors: string[]
+}
+
+interface CoverageBatch {
+ batchId: string
+ status: 'running' | 'completed' | 'interrupted'
+ items: {
+   sessionId: string
+   studentName: string
+   status: 'pending' | 'analyzing' | 'analyzed' | 'skipped' | 'failed'
+   coverage?: number
+   error?: string
+ }[]
+ progress: { total: number; analyzed: number; skipped: number; failed: number; remaining: number }
+}
+
 interface DashboardData {
+ projectId: string
  projectName: string
  domain: string
  personas: Persona[]
@@ -67,16 +110,89 @@ interface DashboardData {
  }[]
 }
 
+interface Section {
+ sectionId: string
+ name: string
+ studentIds: string[]
+}
+
+interface Course {
+ courseId: string
+ name: string
+ term?: string
+ llmProvider?: string
+ sections: Section[]
+}
+
+interface AssignmentProgress {
+ assignmentId: string
+ title: string
+ status: 'active' | 'completed' | 'abandoned' | 'not-started'
+ sessionCount: number
+ messageCount: number
+ requirementCoverageRate?: number
+}
+
+interface CourseDashboardData {
+ courseId: string
+ name: string
+ term?: string
+ classOverview: ClassOverview
+ sections: {
+   sectionId: string
+   name: string
+   studentIds: string[]
+   classOverview: ClassOverview
+   assignments: { assignmentId: string; title: string; projectName: string; classOverview: ClassOverview }[]
+ }[]
+ studentProgress: {
+   studentId?: string
+   studentName: string
+   sectionId: string
+   enrolled: boolean
+   assignments: AssignmentProgress[]
+   completedAssignments: number
+   avgCoverageRate?: number
+ }[]
+}
+
+const PROGRESS_ICONS: Record<AssignmentProgress['status'], string> = {
+ 'not-started': '⚪',
+ active: '🟡',
+ abandoned: '🔴',
+ completed: '🟢'
+}
+
+// Instructors launched from their LMS arrive with ?projectId=, which then sticks for the tab
+function currentProjectId(): string | null {
+ const fromUrl = new URLSearchParams(window.location.search).get('projectId')
+ if (fromUrl) sessionStorage.setItem('projectId', fromUrl)
+ return fromUrl || sessionStorage.getItem('projectId')
+}
+
 export default function InstructorDashboard() {
  const [dashboardData, setDashboardData] = useState<DashboardData | null>(null)
  const [isLoading, setIsLoading] = useState(true)
- const [activeTab, setActiveTab] = useState<'overview' | 'students' | 'personas' | 'activity'>('overview')
+ const [activeTab, setActiveTab] = useState<'overview' | 'students' | 'personas' | 'activity' | 'settings' | 'courses'>('overview')
  const [sortBy, setSortBy] = useState<'name' | 'status' | 'duration' | 'messages'>('name')
  const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'completed' | 'abandoned'>('all')
  const [selectedReport, setSelectedReport] = useState<CoverageReport | null>(null)
  const [showReportModal, setShowReportModal] = useState(false)
  const [analyzingSession, setAnalyzingSession] = useState<string | null>(null)
  const [sessionCoverages, setSessionCoverages] = useState<Record<string, number>>({})
+ const [showRosterModal, setShowRosterModal] = useState(false)
+ const [rosterCsv, setRosterCsv] = useState('')
+ const [rosterResult, setRosterResult] = useState<RosterImportResult | null>(null)
+ const [isImportingRoster, setIsImportingRoster] = useState(false)
+ const [interviewConfig, setInterviewConfig] = useState<InstructorConfig>({})
+ const [configStatus, setConfigStatus] = useState<{ saved: boolean; errors: string[]; updatedAt?: Date } | null>(null)
+ const [isSavingConfig, setIsSavingConfig] = useState(false)
+ const [courses, setCourses] = useState<Course[]>([])
+ const [selectedCourseId, setSelectedCourseId] = useState('')
+ const [courseData, setCourseData] = useState<CourseDashboardData | null>(null)
+ const [newCourse, setNewCourse] = useState({ name: '', term: '' })
+ const [newSection, setNewSection] = useState({ name: '', studentIds: '' })
+ const [coverageBatch, setCoverageBatch] = useState<CoverageBatch | null>(null)
  const router = useRouter()
 
  useEffect(() => {
@@ -86,27 +202,310 @@ export default function InstructorDashboard() {
    return () => clearInterval(interval)
  }, [])
 
+ // Loaded once rather than polled so a refresh can't overwrite unsaved edits
+ useEffect(() => {
+   const projectId = currentProjectId()
+   if (!projectId) return
+
+   fetch(`/api/instructor-config?projectId=${encodeURIComponent(projectId)}`)
+     .then(async response => {
+       if (!response.ok) throw new Error('Failed to load interview settings')
+       const data = await response.json()
+       setInterviewConfig(data.config)
+       setConfigStatus(data.isDefault ? null : { saved: true, errors: [], updatedAt: data.updatedAt })
+     })
+     .catch(error => console.error('Error loading interview settings:', error))
+ }, [])
+
+ // The latest batch is shown even when finished, so failed sessions can be retried later
+ useEffect(() => {
+   const projectId = currentProjectId()
+   if (!projectId) return
+
+   fetch(`/api/coverage-batches?projectId=${encodeURIComponent(projectId)}`)
+     .then(async response => {
+       if (!response.ok) throw new Error('Failed to load coverage batches')
+       setCoverageBatch((await response.json()).batches[0] || null)
+     })
+     .catch(error => console.error('Error loading coverage batches:', error))
+ }, [])
+
+ // Follow a running batch, filling in each session's coverage as it is analyzed
+ const runningBatchId = coverageBatch?.status === 'running' ? coverageBatch.batchId : null
+ useEffect(() => {
+   if (!runningBatchId) return
+
+   const interval = setInterval(async () => {
+     try {
+       const response = await fetch(`/api/coverage-batches/${runningBatchId}`)
+       if (!response.ok) throw new Error('Failed to load coverage batch')
+       const batch: CoverageBatch = (await response.json()).batch
+       setCoverageBatch(batch)
+       setSessionCoverages(prev => ({
+         ...prev,
+         ...Object.fromEntries(batch.items
+           .filter(item => item.status === 'analyzed' && item.coverage !== undefined)
+           .map(item => [item.sessionId, item.coverage as number]))
+       }))
+     } catch (error) {
+       console.error('Error following coverage batch:', error)
+     }
+   }, 2000)
+   return () => clearInterval(interval)
+ }, [runningBatchId])
+
+ // Courses span projects, so they are loaded on demand rather than with the project dashboard
+ useEffect(() => {
+   if (activeTab !== 'courses') return
+
+   fetch('/api/courses')
+     .then(async response => {
+       if (!response.ok) throw new Error('Failed to load courses')
+       setCourses((await response.json()).courses)
+     })
+     .catch(error => console.error('Error loading courses:', error))
+ }, [activeTab])
+
+ const loadCourses = async () => {
+   const response = await fetch('/api/courses')
+   if (response.ok) setCourses((await response.json()).courses)
+ }
+
+ const loadCourseDashboard = async (courseId: string) => {
+   setSelectedCourseId(courseId)
+   setCourseData(null)
+   if (!courseId) return
+
+   try {
+     const response = await fetch('/api/instructor-dashboard', {
+       method: 'POST',
+       headers: { 'Content-Type': 'application/json' },
+       body: JSON.stringify({ courseId })
+     })
+     if (!response.ok) throw new Error('Failed to load course dashboard')
+     setCourseData(await response.json())
+   } catch (error) {
+     console.error('Error loading course dashboard:', error)
+   }
+ }
+
+ const createCourse = async () => {
+   if (!newCourse.name.trim()) return
+
+   try {
+     const response = await fetch('/api/courses', {
+       method: 'POST',
+       headers: { 'Content-Type': 'application/json' },
+       body: JSON.stringify(newCourse)
+     })
+     if (!response.ok) throw new Error('Failed to create course')
+     const { course } = await response.json()
+     setNewCourse({ name: '', term: '' })
+     await loadCourses()
+     await loadCourseDashboard(course.courseId)
+   } catch (error) {
+     console.error('Error creating course:', error)
+     alert('Failed to create course. Please try again.')
+   }
+ }
+
+ // An empty choice clears the course's model, so its sessions use the deployment default
+ const updateCourseModel = async (llmProvider: string) => {
+   if (!selectedCourseId) return
+
+   try {
+     const response = await fetch(`/api/courses/${selectedCourseId}`, {
+       method: 'PATCH',
+       headers: { 'Content-Type': 'application/json' },
+       body: JSON.stringify({ llmProvider: llmProvider || null })
+     })
+     if (!response.ok) throw new Error('Failed to update course')
+     await loadCourses()
+   } catch (error) {
+     console.error('Error updating course:', error)
+     alert('Failed to update course. Please try again.')
+   }
+ }
+
+ const parseStudentIds = (text: string) => text.split(/[\s,]+/).map(id => id.trim()).filter(Boolean)
+
+ const createSection = async () => {
+   if (!selectedCourseId || !newSection.name.trim()) return
+
+   try {
+     const response = await fetch(`/api/courses/${selectedCourseId}/sections`, {
+       method: 'POST',
+       headers: { 'Content-Type': 'application/json' },
+       body: JSON.stringify({ name: newSection.name, studentIds: parseStudentIds(newSection.studentIds) })
+     })
+     if (!response.ok) throw new Error('Failed to create section')
+     setNewSection({ name: '', studentIds: '' })
+     await loadCourses()
+     await loadCourseDashboard(selectedCourseId)
+   } catch (error) {
+     console.error('Error creating section:', error)
+     alert('Failed to create section. Please try again.')
+   }
+ }
+
+ const editEnrollment = async (section: Section) => {
+   const input = prompt(`Student IDs enrolled in ${section.name} (comma or space separated):`, section.studentIds.join(', '))
+   if (input === null) return
+
+   try {
+     const response = await fetch(`/api/courses/${selectedCourseId}/sections/${section.sectionId}`, {
+       method: 'PATCH',
+       headers: { 'Content-Type': 'application/json' },
+       body: JSON.stringify({ studentIds: parseStudentIds(input) })
+     })
+     if (!response.ok) throw new Error('Failed to update enrollment')
+     await loadCourses()
+     await loadCourseDashboard(selectedCourseId)
+   } catch (error) {
+     console.error('Error updating enrollment:', error)
+     alert('Failed to update enrollment. Please try again.')
+   }
+ }
+
+ const updateInterviewConfig = (changes: Partial<InstructorConfig>) => {
+   setInterviewConfig(prev => ({ ...prev, ...changes }))
+   setConfigStatus(null)
+ }
+
+ const toggleForcedPersona = (personaName: string) => {
+   const order = interviewConfig.forcedPersonaOrder || []
+   updateInterviewConfig({
+     forcedPersonaOrder: order.includes(personaName)
+       ? order.filter(name => name !== personaName)
+       : [...order, personaName]
+   })
+ }
+
+ const moveForcedPersona = (index: number, direction: -1 | 1) => {
+   const order = [...(interviewConfig.forcedPersonaOrder || [])]
+   const target = index + direction
+   if (target < 0 || target >= order.length) return
+   ;[order[index], order[target]] = [order[target], order[index]]
+   updateInterviewConfig({ forcedPersonaOrder: order })
+ }
+
+ const saveInterviewConfig = async () => {
+   const projectId = currentProjectId()
+   if (!projectId) return
+   setIsSavingConfig(true)
+
+   try {
+     const response = await fetch('/api/instructor-config', {
+       method: 'POST',
+       headers: { 'Content-Type': 'application/json' },
+       body: JSON.stringify({ projectId, config: interviewConfig })
+     })
+     const data = await response.json()
+     if (!response.ok) {
+       setConfigStatus({ saved: false, errors: data.details || [data.error] })
+       return
+     }
+     setInterviewConfig(data.config)
+     setConfigStatus({ saved: true, errors: [], updatedAt: data.updatedAt })
+   } catch (error) {
+     console.error('Error saving interview settings:', error)
+     setConfigStatus({ saved: false, errors: ['Failed to save settings. Please try again.'] })
+   } finally {
+     setIsSavingConfig(false)
+   }
+ }
+
+ const resetInterviewConfig = async () => {
+   const projectId = currentProjectId()
+   if (!projectId) return
+
+   try {
+     const response = await fetch(`/api/instructor-config?projectId=${encodeURIComponent(projectId)}`, { method: 'DELETE' })
+     if (!response.ok) throw new Error('Failed to reset interview settings')
+     const data = await response.json()
+     setInterviewConfig(data.config)
+     setConfigStatus(null)
+   } catch (error) {
+     console.error('Error resetting interview settings:', error)
+     alert('Failed to reset settings. Please try again.')
+   }
+ }
+
+ const exportGradebook = async (format: 'csv' | 'json') => {
+   const projectId = currentProjectId()
+   if (!projectId) return
+   const url = `/api/gradebook?projectId=${encodeURIComponent(projectId)}&format=${format}`
+
+   try {
+     // Grades only come from analyses already run, so warn before exporting blanks
+     const response = await fetch(`/api/gradebook?projectId=${encodeURIComponent(projectId)}`)
+     if (!response.ok) throw new Error('Failed to export gradebook')
+     const data = await response.json()
+     if (data.ungradedSessions > 0 && !confirm(
+       `${data.ungradedSessions} session(s) have not been analyzed yet and will export without a grade. ` +
+       'Use "Analyze All" first for a complete gradebook. Export anyway?'
+     )) return
+
+     if (format === 'csv') {
+       window.location.href = url
+     } else {
+       window.open(url, '_blank')
+     }
+   } catch (error) {
+     console.error('Error exporting gradebook:', error)
+     alert('Failed to export gradebook. Please try again.')
+   }
+ }
+
+ const analyzeAllSessions = async (force: boolean) => {
+   const projectId = currentProjectId()
+   if (!projectId) return
+   if (force && !confirm('Reanalyze every completed session, including those already analyzed? This regrades them with the current rubric.')) return
+
+   try {
+     const response = await fetch('/api/coverage-batches', {
+       method: 'POST',
+       headers: { 'Content-Type': 'application/json' },
+       body: JSON.stringify({ projectId, force })
+     })
+     const data = await response.json()
+     // 409 carries the batch already running, which is worth following too
+     if (!response.ok && !data.batch) throw new Error(data.error || 'Failed to start analysis')
+     setCoverageBatch(data.batch)
+   } catch (error) {
+     console.error('Error starting coverage batch:', error)
+     alert('Failed to start the class analysis. Please try again.')
+   }
+ }
+
+ const resumeCoverageBatch = async () => {
+   if (!coverageBatch) return
+
+   try {
+     const response = await fetch(`/api/coverage-batches/${coverageBatch.batchId}/resume`, { method: 'POST' })
+     const data = await response.json()
+     if (!response.ok) throw new Error(data.error || 'Failed to resume analysis')
+     setCoverageBatch(data.batch)
+   } catch (error) {
+     console.error('Error resuming coverage batch:', error)
+     alert(error instanceof Error ? error.message : 'Failed to resume the class analysis.')
+   }
+ }
+
  const loadDashboardData = async () => {
-   const projectData = sessionStorage.getItem('originalRequest')
-   const personasData = sessionStorage.getItem('personas')
+   const projectId = currentProjectId()
 
-   if (!projectData || !personasData) {
+   if (!projectId) {
      router.push('/')
      return
    }
 
    try {
-     const project = JSON.parse(projectData)
-     const { personas } = JSON.parse(personasData)
-
+     // The server looks up the project's personas and only counts its own sessions
      const response = await fetch('/api/instructor-dashboard', {
        method: 'POST',
        headers: { 'Content-Type': 'application/json' },
-       body: JSON.stringify({
-         projectName: project.projectName,
-         domain: project.domain,
-         personas
-       })
+       body: JSON.stringify({ projectId })
      })
 
      if (!response.ok) throw new Error('Failed to load dashboard')
@@ -124,13 +523,10 @@ export default function InstructorDashboard() {
    setAnalyzingSession(session.sessionId)
 
    try {
-     const response = await fetch(`/api/instructor-dashboard?sessionId=${session.sessionId}&action=analyze-coverage`)
-
-     if (!response.ok) {
-       throw new Error('Failed to analyze coverage')
-     }
-
-     const data = await response.json()
+     const data = await runInBackground<{ success: boolean; coverage: number; report?: CoverageReport }>(
+       `/api/instructor-dashboard?sessionId=${session.sessionId}&action=analyze-coverage`,
+       {}
+     )
 
      if (data.success) {
        // Update local state with coverage
@@ -174,6 +570,33 @@ export default function InstructorDashboard() {
    await analyzeCoverage(session)
  }
 
+ const importRoster = async () => {
+   if (!rosterCsv.trim()) return
+   setIsImportingRoster(true)
+
+   try {
+     const response = await fetch('/api/students', {
+       method: 'POST',
+       headers: { 'Content-Type': 'text/csv' },
+       body: rosterCsv
+     })
+     const data = await response.json()
+     if (!response.ok && !data.errors) throw new Error(data.error || 'Failed to import roster')
+     setRosterResult(data)
+   } catch (error) {
+     console.error('Error importing roster:', error)
+     alert('Failed to import roster. Please try again.')
+   } finally {
+     setIsImportingRoster(false)
+   }
+ }
+
+ const closeRosterModal = () => {
+   setShowRosterModal(false)
+   setRosterCsv('')
+   setRosterResult(null)
+ }
+
  const getFilteredSessions = () => {
    if (!dashboardData) return []
 
@@ -255,7 +678,7 @@ export default function InstructorDashboard() {
      <div className="bg-white border-b border-gray-200">
        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
          <nav className="flex space-x-8">
-           {(['overview', 'students', 'personas', 'activity'] as const).map((tab) => (
+           {(['overview', 'students', 'personas', 'activity', 'settings', 'courses'] as const).map((tab) => (
              <button
                key={tab}
                onClick={() => setActiveTab(tab)}
@@ -363,6 +786,39 @@ export default function InstructorDashboard() {
              <div className="flex justify-between items-center">
                <h3 className="text-lg font-medium text-gray-900">Student Sessions</h3>
                <div className="flex gap-4">
+                 <button
+                   onClick={() => analyzeAllSessions(false)}
+                   disabled={coverageBatch?.status === 'running'}
+                   title="Analyze every completed session that has no current report"
+                   className="px-3 py-2 bg-purple-600 text-white rounded text-sm hover:bg-purple-700 disabled:opacity-50"
+                 >
+                   {coverageBatch?.status === 'running' ? 'Analyzing...' : 'Analyze All'}
+                 </button>
+                 <button
+                   onClick={() => analyzeAllSessions(true)}
+                   disabled={coverageBatch?.status === 'running'}
+                   className="px-3 py-2 border border-gray-300 rounded text-sm hover:bg-gray-50 disabled:opacity-50"
+                 >
+                   Reanalyze All
+                 </button>
+                 <button
+                   onClick={() => setShowRosterModal(true)}
+                   className="px-3 py-2 bg-indigo-600 text-white rounded text-sm hover:bg-indigo-700"
+                 >
+                   Import Roster
+                 </button>
+                 <button
+                   onClick={() => exportGradebook('csv')}
+                   className="px-3 py-2 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+                 >
+                   Export Gradebook (CSV)
+                 </button>
+                 <button
+                   onClick={() => exportGradebook('json')}
+                   className="px-3 py-2 border border-gray-300 rounded text-sm hover:bg-gray-50"
+                 >
+                   JSON
+                 </button>
                  <select
                    value={filterStatus}
                    onChange={(e) => setFilterStatus(e.target.value as any)}
@@ -385,6 +841,48 @@ export default function InstructorDashboard() {
                  </select>
                </div>
              </div>
+
+             {coverageBatch && (
+               <div className="mt-4 p-4 bg-gray-50 rounded">
+                 <div className="flex justify-between items-center text-sm">
+                   <span className="font-medium text-gray-900">
+                     {coverageBatch.status === 'running' ? 'Analyzing class' :
+                      coverageBatch.status === 'interrupted' ? 'Class analysis interrupted' :
+                      'Class analysis finished'}
+                     : {coverageBatch.progress.total - coverageBatch.progress.remaining} of {coverageBatch.progress.total} sessions
+                   </span>
+                   <span className="text-gray-600">
+                     {coverageBatch.progress.analyzed} analyzed, {coverageBatch.progress.skipped} already up to date
+                     {coverageBatch.progress.failed > 0 && (
+                       <span className="text-red-600">, {coverageBatch.progress.failed} failed</span>
+                     )}
+                   </span>
+                 </div>
+                 <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
+                   <div
+                     className="bg-purple-600 h-2 rounded-full"
+                     style={{ width: `${coverageBatch.progress.total > 0
+                       ? (coverageBatch.progress.total - coverageBatch.progress.remaining) / coverageBatch.progress.total * 100
+                       : 100}%` }}
+                   />
+                 </div>
+                 {coverageBatch.status !== 'running' && (coverageBatch.progress.failed > 0 || coverageBatch.progress.remaining > 0) && (
+                   <div className="mt-3">
+                     <ul className="text-xs text-red-600 space-y-1">
+                       {coverageBatch.items.filter(item => item.status === 'failed').map(item => (
+                         <li key={item.sessionId}>{item.studentName}: {item.error}</li>
+                       ))}
+                     </ul>
+                     <button
+                       onClick={resumeCoverageBatch}
+                       className="mt-2 px-3 py-1 bg-purple-600 text-white rounded text-xs hover:bg-purple-700"
+                     >
+                       {coverageBatch.status === 'interrupted' ? 'Resume' : 'Retry Failed'}
+                     </button>
+                   </div>
+                 )}
+               </div>
+             )}
            </div>
 
            <div className="overflow-x-auto">
@@ -406,6 +904,11 @@ export default function InstructorDashboard() {
                      <td className="px-6 py-4 whitespace-nowrap">
                        <div>
                          <div className="text-sm font-medium text-gray-900">{session.studentName}</div>
+                         {session.studentId ? (
+                           <div className="text-xs text-gray-500">ID {session.studentId}</div>
+                         ) : (
+                           <div className="text-xs text-amber-600">Not signed in</div>
+                         )}
                          <div className="text-xs text-gray-500">Last active {formatTimeAgo(session.lastActivity)}</div>
                        </div>
                      </td>
@@ -476,15 +979,18 @@ export default function InstructorDashboard() {
                      </td>
                      <td className="px-6 py-4 text-sm text-gray-900">
                        <div className="flex -space-x-2">
-                         {session.personasInterviewed.slice(0, 3).map((persona, i) => (
+                         {session.personasInterviewed.slice(0, 3).map((persona, i) => {
+                           const mood = session.personaMoods?.[persona]
+                           return (
                            <div
                              key={i}
-                             className="w-8 h-8 rounded-full bg-gradient-to-tr from-indigo-500 to-purple-500 flex items-center justify-center text-white text-xs font-bold border-2 border-white"
-                             title={persona}
+                             className={`w-8 h-8 rounded-full bg-gradient-to-tr from-indigo-500 to-purple-500 flex items-center justify-center text-white text-xs font-bold border-2 ${mood && willingnessOf(mood) === 'withdrawn' ? 'border-red-500' : 'border-white'}`}
+                             title={mood ? `${persona}: rapport ${mood.rapport}, patience ${mood.patience}, trust ${mood.trust}` : persona}
                            >
                              {persona.split(' ').map(n => n[0]).join('')}
                            </div>
-                         ))}
+                           )
+                         })}
                          {session.personasInterviewed.length > 3 && (
                            <div className="w-8 h-8 rounded-full bg-gray-300 flex items-center justify-center text-gray-600 text-xs font-bold border-2 border-white">
                              +{session.personasInterviewed.length - 3}
@@ -559,6 +1065,28 @@ export default function InstructorDashboard() {
                        </p>
                      </div>
                    )}
+
+                   {engagement.averageRapport !== undefined && (
+                     <div className="pt-2 border-t border-gray-200">
+                       <p className="text-sm text-gray-600">
+                         Average rapport by the end: {Math.round(engagement.averageRapport)}/100
+                       </p>
+                       {engagement.withdrawnSessions > 0 && (
+                         <p className="text-sm text-red-700">
+                           😠 Stopped sharing with {engagement.withdrawnSessions} student{engagement.withdrawnSessions === 1 ? '' : 's'} who put them off
+                         </p>
+                       )}
+                     </div>
+                   )}
+
+                   {engagement.neglectedSessions > 0 && (
+                     <div className="pt-2 border-t border-gray-200">
+                       <p className="text-sm text-amber-700">
+                         ⚠️ Never asked in {engagement.neglectedSessions} analyzed session{engagement.neglectedSessions === 1 ? '' : 's'},
+                         {' '}costing {engagement.requirementsMissed} requirement{engagement.requirementsMissed === 1 ? '' : 's'} they owned
+                       </p>
+                     </div>
+                   )}
                  </div>
                </div>
              )
@@ -594,6 +1122,336 @@ export default function InstructorDashboard() {
            </div>
          </div>
        )}
+
+       {/* Settings Tab */}
+       {activeTab === 'settings' && (
+         <div className="bg-white rounded-lg shadow">
+           <div className="p-6 border-b border-gray-200">
+             <h3 className="text-lg font-medium text-gray-900">Interview Settings</h3>
+             <p className="text-sm text-gray-600 mt-1">
+               Applied to every student&apos;s interview for {dashboardData.projectName}, starting with their next question.
+             </p>
+           </div>
+
+           <div className="p-6 space-y-6">
+             <label className="flex items-start gap-3">
+               <input
+                 type="checkbox"
+                 checked={!!interviewConfig.requireAllPersonas}
+                 onChange={(e) => updateInterviewConfig({ requireAllPersonas: e.target.checked })}
+                 className="mt-1"
+               />
+               <span>
+                 <span className="block text-sm font-medium text-gray-900">Require all personas</span>
+                 <span className="block text-sm text-gray-600">Every persona the student selected answers every question.</span>
+               </span>
+             </label>
+
+             <label className="flex items-start gap-3">
+               <input
+                 type="checkbox"
+                 checked={!!interviewConfig.personalityEmphasis}
+                 onChange={(e) => updateInterviewConfig({ personalityEmphasis: e.target.checked })}
+                 className="mt-1"
+               />
+               <span>
+                 <span className="block text-sm font-medium text-gray-900">Emphasize personalities</span>
+                 <span className="block text-sm text-gray-600">Personas lean harder into their personality traits.</span>
+               </span>
+             </label>
+
+             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+               <div>
+                 <label className="block text-sm font-medium text-gray-900 mb-1">Maximum reply length (characters)</label>
+                 <input
+                   type="number"
+                   min={50}
+                   value={interviewConfig.maxResponseLength ?? ''}
+                   placeholder="No limit"
+                   onChange={(e) => updateInterviewConfig({ maxResponseLength: e.target.value ? Number(e.target.value) : undefined })}
+                   className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+                 />
+               </div>
+               <div>
+                 <label className="block text-sm font-medium text-gray-900 mb-1">Summarize conversation every N turns</label>
+                 <input
+                   type="number"
+                   min={1}
+                   value={interviewConfig.summaryInterval ?? ''}
+                   placeholder="20"
+                   onChange={(e) => updateInterviewConfig({ summaryInterval: e.target.value ? Number(e.target.value) : undefined })}
+                   className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+                 />
+               </div>
+             </div>
+
+             <div>
+               <h4 className="text-sm font-medium text-gray-900 mb-1">Forced speaking order</h4>
+               <p className="text-sm text-gray-600 mb-3">Checked personas always answer, in this order. Leave all unchecked to let the question decide.</p>
+               <div className="space-y-2">
+                 {(interviewConfig.forcedPersonaOrder || []).map((name, index, order) => (
+                   <div key={name} className="flex items-center gap-3 p-2 border border-indigo-200 bg-indigo-50 rounded">
+                     <input type="checkbox" checked onChange={() => toggleForcedPersona(name)} />
+                     <span className="text-sm text-gray-900 flex-1">{index + 1}. {name}</span>
+                     <button
+                       onClick={() => moveForcedPersona(index, -1)}
+                       disabled={index === 0}
+                       className="px-2 text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                     >
+                       ↑
+                     </button>
+                     <button
+                       onClick={() => moveForcedPersona(index, 1)}
+                       disabled={index === order.length - 1}
+                       className="px-2 text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                     >
+                       ↓
+                     </button>
+                   </div>
+                 ))}
+                 {dashboardData.personas
+                   .filter(persona => !interviewConfig.forcedPersonaOrder?.includes(persona.name))
+                   .map(persona => (
+                     <div key={persona.name} className="flex items-center gap-3 p-2 border border-gray-200 rounded">
+                       <input type="checkbox" checked={false} onChange={() => toggleForcedPersona(persona.name)} />
+                       <span className="text-sm text-gray-600">{persona.name} ({persona.role})</span>
+                     </div>
+                   ))}
+               </div>
+             </div>
+
+             {configStatus && configStatus.errors.length > 0 && (
+               <ul className="list-disc list-inside space-y-1">
+                 {configStatus.errors.map((error, i) => (
+                   <li key={i} className="text-sm text-red-700">{error}</li>
+                 ))}
+               </ul>
+             )}
+
+             <div className="flex items-center justify-end gap-3 pt-4 border-t border-gray-200">
+               {configStatus?.saved && configStatus.updatedAt && (
+                 <span className="text-sm text-green-700 mr-auto">
+                   Saved {formatTimeAgo(configStatus.updatedAt)}
+                 </span>
+               )}
+               <button
+                 onClick={resetInterviewConfig}
+                 className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600"
+               >
+                 Reset to Defaults
+               </button>
+               <button
+                 onClick={saveInterviewConfig}
+                 disabled={isSavingConfig}
+                 className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:bg-gray-400"
+               >
+                 {isSavingConfig ? 'Saving...' : 'Save Settings'}
+               </button>
+             </div>
+           </div>
+         </div>
+       )}
+
+       {/* Courses Tab */}
+       {activeTab === 'courses' && (
+         <div className="space-y-6">
+           <div className="bg-white rounded-lg shadow p-6">
+             <div className="flex flex-wrap gap-4 items-end">
+               <div>
+                 <label className="block text-sm font-medium text-gray-900 mb-1">Course</label>
+                 <select
+                   value={selectedCourseId}
+                   onChange={(e) => loadCourseDashboard(e.target.value)}
+                   className="border border-gray-300 rounded px-3 py-2 text-sm text-black min-w-64"
+                 >
+                   <option value="">Select a course...</option>
+                   {courses.map(course => (
+                     <option key={course.courseId} value={course.courseId}>
+                       {course.name}{course.term ? ` (${course.term})` : ''}
+                     </option>
+                   ))}
+                 </select>
+               </div>
+               {selectedCourseId && (
+                 <div>
+                   <label className="block text-sm font-medium text-gray-900 mb-1">Model</label>
+                   <select
+                     value={courses.find(course => course.courseId === selectedCourseId)?.llmProvider || ''}
+                     onChange={(e) => updateCourseModel(e.target.value)}
+                     className="border border-gray-300 rounded px-3 py-2 text-sm text-black"
+                   >
+                     <option value="">Deployment default</option>
+                     <option value="cohere">Cohere</option>
+                     <option value="openai">OpenAI</option>
+                     <option value="local">Local stand-in</option>
+                   </select>
+                 </div>
+               )}
+               <div className="flex gap-2 items-end ml-auto">
+                 <input
+                   type="text"
+                   value={newCourse.name}
+                   onChange={(e) => setNewCourse({ ...newCourse, name: e.target.value })}
+                   placeholder="New course name"
+                   className="border border-gray-300 rounded px-3 py-2 text-sm text-black"
+                 />
+                 <input
+                   type="text"
+                   value={newCourse.term}
+                   onChange={(e) => setNewCourse({ ...newCourse, term: e.target.value })}
+                   placeholder="Term, e.g. Fall 2026"
+                   className="border border-gray-300 rounded px-3 py-2 text-sm text-black"
+                 />
+                 <button
+                   onClick={createCourse}
+                   disabled={!newCourse.name.trim()}
+                   className="px-4 py-2 bg-indigo-600 text-white rounded text-sm hover:bg-indigo-700 disabled:bg-gray-400"
+                 >
+                   Create Course
+                 </button>
+               </div>
+             </div>
+           </div>
+
+           {courseData && (
+             <>
+               <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                 {[
+                   ['Students', courseData.classOverview.totalStudents],
+                   ['Active Now', courseData.classOverview.activeStudents],
+                   ['Completed Sessions', courseData.classOverview.completedSessions],
+                   ['Overall Progress', `${Math.round(courseData.classOverview.overallProgress)}%`]
+                 ].map(([label, value]) => (
+                   <div key={label} className="bg-white p-6 rounded-lg shadow">
+                     <p className="text-sm font-medium text-gray-600">{label}</p>
+                     <p className="text-2xl font-bold text-gray-900">{value}</p>
+                   </div>
+                 ))}
+               </div>
+
+               {/* Cross-section comparison */}
+               <div className="bg-white rounded-lg shadow">
+                 <div className="p-6 border-b border-gray-200">
+                   <h3 className="text-lg font-medium text-gray-900">Sections</h3>
+                 </div>
+                 <div className="overflow-x-auto">
+                   <table className="min-w-full divide-y divide-gray-200">
+                     <thead className="bg-gray-50">
+                       <tr>
+                         {['Section', 'Enrolled', 'Participating', 'Completed Sessions', 'Avg Messages', 'Progress', ''].map(heading => (
+                           <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{heading}</th>
+                         ))}
+                       </tr>
+                     </thead>
+                     <tbody className="bg-white divide-y divide-gray-200">
+                       {courseData.sections.map(section => (
+                         <tr key={section.sectionId}>
+                           <td className="px-6 py-4 text-sm text-gray-900">
+                             <div className="font-medium">{section.name}</div>
+                             <div className="text-xs text-gray-500">
+                               {section.assignments.length > 0
+                                 ? section.assignments.map(a => `${a.title} (${a.classOverview.completedSessions} done)`).join(' • ')
+                                 : 'No assignments yet'}
+                             </div>
+                           </td>
+                           <td className="px-6 py-4 text-sm text-gray-900">{section.studentIds.length}</td>
+                           <td className="px-6 py-4 text-sm text-gray-900">{section.classOverview.totalStudents}</td>
+                           <td className="px-6 py-4 text-sm text-gray-900">{section.classOverview.completedSessions}</td>
+                           <td className="px-6 py-4 text-sm text-gray-900">{Math.round(section.classOverview.avgMessagesPerSession)}</td>
+                           <td className="px-6 py-4 text-sm text-gray-900">{Math.round(section.classOverview.overallProgress)}%</td>
+                           <td className="px-6 py-4 text-sm text-right">
+                             <button
+                               onClick={() => editEnrollment(section)}
+                               className="text-indigo-600 hover:text-indigo-900"
+                             >
+                               Edit enrollment
+                             </button>
+                           </td>
+                         </tr>
+                       ))}
+                     </tbody>
+                   </table>
+                 </div>
+                 <div className="p-6 border-t border-gray-200 flex flex-wrap gap-2 items-center">
+                   <input
+                     type="text"
+                     value={newSection.name}
+                     onChange={(e) => setNewSection({ ...newSection, name: e.target.value })}
+                     placeholder="New section name"
+                     className="border border-gray-300 rounded px-3 py-2 text-sm text-black"
+                   />
+                   <input
+                     type="text"
+                     value={newSection.studentIds}
+                     onChange={(e) => setNewSection({ ...newSection, studentIds: e.target.value })}
+                     placeholder="Student IDs to enroll (optional)"
+                     className="flex-1 border border-gray-300 rounded px-3 py-2 text-sm text-black"
+                   />
+                   <button
+                     onClick={createSection}
+                     disabled={!newSection.name.trim()}
+                     className="px-4 py-2 bg-indigo-600 text-white rounded text-sm hover:bg-indigo-700 disabled:bg-gray-400"
+                   >
+                     Add Section
+                   </button>
+                 </div>
+               </div>
+
+               {/* Per-student progress through the term */}
+               {courseData.sections.map(section => {
+                 const students = courseData.studentProgress.filter(p => p.sectionId === section.sectionId)
+                 if (section.assignments.length === 0 || students.length === 0) return null
+                 return (
+                   <div key={section.sectionId} className="bg-white rounded-lg shadow">
+                     <div className="p-6 border-b border-gray-200">
+                       <h3 className="text-lg font-medium text-gray-900">{section.name}: Student Progress</h3>
+                       <p className="text-sm text-gray-600">⚪ not started • 🟡 in progress • 🔴 abandoned • 🟢 completed, with best coverage where analyzed</p>
+                     </div>
+                     <div className="overflow-x-auto">
+                       <table className="min-w-full divide-y divide-gray-200">
+                         <thead className="bg-gray-50">
+                           <tr>
+                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Student</th>
+                             {section.assignments.map(a => (
+                               <th key={a.assignmentId} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{a.title}</th>
+                             ))}
+                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Avg Coverage</th>
+                           </tr>
+                         </thead>
+                         <tbody className="bg-white divide-y divide-gray-200">
+                           {students.map(student => (
+                             <tr key={student.studentId || student.studentName}>
+                               <td className="px-6 py-4 text-sm text-gray-900">
+                                 <div className="font-medium">{student.studentName}</div>
+                                 <div className="text-xs text-gray-500">
+                                   {student.studentId ? `ID ${student.studentId}` : 'Not signed in'}
+                                   {!student.enrolled && ' • not enrolled'}
+                                 </div>
+                               </td>
+                               {student.assignments.map(progress => (
+                                 <td key={progress.assignmentId} className="px-6 py-4 text-sm text-gray-900">
+                                   {PROGRESS_ICONS[progress.status]}
+                                   {progress.requirementCoverageRate !== undefined && ` ${Math.round(progress.requirementCoverageRate)}%`}
+                                   {progress.sessionCount > 0 && (
+                                     <span className="text-xs text-gray-500"> ({progress.messageCount} msgs)</span>
+                                   )}
+                                 </td>
+                               ))}
+                               <td className="px-6 py-4 text-sm text-gray-900">
+                                 {student.avgCoverageRate !== undefined ? `${Math.round(student.avgCoverageRate)}%` : '—'}
+                               </td>
+                             </tr>
+                           ))}
+                         </tbody>
+                       </table>
+                     </div>
+                   </div>
+                 )
+               })}
+             </>
+           )}
+         </div>
+       )}
      </div>
 
      {/* Coverage Report Modal */}
@@ -660,6 +1518,103 @@ export default function InstructorDashboard() {
          </div>
        </div>
      )}
+
+     {/* Roster Import Modal */}
+     {showRosterModal && (
+       <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+         <div className="relative top-20 mx-auto p-5 border w-11/12 max-w-2xl shadow-lg rounded-md bg-white">
+           <div className="mb-4 flex justify-between items-start">
+             <h3 className="text-lg font-bold text-gray-900">Import Student Roster</h3>
+             <button
+               onClick={closeRosterModal}
+               className="text-gray-400 hover:text-gray-500"
+             >
+               <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+               </svg>
+             </button>
+           </div>
+
+           {!rosterResult ? (
+             <div className="space-y-3">
+               <p className="text-sm text-gray-600">
+                 Paste a CSV with a header row. <code>name</code> is required; <code>studentId</code>, <code>email</code> and <code>password</code> are optional.
+                 Students without a password get a temporary one, shown once after the import.
+               </p>
+               <input
+                 type="file"
+                 accept=".csv,text/csv"
+                 onChange={async (e) => {
+                   const file = e.target.files?.[0]
+                   if (file) setRosterCsv(await file.text())
+                 }}
+                 className="text-sm"
+               />
+               <textarea
+                 value={rosterCsv}
+                 onChange={(e) => setRosterCsv(e.target.value)}
+                 rows={8}
+                 placeholder={'studentId,name,email\nS001,Ada Lovelace,ada@example.edu'}
+                 className="w-full px-3 py-2 border border-gray-300 rounded font-mono text-sm"
+               />
+             </div>
+           ) : (
+             <div className="space-y-4 max-h-96 overflow-y-auto">
+               <p className="text-sm text-gray-700">
+                 {rosterResult.created.length} students added, {rosterResult.updated.length} updated.
+               </p>
+
+               {rosterResult.temporaryPasswords.length > 0 && (
+                 <div>
+                   <h4 className="font-semibold text-gray-800 mb-2">Temporary Passwords</h4>
+                   <p className="text-xs text-gray-500 mb-2">Copy these now; they are not stored and cannot be shown again.</p>
+                   <table className="w-full text-sm">
+                     <tbody className="divide-y divide-gray-200">
+                       {rosterResult.temporaryPasswords.map(entry => (
+                         <tr key={entry.studentId}>
+                           <td className="py-1 text-gray-900">{entry.name}</td>
+                           <td className="py-1 text-gray-500">{entry.studentId}</td>
+                           <td className="py-1 font-mono text-gray-900">{entry.password}</td>
+                         </tr>
+                       ))}
+                     </tbody>
+                   </table>
+                 </div>
+               )}
+
+               {rosterResult.errors.length > 0 && (
+                 <div>
+                   <h4 className="font-semibold text-red-700 mb-2">Skipped Rows</h4>
+                   <ul className="list-disc list-inside space-y-1">
+                     {rosterResult.errors.map((error, i) => (
+                       <li key={i} className="text-sm text-red-700">{error}</li>
+                     ))}
+                   </ul>
+                 </div>
+               )}
+             </div>
+           )}
+
+           <div className="mt-4 flex justify-end gap-3">
+             {!rosterResult && (
+               <button
+                 onClick={importRoster}
+                 disabled={isImportingRoster || !rosterCsv.trim()}
+                 className="px-4 py-2 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:bg-gray-400"
+               >
+                 {isImportingRoster ? 'Importing...' : 'Import'}
+               </button>
+             )}
+             <button
+               onClick={closeRosterModal}
+               className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600"
+             >
+               Close
+             </button>
+           </div>
+         </div>
+       </div>
+     )}
    </div>
  )
 }
\ No newline at end of file
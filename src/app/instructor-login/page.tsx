@@ -0,0 +1,83 @@
+// File: src/app/instructor-login/page.tsx
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+// Only follow same-site paths so the page can't be used as an open redirect
+function nextPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next')
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/'
+}
+
+export default function InstructorLoginPage() {
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSigningIn, setIsSigningIn] = useState(false)
+  const router = useRouter()
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!password) {
+      setError('Please enter the instructor password')
+      return
+    }
+
+    setIsSigningIn(true)
+
+    try {
+      const res = await fetch('/api/auth/instructor', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        setError(res.status === 401 ? 'Password is incorrect' : data.error || 'Sign in failed')
+        return
+      }
+
+      router.push(nextPath())
+    } catch (error) {
+      console.error('Sign in error:', error)
+      setError('Error signing in. Please try again.')
+    } finally {
+      setIsSigningIn(false)
+    }
+  }
+
+  return (
+    <div className="p-8 max-w-md mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold mb-2">Instructor Sign In</h1>
+        <p className="text-gray-400">Projects hold their personas&apos; hidden facts and the requirements students are graded against</p>
+      </div>
+
+      <form onSubmit={handleSignIn} className="space-y-4">
+        <div>
+          <label className="block mb-1 font-medium text-sm">Instructor Password</label>
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            className="w-full px-4 py-2 border rounded focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSigningIn}
+          className="w-full bg-indigo-600 text-white py-3 rounded hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium"
+        >
+          {isSigningIn ? 'Signing in...' : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -1,7 +1,14 @@
 'use client'
-import { useEffect, useState } from 'react'
+import { ReactNode, useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Navigation } from '../components/Navigation'
+import { runInBackground } from '@/lib/jobs/client'
+import { ExtractedRequirement } from '@/lib/requirements'
+
+// Back to this interview, project link included, after signing in
+function loginUrl(): string {
+  return `/login?next=${encodeURIComponent(window.location.pathname + window.location.search)}`
+}
 
 interface Persona {
   name: string
@@ -12,12 +19,31 @@ interface Persona {
   personality: string
 }
 
+interface LoadedProject {
+  projectId: string
+  name: string
+  domain: string
+  stories: string
+  personas: Persona[]
+  projectOutline?: string
+  references?: { name: string, url: string, description: string }[]
+  metadata?: Record<string, unknown>
+}
+
+interface JoinedAssignment {
+  assignmentId: string
+  title: string
+  instructions?: string
+  joinCode: string
+}
+
 interface Message {
   id: string
-  sender: 'student' | 'persona'
+  sender: 'student' | 'persona' | 'system'
   personaName?: string
   content: string
   timestamp: Date
+  metadata?: Record<string, unknown> // Collaboration details from the server (discussionRound, speakingOrder, ...)
 }
 
 interface InterviewSession {
@@ -28,6 +54,66 @@ interface InterviewSession {
   isActive: boolean
 }
 
+interface PersonaReply {
+  personaName: string
+  content: string
+}
+
+type InterviewStreamEvent =
+  | { type: 'node', node: string }
+  | { type: 'persona_start', personaName: string }
+  | { type: 'token', personaName: string, delta: string }
+  | { type: 'persona_done', response: PersonaReply }
+  | { type: 'collaboration_summary', content: string }
+  | { type: 'done', messages: Message[], responses: PersonaReply[] }
+  | { type: 'error', error: string }
+
+// Mark the quoted spans inside a message; quotes that can't be located are skipped
+function highlightQuotes(content: string, quotes: string[]): ReactNode {
+  const lower = content.toLowerCase()
+  const ranges = quotes
+    .map(quote => {
+      const start = lower.indexOf(quote.toLowerCase())
+      return start >= 0 ? [start, start + quote.length] : null
+    })
+    .filter((range): range is number[] => range !== null)
+    .sort((a, b) => a[0] - b[0])
+
+  const parts: ReactNode[] = []
+  let cursor = 0
+  ranges.forEach(([start, end], index) => {
+    if (start < cursor) return // Overlaps a span already marked
+    parts.push(content.slice(cursor, start))
+    parts.push(<mark key={index} className="bg-amber-200 rounded px-0.5">{content.slice(start, end)}</mark>)
+    cursor = end
+  })
+  parts.push(content.slice(cursor))
+  return parts
+}
+
+// Read the Server-Sent Events from /api/interview, calling onEvent for each one as it arrives
+async function readInterviewStream(response: Response, onEvent: (event: InterviewStreamEvent) => void) {
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    const frames = buffer.split('\n\n')
+    buffer = frames.pop() || ''
+    for (const frame of frames) {
+      const type = frame.match(/^event: (.+)$/m)?.[1]
+      const data = frame.match(/^data: (.+)$/m)?.[1]
+      if (type && data) {
+        onEvent({ ...JSON.parse(data), type } as InterviewStreamEvent)
+      }
+    }
+  }
+}
+
 export default function InterviewPage() {
   const [availablePersonas, setAvailablePersonas] = useState<Persona[]>([])
   const [selectedPersonas, setSelectedPersonas] = useState<Persona[]>([])
@@ -35,10 +121,18 @@ export default function InterviewPage() {
   const [message, setMessage] = useState('')
   const [isGeneratingRequirements, setIsGeneratingRequirements] = useState(false)
   const [requirements, setRequirements] = useState<string | null>(null)
+  const [structuredRequirements, setStructuredRequirements] = useState<ExtractedRequirement[]>([])
+  const [highlightedRequirement, setHighlightedRequirement] = useState<ExtractedRequirement | null>(null)
   const [transcriptDownloaded, setTranscriptDownloaded] = useState(false)
+  const [projectId, setProjectId] = useState<string | null>(null)
+  const [assignment, setAssignment] = useState<JoinedAssignment | null>(null)
+  const [interviewConfig, setInterviewConfig] = useState<{ requireAllPersonas?: boolean }>({})
   const [projectData, setProjectData] = useState<any>(null)
   const [personaData, setPersonaData] = useState<any>(null)
   const [showProjectDetails, setShowProjectDetails] = useState(true)
+  const [isResponding, setIsResponding] = useState(false)
+  const [streamingReplies, setStreamingReplies] = useState<PersonaReply[]>([])
+  const [student, setStudent] = useState<{ studentId: string, name: string } | null>(null)
 
   // NEW: Text selection state
   const [selectedMessages, setSelectedMessages] = useState<Set<string>>(new Set())
@@ -47,6 +141,71 @@ export default function InterviewPage() {
   const router = useRouter()
 
   useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+
+    const showProject = (project: LoadedProject) => {
+      sessionStorage.setItem('projectId', project.projectId)
+      setProjectId(project.projectId)
+      setAvailablePersonas(project.personas)
+      setPersonaData({
+        personas: project.personas,
+        projectOutline: project.projectOutline,
+        references: project.references,
+        metadata: project.metadata
+      })
+      setProjectData({ projectName: project.name, domain: project.domain, stories: project.stories })
+    }
+
+    // Students arrive from an assignment's ?code= link, which brings the roster and the instructor's settings
+    const joinCode = params.get('code')
+    if (joinCode) {
+      fetch(`/api/join/${encodeURIComponent(joinCode)}`)
+        .then(async response => {
+          const data = await response.json()
+          if (!response.ok) {
+            alert(data.error || 'Could not join the assignment')
+            router.push('/join')
+            return
+          }
+          sessionStorage.setItem('assignmentId', data.assignment.assignmentId)
+          setAssignment(data.assignment)
+          setInterviewConfig(data.config)
+          showProject(data.project)
+          // Every persona answers anyway, so start with all of them selected
+          if (data.config.requireAllPersonas) {
+            setSelectedPersonas(data.project.personas)
+          }
+        })
+        .catch(error => {
+          console.error('Error joining assignment:', error)
+          router.push('/join')
+        })
+      return
+    }
+
+    // The instructor previews a project from a ?projectId link, or from this tab's sessionStorage.
+    // Only the student view is loaded, so the page never holds hidden facts or the requirement list.
+    sessionStorage.removeItem('assignmentId')
+    const linkedProjectId = params.get('projectId') || sessionStorage.getItem('projectId')
+    if (linkedProjectId) {
+      fetch(`/api/projects/${encodeURIComponent(linkedProjectId)}?view=student`)
+        .then(async response => {
+          if (!response.ok) throw new Error('Project not found')
+          const { project } = await response.json()
+          if (project.status === 'archived') {
+            alert('This project has been archived and is no longer open for interviews.')
+            router.push('/')
+            return
+          }
+          showProject(project)
+        })
+        .catch(error => {
+          console.error('Error loading project:', error)
+          router.push('/')
+        })
+      return
+    }
+
     // Load personas and project data from previous generation
     const raw = sessionStorage.getItem('personas')
     const projectRaw = sessionStorage.getItem('originalRequest')
@@ -79,38 +238,43 @@ export default function InterviewPage() {
     }
   }, [router])
 
+  // Interviews are graded per student, so they require signing in
+  useEffect(() => {
+    fetch('/api/auth')
+      .then(async response => {
+        if (!response.ok) {
+          router.push(loginUrl())
+          return
+        }
+        setStudent((await response.json()).student)
+      })
+      .catch(error => console.error('Error loading student:', error))
+  }, [router])
+
+  const signOut = async () => {
+    await fetch('/api/auth', { method: 'DELETE' })
+    router.push(loginUrl())
+  }
+
   // Helper function to save session data
   const saveSessionData = async (
     session: InterviewSession,
     status: 'active' | 'completed' | 'abandoned' = 'active',
     requirementsExtracted: boolean = false,
-    transcriptDownloaded: boolean = false
+    transcriptDownloaded: boolean = false,
+    extractedRequirements?: ExtractedRequirement[]
   ) => {
     try {
       const projectData = sessionStorage.getItem('originalRequest')
-      const personaDataRaw = sessionStorage.getItem('personas')
       const projectName = projectData ? JSON.parse(projectData).projectName : 'Unknown Project'
 
-      // Extract project requirements from persona data
-      let projectRequirements: string[] = []
-      if (personaDataRaw) {
-        try {
-          const personaData = JSON.parse(personaDataRaw)
-          if (personaData.requirements && Array.isArray(personaData.requirements)) {
-            projectRequirements = personaData.requirements
-          }
-        } catch (e) {
-          console.error('Error parsing persona data for requirements:', e)
-        }
-      }
-
-      // Generate a student name (in production, this would come from login)
-      const studentName = `Student_${session.id.slice(-6)}`
-
+      // The server records the signed-in student from the sign-in cookie and the
+      // project's name and requirements from its projectId
       const sessionData = {
         sessionId: session.id,
+        projectId: sessionStorage.getItem('projectId'),
+        assignmentId: sessionStorage.getItem('assignmentId'),
         projectName,
-        studentName,
         startTime: session.startTime,
         endTime: status !== 'active' ? new Date() : undefined,
         messages: session.messages,
@@ -118,10 +282,8 @@ export default function InterviewPage() {
         status,
         requirementsExtracted,
         transcriptDownloaded,
-        // Add metadata with project requirements
-        metadata: {
-          projectRequirements
-        }
+        // The extraction is only sent when it changes because the server keeps metadata from earlier saves
+        metadata: extractedRequirements ? { extractedRequirements } : {}
       }
 
       const response = await fetch('/api/session-storage', {
@@ -167,6 +329,7 @@ export default function InterviewPage() {
   }
 
   const handlePersonaToggle = (persona: Persona) => {
+    if (interviewConfig.requireAllPersonas) return
     setSelectedPersonas(prev => {
       const isSelected = prev.find(p => p.name === persona.name)
       if (isSelected) {
@@ -227,8 +390,10 @@ export default function InterviewPage() {
     }))
 
     setMessage('')
+    setIsResponding(true)
+    setStreamingReplies([])
 
-    // Send to AI for persona responses
+    // Send to AI for persona responses, streaming each reply in as it is written
     try {
       const response = await fetch('/api/interview', {
         method: 'POST',
@@ -236,24 +401,60 @@ export default function InterviewPage() {
         body: JSON.stringify({
           message: message.trim(),
           personas: selectedPersonas,
-          conversationHistory: currentSession.messages
+          conversationHistory: currentSession.messages,
+          sessionId: currentSession.id,
+          projectId,
+          assignmentId: assignment?.assignmentId,
+          stream: true
         })
       })
 
-      if (!response.ok) throw new Error('Failed to get persona response')
-
-      const { responses } = await response.json()
+      if (!response.ok || !response.body) throw new Error('Failed to get persona response')
+
+      let turnMessages: Message[] = []
+      await readInterviewStream(response, event => {
+        switch (event.type) {
+          case 'persona_start':
+            // A validation retry restarts the persona, so drop any earlier partial reply
+            setStreamingReplies(prev => [
+              ...prev.filter(reply => reply.personaName !== event.personaName),
+              { personaName: event.personaName, content: '' }
+            ])
+            break
+          case 'token':
+            setStreamingReplies(prev => prev.map(reply =>
+              reply.personaName === event.personaName
+                ? { ...reply, content: reply.content + event.delta }
+                : reply
+            ))
+            break
+          case 'persona_done':
+            // Post-processing may rewrite the raw tokens, so show the final text
+            setStreamingReplies(prev => prev.map(reply =>
+              reply.personaName === event.response.personaName
+                ? { ...reply, content: event.response.content }
+                : reply
+            ))
+            break
+          case 'collaboration_summary':
+            setStreamingReplies(prev => [...prev, { personaName: 'Team', content: event.content }])
+            break
+          case 'done':
+            turnMessages = event.messages
+            break
+          case 'error':
+            throw new Error(event.error)
+        }
+      })
 
-      // Add persona responses
-      const personaMessages: Message[] = responses.map((resp: any, index: number) => ({
-        id: (Date.now() + index).toString(),
-        sender: 'persona' as const,
-        personaName: resp.personaName,
-        content: resp.content,
-        timestamp: new Date()
+      // The server's copy of the question replaces the optimistic one, so every stored message carries
+      // the ID and metadata the server assigned
+      const serverMessages: Message[] = turnMessages.map(msg => ({
+        ...msg,
+        timestamp: new Date(msg.timestamp)
       }))
 
-      const finalMessages = [...updatedMessages, ...personaMessages]
+      const finalMessages = [...currentSession.messages, ...serverMessages]
 
       setCurrentSession(prev => {
         const updatedSession = {
@@ -287,6 +488,9 @@ export default function InterviewPage() {
         saveSessionData(updatedSession, 'active', !!requirements, transcriptDownloaded)
         return updatedSession
       })
+    } finally {
+      setIsResponding(false)
+      setStreamingReplies([])
     }
   }
 
@@ -310,7 +514,10 @@ export default function InterviewPage() {
     setIsGeneratingRequirements(true)
 
     try {
-      const response = await fetch('/api/extract-requirements', {
+      const { requirements: extractedRequirements, structuredRequirements: extracted } = await runInBackground<{
+        requirements: string
+        structuredRequirements?: ExtractedRequirement[]
+      }>('/api/extract-requirements', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -318,18 +525,17 @@ export default function InterviewPage() {
           selectedMessageIds: isSelectionMode && selectedMessages.size > 0
             ? Array.from(selectedMessages)
             : undefined,
-          personas: selectedPersonas
+          personas: selectedPersonas,
+          assignmentId: assignment?.assignmentId
         })
       })
-
-      if (!response.ok) throw new Error('Failed to generate requirements')
-
-      const { requirements: extractedRequirements } = await response.json()
       setRequirements(extractedRequirements)
+      setStructuredRequirements(extracted || [])
+      setHighlightedRequirement(null)
 
       // Update session to mark requirements as extracted
       if (currentSession) {
-        await saveSessionData(currentSession, 'active', true, transcriptDownloaded)
+        await saveSessionData(currentSession, 'active', true, transcriptDownloaded, extracted || [])
       }
 
       // Clear selections after extraction
@@ -343,6 +549,18 @@ export default function InterviewPage() {
     }
   }
 
+  // Highlight the messages behind a requirement (click again to clear) and bring the first into view
+  const toggleRequirementHighlight = (requirement: ExtractedRequirement) => {
+    if (highlightedRequirement?.id === requirement.id) {
+      setHighlightedRequirement(null)
+      return
+    }
+    setHighlightedRequirement(requirement)
+    if (requirement.messageIds.length > 0) {
+      document.getElementById(`message-${requirement.messageIds[0]}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }
+  }
+
   const downloadRequirements = () => {
     if (!requirements) return
 
@@ -374,6 +592,8 @@ export default function InterviewPage() {
     setCurrentSession(null)
     setSelectedPersonas([])
     setRequirements(null)
+    setStructuredRequirements([])
+    setHighlightedRequirement(null)
     setTranscriptDownloaded(false)
     clearSelections()
   }
@@ -403,6 +623,7 @@ export default function InterviewPage() {
                   </h1>
                   <p className="text-sm text-gray-600 mt-1">
                     {projectData?.domain || 'Finance'} Domain
+                    {assignment && <> • Assignment: {assignment.title} (code {assignment.joinCode})</>}
                   </p>
                 </div>
                 <button
@@ -422,6 +643,13 @@ export default function InterviewPage() {
 
               {showProjectDetails && (
                 <div className="mt-4 space-y-4">
+                  {assignment?.instructions && (
+                    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+                      <h3 className="font-medium text-amber-900 mb-2">Instructions</h3>
+                      <p className="text-sm text-amber-800 whitespace-pre-line">{assignment.instructions}</p>
+                    </div>
+                  )}
+
                   {projectData?.stories && (
                     <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                       <h3 className="font-medium text-blue-900 mb-2">Project Context</h3>
@@ -453,7 +681,11 @@ export default function InterviewPage() {
           <div className="w-80 bg-white border-r border-gray-200 p-6">
             <div className="mb-6">
               <h2 className="text-xl font-bold text-gray-900 mb-2">Select Personas to Interview</h2>
-              <p className="text-sm text-gray-600">Choose one or more personas for your interview session</p>
+              <p className="text-sm text-gray-600">
+                {interviewConfig.requireAllPersonas
+                  ? 'Your instructor has asked you to interview all personas together'
+                  : 'Choose one or more personas for your interview session'}
+              </p>
             </div>
 
             <div className="space-y-4 max-h-96 overflow-y-auto">
@@ -499,8 +731,17 @@ export default function InterviewPage() {
                 Start Interview ({selectedPersonas.length} persona{selectedPersonas.length !== 1 ? 's' : ''})
               </button>
 
-              {/* Use Navigation component */}
-              <Navigation showHome={true} showPersonas={true} />
+              {/* Use Navigation component; students who joined an assignment have no instructor pages to go back to */}
+              {!assignment && <Navigation showHome={true} showPersonas={true} />}
+
+              {student && (
+                <div className="flex items-center justify-between text-sm text-gray-600">
+                  <span>Signed in as <strong>{student.name}</strong></span>
+                  <button onClick={signOut} className="text-indigo-600 hover:text-indigo-800">
+                    Sign out
+                  </button>
+                </div>
+              )}
             </div>
           </div>
 
@@ -613,12 +854,38 @@ export default function InterviewPage() {
                 💾 Download Requirements
               </button>
 
-              {/* Show extracted requirements preview */}
+              {/* Show extracted requirements; click one to see the messages that support it */}
               <div className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded-lg">
                 <h4 className="font-medium text-gray-900 mb-2 text-sm">Extracted Requirements:</h4>
-                <div className="text-xs text-gray-600 max-h-32 overflow-y-auto">
-                  {requirements.substring(0, 200)}...
-                </div>
+                {structuredRequirements.length > 0 ? (
+                  <ul className="space-y-1 max-h-64 overflow-y-auto">
+                    {structuredRequirements.map((req) => (
+                      <li key={req.id}>
+                        <button
+                          onClick={() => toggleRequirementHighlight(req)}
+                          className={`w-full text-left text-xs p-2 rounded border transition-colors ${
+                            highlightedRequirement?.id === req.id
+                              ? 'bg-amber-50 border-amber-400 text-gray-900'
+                              : 'bg-white border-gray-200 text-gray-700 hover:border-gray-300'
+                          }`}
+                        >
+                          <span className="font-semibold text-gray-900">{req.id}</span>{' '}
+                          <span className="text-gray-500">({req.type})</span> {req.text}
+                          <span className="block text-gray-500 mt-0.5">
+                            {req.sourcePersona} • {req.messageIds.length} supporting message{req.messageIds.length === 1 ? '' : 's'}
+                          </span>
+                          {!req.verified && (
+                            <span className="block text-red-600 mt-0.5">⚠ No supporting quote found in the transcript</span>
+                          )}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <div className="text-xs text-gray-600 max-h-32 overflow-y-auto">
+                    {requirements.substring(0, 200)}...
+                  </div>
+                )}
               </div>
             </>
           )}
@@ -653,6 +920,7 @@ export default function InterviewPage() {
           {currentSession.messages.map((msg) => (
             <div
               key={msg.id}
+              id={`message-${msg.id}`}
               className={`flex ${msg.sender === 'student' ? 'justify-end' : 'justify-start'}`}
             >
               <div
@@ -664,10 +932,12 @@ export default function InterviewPage() {
                     : selectedMessages.has(msg.id) && isSelectionMode
                     ? 'bg-purple-100 border-2 border-purple-400 text-gray-900'
                     : 'bg-white border border-gray-200 text-gray-900 hover:border-gray-300'
-                } ${isSelectionMode ? 'cursor-pointer' : ''}`}
+                } ${isSelectionMode ? 'cursor-pointer' : ''} ${
+                  highlightedRequirement?.messageIds.includes(msg.id) ? 'ring-2 ring-amber-400' : ''
+                }`}
                 onClick={() => toggleMessageSelection(msg.id)}
               >
-                {msg.sender === 'persona' && msg.personaName && (
+                {msg.sender !== 'student' && msg.personaName && (
                   <div className={`text-xs font-semibold mb-1 ${
                     selectedMessages.has(msg.id) && isSelectionMode
                       ? 'text-purple-700'
@@ -676,7 +946,14 @@ export default function InterviewPage() {
                     {msg.personaName}
                   </div>
                 )}
-                <div className="text-sm">{msg.content}</div>
+                <div className="text-sm">
+                  {highlightedRequirement?.messageIds.includes(msg.id)
+                    ? highlightQuotes(
+                        msg.content,
+                        highlightedRequirement.evidence.filter(e => e.messageId === msg.id && e.verified).map(e => e.quote)
+                      )
+                    : msg.content}
+                </div>
                 <div className={`text-xs mt-1 ${
                   msg.sender === 'student'
                     ? selectedMessages.has(msg.id) && isSelectionMode
@@ -692,6 +969,21 @@ export default function InterviewPage() {
               </div>
             </div>
           ))}
+
+          {/* Replies still being written */}
+          {streamingReplies.map((reply) => (
+            <div key={`streaming-${reply.personaName}`} className="flex justify-start">
+              <div className="max-w-xs lg:max-w-md px-4 py-2 rounded-lg bg-white border border-gray-200 text-gray-900">
+                <div className="text-xs font-semibold mb-1 text-indigo-600">{reply.personaName}</div>
+                <div className="text-sm">
+                  {reply.content || <span className="text-gray-400 italic">typing...</span>}
+                </div>
+              </div>
+            </div>
+          ))}
+          {isResponding && streamingReplies.length === 0 && (
+            <div className="text-xs text-gray-500 italic">The team is thinking about your question...</div>
+          )}
         </div>
 
         {/* Message Input */}
@@ -701,14 +993,14 @@ export default function InterviewPage() {
               type="text"
               value={message}
               onChange={(e) => setMessage(e.target.value)}
-              onKeyPress={(e) => e.key === 'Enter' && sendMessage()}
+              onKeyPress={(e) => e.key === 'Enter' && !isResponding && sendMessage()}
               placeholder="Ask your question..."
               className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-black"
               disabled={isSelectionMode}
             />
             <button
               onClick={sendMessage}
-              disabled={!message.trim() || isSelectionMode}
+              disabled={!message.trim() || isSelectionMode || isResponding}
               className="bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
             >
               Send
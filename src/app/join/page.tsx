@@ -0,0 +1,81 @@
+// File: src/app/join/page.tsx
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+export default function JoinAssignmentPage() {
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isJoining, setIsJoining] = useState(false)
+  const router = useRouter()
+
+  // Shared links look like /join?code=ABC123
+  useEffect(() => {
+    const linked = new URLSearchParams(window.location.search).get('code')
+    if (linked) setCode(linked)
+  }, [])
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!code.trim()) {
+      setError('Please enter the join code from your instructor')
+      return
+    }
+
+    setIsJoining(true)
+
+    try {
+      const res = await fetch(`/api/join/${encodeURIComponent(code.trim())}`)
+
+      if (!res.ok) {
+        const data = await res.json()
+        setError(data.error || 'Could not join the assignment')
+        return
+      }
+
+      const { assignment } = await res.json()
+      router.push(`/interview?code=${encodeURIComponent(assignment.joinCode)}`)
+    } catch (error) {
+      console.error('Join error:', error)
+      setError('Error joining the assignment. Please try again.')
+    } finally {
+      setIsJoining(false)
+    }
+  }
+
+  return (
+    <div className="p-8 max-w-md mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold mb-2">Join an Assignment</h1>
+        <p className="text-gray-400">Enter the code your instructor shared to interview the project&apos;s personas</p>
+      </div>
+
+      <form onSubmit={handleJoin} className="space-y-4">
+        <div>
+          <label className="block mb-1 font-medium text-sm">Join Code</label>
+          <input
+            type="text"
+            autoComplete="off"
+            placeholder="e.g., K7PQ2X"
+            value={code}
+            onChange={e => setCode(e.target.value.toUpperCase())}
+            className="w-full px-4 py-2 border rounded font-mono tracking-widest focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isJoining}
+          className="w-full bg-indigo-600 text-white py-3 rounded hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium"
+        >
+          {isJoining ? 'Joining...' : 'Join'}
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+// File: src/app/login/page.tsx
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+// Only follow same-site paths so the page can't be used as an open redirect
+function nextPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next')
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/interview'
+}
+
+export default function StudentLoginPage() {
+  const [identifier, setIdentifier] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSigningIn, setIsSigningIn] = useState(false)
+  const router = useRouter()
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!identifier.trim() || !password) {
+      setError('Please enter your student ID or email and your password')
+      return
+    }
+
+    setIsSigningIn(true)
+
+    try {
+      const res = await fetch('/api/auth', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ identifier: identifier.trim(), password }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json()
+        setError(res.status === 401 ? 'Student ID, email or password is incorrect' : data.error || 'Sign in failed')
+        return
+      }
+
+      router.push(nextPath())
+    } catch (error) {
+      console.error('Sign in error:', error)
+      setError('Error signing in. Please try again.')
+    } finally {
+      setIsSigningIn(false)
+    }
+  }
+
+  return (
+    <div className="p-8 max-w-md mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold mb-2">Student Sign In</h1>
+        <p className="text-gray-400">Sign in with the details from your instructor so your interviews count towards your grade</p>
+      </div>
+
+      <form onSubmit={handleSignIn} className="space-y-4">
+        <div>
+          <label className="block mb-1 font-medium text-sm">Student ID or Email</label>
+          <input
+            type="text"
+            autoComplete="username"
+            value={identifier}
+            onChange={e => setIdentifier(e.target.value)}
+            className="w-full px-4 py-2 border rounded focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </div>
+
+        <div>
+          <label className="block mb-1 font-medium text-sm">Password</label>
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            className="w-full px-4 py-2 border rounded focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSigningIn}
+          className="w-full bg-indigo-600 text-white py-3 rounded hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium"
+        >
+          {isSigningIn ? 'Signing in...' : 'Sign In'}
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -1,8 +1,29 @@
 // File: src/app/page.tsx
 'use client'
 
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
+import { runInBackground } from '@/lib/jobs/client'
+
+interface ProjectSummary {
+  projectId: string
+  name: string
+  domain: string
+  stories: string
+  personas: unknown[]
+  projectOutline?: string
+  requirements: string[]
+  requirementOwners?: Record<string, string[]>
+  conflicts?: unknown[]
+  references?: unknown[]
+  metadata?: Record<string, unknown>
+  createdAt: string
+}
+
+// What /api/generate-personas answers with
+type GeneratedProject = Pick<
+  ProjectSummary, 'personas' | 'projectOutline' | 'requirements' | 'requirementOwners' | 'references' | 'metadata'
+>
 
 export default function InstructorPage() {
   const [projectName, setProjectName] = useState('')
@@ -11,8 +32,56 @@ export default function InstructorPage() {
   const [stories, setStories] = useState('')
   const [personaCount, setPersonaCount] = useState(3)
   const [isGenerating, setIsGenerating] = useState(false)
+  const [generationStep, setGenerationStep] = useState('')
+  const [projects, setProjects] = useState<ProjectSummary[]>([])
   const router = useRouter()
 
+  useEffect(() => {
+    fetch('/api/projects')
+      .then(res => {
+        // Projects carry the answer key, so listing them needs the instructor password
+        if (res.status === 401) {
+          router.push('/instructor-login?next=/')
+          return { projects: [] }
+        }
+        return res.ok ? res.json() : { projects: [] }
+      })
+      .then(data => setProjects(data.projects || []))
+      .catch(error => console.error('Error loading projects:', error))
+  }, [router])
+
+  // Later pages read the project from sessionStorage; the server copy stays authoritative
+  const openProject = (project: ProjectSummary) => {
+    sessionStorage.setItem('projectId', project.projectId)
+    sessionStorage.setItem('personas', JSON.stringify({
+      personas: project.personas,
+      projectOutline: project.projectOutline,
+      requirements: project.requirements,
+      requirementOwners: project.requirementOwners,
+      conflicts: project.conflicts,
+      references: project.references,
+      metadata: project.metadata
+    }))
+    sessionStorage.setItem('originalRequest', JSON.stringify({
+      projectName: project.name,
+      domain: project.domain,
+      stories: project.stories,
+      count: project.personas.length
+    }))
+    router.push('/personas')
+  }
+
+  const archiveProject = async (project: ProjectSummary) => {
+    if (!confirm(`Archive "${project.name}"? Students will no longer be able to interview its personas.`)) return
+
+    const res = await fetch(`/api/projects/${project.projectId}`, { method: 'DELETE' })
+    if (!res.ok) {
+      alert('Error archiving project. Please try again.')
+      return
+    }
+    setProjects(projects.filter(p => p.projectId !== project.projectId))
+  }
+
   const handleGenerate = async () => {
     const effectiveDomain = domain === 'Custom' ? customDomain.trim() : domain
     const payload = {
@@ -39,21 +108,41 @@ export default function InstructorPage() {
     }
 
     setIsGenerating(true)
+    setGenerationStep('')
 
     try {
-      const res = await fetch('/api/generate-personas', {
+      // Runs as a background job, so a slow generation can't hit the request timeout
+      const responseData = await runInBackground<GeneratedProject>('/api/generate-personas', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload),
+      }, setGenerationStep)
+
+      // Every generation starts a new project, even if another instructor used the same name
+      const projectRes = await fetch('/api/projects', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: payload.projectName,
+          domain: payload.domain,
+          stories: payload.stories,
+          personas: responseData.personas,
+          projectOutline: responseData.projectOutline,
+          requirements: responseData.requirements,
+          requirementOwners: responseData.requirementOwners,
+          references: responseData.references,
+          metadata: responseData.metadata
+        }),
       })
 
-      if (!res.ok) {
-        throw new Error('Network response was not ok')
+      if (!projectRes.ok) {
+        throw new Error('Failed to save project')
       }
 
-      const responseData = await res.json()
+      const { project } = await projectRes.json()
 
       // Store both the personas data and the original request for regeneration
+      sessionStorage.setItem('projectId', project.projectId)
       sessionStorage.setItem('personas', JSON.stringify(responseData))
       sessionStorage.setItem('originalRequest', JSON.stringify(payload))
 
@@ -170,12 +259,42 @@ export default function InstructorPage() {
 
         {isGenerating && (
           <div className="text-center text-sm text-gray-500">
-            <p>🔍 Searching for similar projects on GitHub...</p>
-            <p>📖 Analyzing README files for context...</p>
-            <p>👥 Creating realistic personas...</p>
+            <p>{generationStep ? `${generationStep}...` : 'Starting...'}</p>
           </div>
         )}
       </div>
+
+      {projects.length > 0 && (
+        <div className="mt-10">
+          <h2 className="text-xl font-semibold mb-3">Your Projects</h2>
+          <div className="space-y-2">
+            {projects.map(project => (
+              <div key={project.projectId} className="flex items-center justify-between border rounded px-4 py-3">
+                <div>
+                  <div className="font-medium">{project.name}</div>
+                  <div className="text-sm text-gray-400">
+                    {project.domain} · {project.personas.length} personas · created {new Date(project.createdAt).toLocaleDateString()}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => openProject(project)}
+                    className="px-3 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700 text-sm"
+                  >
+                    Open
+                  </button>
+                  <button
+                    onClick={() => archiveProject(project)}
+                    className="px-3 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 text-sm"
+                  >
+                    Archive
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -1,7 +1,8 @@
 'use client'
 import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
-import { Navigation } from '../components/Navigation'
+import { interviewUrl, Navigation } from '../components/Navigation'
+import { runInBackground } from '@/lib/jobs/client'
 
 interface Persona {
   name: string
@@ -10,8 +11,33 @@ interface Persona {
   goal: string
   concerns: string
   personality: string
+  hiddenFacts?: HiddenFact[]
 }
 
+interface HiddenFact {
+  id: string
+  topic: string
+  fact: string
+  keywords: string[]
+  revealWhen: 'asked' | 'follow-up' | 'rapport'
+}
+
+const REVEAL_LABELS: Record<HiddenFact['revealWhen'], string> = {
+  asked: 'when asked directly',
+  'follow-up': 'on follow-up',
+  rapport: 'after rapport'
+}
+
+interface StakeholderConflict {
+  id: string
+  topic: string
+  requirement?: string
+  sides: [{ persona: string, position: string }, { persona: string, position: string }]
+  keywords: string[]
+}
+
+const EMPTY_CONFLICT = { first: '', firstPosition: '', second: '', secondPosition: '', topic: '', requirement: '', keywords: '' }
+
 interface Reference {
   name: string
   url: string
@@ -22,6 +48,8 @@ interface PersonaData {
   personas: Persona[]
   projectOutline?: string
   requirements?: string[]
+  requirementOwners?: Record<string, string[]> // Requirement text to the personas who know it
+  conflicts?: StakeholderConflict[]
   references?: Reference[]
   metadata?: {
     searchQuery: string
@@ -36,6 +64,31 @@ interface DeletedRequirement {
   timestamp: number
 }
 
+interface Assignment {
+  assignmentId: string
+  sectionId?: string
+  title: string
+  instructions?: string
+  joinCode: string
+  status: 'open' | 'closed'
+  createdAt: string
+}
+
+type RubricCriterion = 'coverage' | 'questionQuality' | 'personaBreadth' | 'followUpDepth' | 'extractionAccuracy' | 'conflictExploration'
+
+interface Rubric {
+  criteria: { criterion: RubricCriterion, weight: number }[]
+  bands: { grade: string, label: string, minScore: number, minimums?: Partial<Record<RubricCriterion, number>> }[]
+  qualityPenalties: { below: number, multiplier: number }[]
+}
+
+interface CourseSections {
+  courseId: string
+  name: string
+  term?: string
+  sections: { sectionId: string, name: string }[]
+}
+
 interface ArchivedSession {
   id: string
   personas: Persona[]
@@ -58,12 +111,28 @@ export default function PersonasPage() {
   // New state for delete confirmation and undo
   const [deleteConfirm, setDeleteConfirm] = useState<{show: boolean, index: number}>({show: false, index: -1})
   const [deletedRequirements, setDeletedRequirements] = useState<DeletedRequirement[]>([])
+  const [conflictDraft, setConflictDraft] = useState(EMPTY_CONFLICT)
   const [showUndoNotification, setShowUndoNotification] = useState(false)
 
   // New state for archived sessions
   const [showArchivesModal, setShowArchivesModal] = useState(false)
   const [archivedSessions, setArchivedSessions] = useState<ArchivedSession[]>([])
 
+  // Assignments publish the project to students under a join code
+  const [showAssignmentsModal, setShowAssignmentsModal] = useState(false)
+  const [assignments, setAssignments] = useState<Assignment[]>([])
+  const [assignmentTitle, setAssignmentTitle] = useState('')
+  const [assignmentInstructions, setAssignmentInstructions] = useState('')
+  const [assignmentSectionId, setAssignmentSectionId] = useState('')
+  const [courses, setCourses] = useState<CourseSections[]>([])
+  const [isPublishing, setIsPublishing] = useState(false)
+
+  // The rubric being edited for one assignment; criteria describes what each criterion measures
+  const [rubricAssignmentId, setRubricAssignmentId] = useState<string | null>(null)
+  const [rubricDraft, setRubricDraft] = useState<Rubric | null>(null)
+  const [rubricCriteria, setRubricCriteria] = useState<Record<RubricCriterion, { label: string, description: string }> | null>(null)
+  const [rubricStatus, setRubricStatus] = useState<{ isDefault: boolean, errors: string[], saved?: boolean } | null>(null)
+
   const router = useRouter()
 
   useEffect(() => {
@@ -113,11 +182,33 @@ export default function PersonasPage() {
     setDeletedRequirements([])
   }
 
-  const handleSaveRequirements = () => {
+  // The server-side project is the copy students and the dashboard see; sessionStorage only caches it
+  const saveProject = async (changes: Partial<PersonaData>) => {
+    const projectId = sessionStorage.getItem('projectId')
+    if (!projectId) return
+
+    const res = await fetch(`/api/projects/${projectId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    })
+    if (!res.ok) {
+      throw new Error('Failed to save project')
+    }
+  }
+
+  const handleSaveRequirements = async () => {
     const updatedData = {
       ...data,
       requirements: editableRequirements
     }
+    try {
+      await saveProject({ requirements: editableRequirements })
+    } catch (error) {
+      console.error('Error saving requirements:', error)
+      alert('Error saving requirements. Please try again.')
+      return
+    }
     setData(updatedData)
     sessionStorage.setItem('personas', JSON.stringify(updatedData))
     setIsEditingRequirements(false)
@@ -125,6 +216,42 @@ export default function PersonasPage() {
     setDeletedRequirements([])
   }
 
+  const saveConflicts = async (conflicts: StakeholderConflict[]) => {
+    try {
+      await saveProject({ conflicts })
+    } catch (error) {
+      console.error('Error saving conflicts:', error)
+      alert('Error saving conflicts. Please try again.')
+      return false
+    }
+    const updatedData = { ...data, conflicts }
+    setData(updatedData)
+    sessionStorage.setItem('personas', JSON.stringify(updatedData))
+    return true
+  }
+
+  const handleAddConflict = async () => {
+    const { first, firstPosition, second, secondPosition, topic, requirement, keywords } = conflictDraft
+    if (!first || !second || first === second || !topic.trim() || !firstPosition.trim() || !secondPosition.trim()) {
+      alert('Pick two different personas and fill in the topic and both positions.')
+      return
+    }
+    const conflict: StakeholderConflict = {
+      id: crypto.randomUUID(),
+      topic: topic.trim(),
+      requirement: requirement || undefined,
+      sides: [{ persona: first, position: firstPosition.trim() }, { persona: second, position: secondPosition.trim() }],
+      keywords: keywords.split(',').map(k => k.trim().toLowerCase()).filter(Boolean)
+    }
+    if (await saveConflicts([...(data.conflicts || []), conflict])) {
+      setConflictDraft(EMPTY_CONFLICT)
+    }
+  }
+
+  const handleDeleteConflict = (id: string) => {
+    saveConflicts((data.conflicts || []).filter(c => c.id !== id))
+  }
+
   const handleCancelEdit = () => {
     setIsEditingRequirements(false)
     setEditableRequirements(data.requirements || [])
@@ -281,20 +408,24 @@ export default function PersonasPage() {
       // Include custom requirements in the regeneration request
       const regenerateRequest = {
         ...originalRequest,
-        customRequirements: customRequirements.length > 0 ? customRequirements : undefined
+        customRequirements: customRequirements.length > 0 ? customRequirements : undefined,
+        projectId: sessionStorage.getItem('projectId') || undefined
       }
 
-      const res = await fetch('/api/generate-personas', {
+      const newData = await runInBackground<PersonaData>('/api/generate-personas', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(regenerateRequest),
       })
-
-      if (!res.ok) {
-        throw new Error('Failed to regenerate personas')
-      }
-
-      const newData = await res.json()
+      await saveProject({
+        personas: newData.personas,
+        projectOutline: newData.projectOutline,
+        requirements: newData.requirements,
+        requirementOwners: newData.requirementOwners,
+        conflicts: [], // Declared between the old personas
+        references: newData.references,
+        metadata: newData.metadata
+      })
       setData(newData)
       setEditableRequirements(newData.requirements || [])
 
@@ -339,7 +470,169 @@ export default function PersonasPage() {
     }
   }
 
-  const { personas, projectOutline, requirements, references, metadata } = data
+  const openAssignments = async () => {
+    const projectId = sessionStorage.getItem('projectId')
+    if (!projectId) {
+      alert('This project has not been saved yet. Generate it again from the home page to publish it.')
+      return
+    }
+    setShowAssignmentsModal(true)
+
+    try {
+      const [res, coursesRes] = await Promise.all([
+        fetch(`/api/assignments?projectId=${encodeURIComponent(projectId)}`),
+        fetch('/api/courses')
+      ])
+      if (!res.ok || !coursesRes.ok) throw new Error('Failed to load assignments')
+      setAssignments((await res.json()).assignments)
+      setCourses((await coursesRes.json()).courses)
+    } catch (error) {
+      console.error('Error loading assignments:', error)
+    }
+  }
+
+  const publishAssignment = async () => {
+    const projectId = sessionStorage.getItem('projectId')
+    const title = assignmentTitle.trim() || originalRequest?.projectName || 'Interview assignment'
+    setIsPublishing(true)
+
+    try {
+      const res = await fetch('/api/assignments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId,
+          sectionId: assignmentSectionId || undefined,
+          title,
+          instructions: assignmentInstructions.trim() || undefined
+        }),
+      })
+      if (!res.ok) throw new Error('Failed to publish assignment')
+
+      const { assignment } = await res.json()
+      setAssignments([assignment, ...assignments])
+      setAssignmentTitle('')
+      setAssignmentInstructions('')
+    } catch (error) {
+      console.error('Error publishing assignment:', error)
+      alert('Error publishing assignment. Please try again.')
+    } finally {
+      setIsPublishing(false)
+    }
+  }
+
+  const setAssignmentStatus = async (assignment: Assignment, status: Assignment['status']) => {
+    try {
+      const res = await fetch(`/api/assignments/${assignment.assignmentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      })
+      if (!res.ok) throw new Error('Failed to update assignment')
+
+      const { assignment: updated } = await res.json()
+      setAssignments(assignments.map(a => a.assignmentId === updated.assignmentId ? updated : a))
+    } catch (error) {
+      console.error('Error updating assignment:', error)
+      alert('Error updating assignment. Please try again.')
+    }
+  }
+
+  const openRubric = async (assignmentId: string) => {
+    if (rubricAssignmentId === assignmentId) {
+      setRubricAssignmentId(null)
+      return
+    }
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/rubric`)
+      if (!res.ok) throw new Error('Failed to load rubric')
+      const data = await res.json()
+      setRubricDraft(data.rubric)
+      setRubricCriteria(data.criteria)
+      setRubricStatus({ isDefault: data.isDefault, errors: [] })
+      setRubricAssignmentId(assignmentId)
+    } catch (error) {
+      console.error('Error loading rubric:', error)
+      alert('Error loading rubric. Please try again.')
+    }
+  }
+
+  const criterionWeight = (criterion: RubricCriterion) =>
+    rubricDraft?.criteria.find(c => c.criterion === criterion)?.weight ?? 0
+
+  // A weight of 0 leaves the criterion out of the score; it can still be a band minimum
+  const setCriterionWeight = (criterion: RubricCriterion, weight: number) => {
+    if (!rubricDraft) return
+    const others = rubricDraft.criteria.filter(c => c.criterion !== criterion)
+    setRubricDraft({ ...rubricDraft, criteria: weight > 0 ? [...others, { criterion, weight }] : others })
+  }
+
+  const updateBand = (index: number, changes: Partial<Rubric['bands'][number]>) => {
+    if (!rubricDraft) return
+    setRubricDraft({ ...rubricDraft, bands: rubricDraft.bands.map((band, i) => i === index ? { ...band, ...changes } : band) })
+  }
+
+  const setBandMinimum = (index: number, criterion: RubricCriterion, value: string) => {
+    if (!rubricDraft) return
+    const minimums = { ...rubricDraft.bands[index].minimums }
+    if (value === '') delete minimums[criterion]
+    else minimums[criterion] = Number(value)
+    updateBand(index, { minimums })
+  }
+
+  const updatePenalty = (index: number, changes: Partial<Rubric['qualityPenalties'][number]>) => {
+    if (!rubricDraft) return
+    setRubricDraft({
+      ...rubricDraft,
+      qualityPenalties: rubricDraft.qualityPenalties.map((penalty, i) => i === index ? { ...penalty, ...changes } : penalty)
+    })
+  }
+
+  const saveRubric = async () => {
+    if (!rubricAssignmentId || !rubricDraft) return
+    try {
+      const res = await fetch(`/api/assignments/${rubricAssignmentId}/rubric`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rubric: rubricDraft }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setRubricStatus({ isDefault: false, errors: data.details || [data.error] })
+        return
+      }
+      setRubricDraft(data.rubric)
+      setRubricStatus({ isDefault: false, errors: [], saved: true })
+    } catch (error) {
+      console.error('Error saving rubric:', error)
+      setRubricStatus({ isDefault: false, errors: ['Failed to save rubric. Please try again.'] })
+    }
+  }
+
+  const resetRubric = async () => {
+    if (!rubricAssignmentId) return
+    try {
+      const res = await fetch(`/api/assignments/${rubricAssignmentId}/rubric`, { method: 'DELETE' })
+      if (!res.ok) throw new Error('Failed to reset rubric')
+      setRubricDraft((await res.json()).rubric)
+      setRubricStatus({ isDefault: true, errors: [] })
+    } catch (error) {
+      console.error('Error resetting rubric:', error)
+      alert('Error resetting rubric. Please try again.')
+    }
+  }
+
+  const joinLink = (assignment: Assignment) => `${window.location.origin}/join?code=${assignment.joinCode}`
+
+  const sectionLabel = (sectionId?: string) => {
+    for (const course of courses) {
+      const section = course.sections.find(s => s.sectionId === sectionId)
+      if (section) return `${course.name} • ${section.name}`
+    }
+    return null
+  }
+
+  const { personas, projectOutline, requirements, requirementOwners, conflicts, references, metadata } = data
 
   return (
     <div className="p-8 max-w-6xl mx-auto">
@@ -359,7 +652,13 @@ export default function PersonasPage() {
             📊 View Student Progress
           </button>
           <button
-            onClick={() => window.open('/interview', '_blank')}
+            onClick={openAssignments}
+            className="px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-700 flex items-center gap-2"
+          >
+            📣 Publish to Students
+          </button>
+          <button
+            onClick={() => window.open(interviewUrl(), '_blank')}
             className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 flex items-center gap-2"
           >
             💬 Start Interview
@@ -435,7 +734,12 @@ export default function PersonasPage() {
               (requirements || editableRequirements).map((req, i) => (
                 <li key={i} className="flex items-start">
                   <span className="text-green-600 mr-2">•</span>
-                  <span className="text-gray-700">{req}</span>
+                  <span className="text-gray-700">
+                    {req}
+                    {requirementOwners?.[req]?.length ? (
+                      <span className="ml-2 text-xs text-gray-500">Known by {requirementOwners[req].join(', ')}</span>
+                    ) : null}
+                  </span>
                 </li>
               ))
             ) : (
@@ -512,10 +816,104 @@ export default function PersonasPage() {
               <p className="text-black"><strong className="text-red-700">Concerns:</strong> {p.concerns}</p>
               <p className="text-black"><strong className="text-blue-700">Personality:</strong> {p.personality}</p>
             </div>
+            {p.hiddenFacts && p.hiddenFacts.length > 0 && (
+              <div className="mt-3 pt-3 border-t text-sm">
+                <p className="font-semibold text-purple-700 mb-1">Hidden knowledge (students must earn it)</p>
+                <ul className="space-y-1">
+                  {p.hiddenFacts.map(fact => (
+                    <li key={fact.id} className="text-black">
+                      <strong>{fact.topic}</strong>
+                      <span className="text-xs text-gray-500"> ({REVEAL_LABELS[fact.revealWhen]})</span>: {fact.fact}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         ))}
       </div>
 
+      {/* Stakeholder Conflicts Section */}
+      {personas.length >= 2 && (
+        <div className="mb-8 p-6 bg-orange-50 border border-orange-200 rounded-lg">
+          <h2 className="text-xl font-semibold mb-1 text-orange-800">Stakeholder Conflicts</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Two personas who hold opposing positions and argue them throughout the interview. Grading checks whether the student noticed and explored each one.
+          </p>
+          {conflicts && conflicts.length > 0 ? (
+            <ul className="space-y-3 mb-4">
+              {conflicts.map(c => (
+                <li key={c.id} className="flex items-start justify-between gap-4 text-sm text-black">
+                  <div>
+                    <strong>{c.topic}</strong>
+                    {c.requirement && <span className="text-xs text-gray-500"> (requirement: {c.requirement})</span>}
+                    <div><span className="font-medium">{c.sides[0].persona}:</span> {c.sides[0].position}</div>
+                    <div><span className="font-medium">{c.sides[1].persona}:</span> {c.sides[1].position}</div>
+                  </div>
+                  <button
+                    onClick={() => handleDeleteConflict(c.id)}
+                    className="px-2 py-1 bg-red-500 text-white text-sm rounded hover:bg-red-600"
+                  >
+                    Delete
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-500 italic text-sm mb-4">No conflicts declared.</p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+            <input
+              type="text"
+              value={conflictDraft.topic}
+              onChange={(e) => setConflictDraft({ ...conflictDraft, topic: e.target.value })}
+              placeholder="What they disagree about, e.g. Password rules"
+              className="px-2 py-1 border border-gray-300 rounded text-gray-700"
+            />
+            <select
+              value={conflictDraft.requirement}
+              onChange={(e) => setConflictDraft({ ...conflictDraft, requirement: e.target.value })}
+              className="px-2 py-1 border border-gray-300 rounded text-gray-700"
+            >
+              <option value="">No particular requirement</option>
+              {(requirements || []).map(req => <option key={req} value={req}>{req}</option>)}
+            </select>
+            {(['first', 'second'] as const).map(side => (
+              <div key={side} className="flex flex-col gap-1">
+                <select
+                  value={conflictDraft[side]}
+                  onChange={(e) => setConflictDraft({ ...conflictDraft, [side]: e.target.value })}
+                  className="px-2 py-1 border border-gray-300 rounded text-gray-700"
+                >
+                  <option value="">Choose a persona</option>
+                  {personas.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                </select>
+                <input
+                  type="text"
+                  value={conflictDraft[`${side}Position`]}
+                  onChange={(e) => setConflictDraft({ ...conflictDraft, [`${side}Position`]: e.target.value })}
+                  placeholder="Their position"
+                  className="px-2 py-1 border border-gray-300 rounded text-gray-700"
+                />
+              </div>
+            ))}
+            <input
+              type="text"
+              value={conflictDraft.keywords}
+              onChange={(e) => setConflictDraft({ ...conflictDraft, keywords: e.target.value })}
+              placeholder="Keywords, comma separated (optional)"
+              className="px-2 py-1 border border-gray-300 rounded text-gray-700"
+            />
+            <button
+              onClick={handleAddConflict}
+              className="px-3 py-1 bg-orange-600 text-white text-sm rounded hover:bg-orange-700"
+            >
+              Add Conflict
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* References Section */}
       {references && references.length > 0 && (
         <div className="p-6 bg-gray-50 border border-gray-200 rounded-lg">
@@ -677,6 +1075,243 @@ export default function PersonasPage() {
         </div>
       )}
 
+      {/* Assignments Modal */}
+      {showAssignmentsModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-11/12 max-w-2xl shadow-lg rounded-md bg-white">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-bold text-gray-900">Publish to Students</h3>
+              <button
+                onClick={() => setShowAssignmentsModal(false)}
+                className="text-gray-400 hover:text-gray-500"
+              >
+                <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-600 mb-4">
+              Students open the link or enter the code at /join, sign in, and interview these personas with your saved interview settings.
+            </p>
+
+            <div className="space-y-3 mb-6">
+              <input
+                type="text"
+                value={assignmentTitle}
+                onChange={(e) => setAssignmentTitle(e.target.value)}
+                placeholder={originalRequest?.projectName || 'Assignment title'}
+                className="w-full px-3 py-2 border border-gray-300 rounded text-black"
+              />
+              <textarea
+                value={assignmentInstructions}
+                onChange={(e) => setAssignmentInstructions(e.target.value)}
+                placeholder="Instructions for students (optional)"
+                className="w-full px-3 py-2 border border-gray-300 rounded text-black h-20"
+              />
+              <select
+                value={assignmentSectionId}
+                onChange={(e) => setAssignmentSectionId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded text-black"
+              >
+                <option value="">No course section</option>
+                {courses.flatMap(course => course.sections.map(section => (
+                  <option key={section.sectionId} value={section.sectionId}>
+                    {course.name}{course.term ? ` (${course.term})` : ''} • {section.name}
+                  </option>
+                )))}
+              </select>
+              <button
+                onClick={publishAssignment}
+                disabled={isPublishing}
+                className="px-4 py-2 bg-amber-600 text-white rounded hover:bg-amber-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {isPublishing ? 'Publishing...' : 'Create Join Code'}
+              </button>
+            </div>
+
+            {assignments.length > 0 && (
+              <div className="space-y-3 max-h-80 overflow-y-auto">
+                {assignments.map((assignment) => (
+                  <div key={assignment.assignmentId} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex justify-between items-start">
+                      <div className="flex-1">
+                        <h4 className="font-semibold text-gray-900">{assignment.title}</h4>
+                        <p className="text-2xl font-mono tracking-widest text-gray-900 mt-1">{assignment.joinCode}</p>
+                        <p className="text-xs text-gray-500 mt-1 break-all">{joinLink(assignment)}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {assignment.status === 'open' ? '🟢 Open' : '⚪ Closed'} • created {new Date(assignment.createdAt).toLocaleString()}
+                          {sectionLabel(assignment.sectionId) && ` • ${sectionLabel(assignment.sectionId)}`}
+                        </p>
+                      </div>
+                      <div className="flex gap-2 ml-4">
+                        <button
+                          onClick={() => navigator.clipboard.writeText(joinLink(assignment))}
+                          className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700"
+                        >
+                          Copy Link
+                        </button>
+                        <button
+                          onClick={() => openRubric(assignment.assignmentId)}
+                          className="px-3 py-1 bg-purple-600 text-white text-sm rounded hover:bg-purple-700"
+                        >
+                          Rubric
+                        </button>
+                        <button
+                          onClick={() => setAssignmentStatus(assignment, assignment.status === 'open' ? 'closed' : 'open')}
+                          className="px-3 py-1 bg-gray-600 text-white text-sm rounded hover:bg-gray-700"
+                        >
+                          {assignment.status === 'open' ? 'Close' : 'Reopen'}
+                        </button>
+                      </div>
+                    </div>
+
+                    {rubricAssignmentId === assignment.assignmentId && rubricDraft && rubricCriteria && (
+                      <div className="mt-4 pt-4 border-t border-gray-200 space-y-4 text-sm text-gray-700">
+                        <p className="text-xs text-gray-500">
+                          {rubricStatus?.isDefault ? 'Using the default rubric.' : 'Custom rubric for this assignment.'} Every criterion is scored 0-100.
+                          Sessions already analyzed keep their grade until they are analyzed again.
+                        </p>
+
+                        <div>
+                          <h5 className="font-semibold text-gray-900 mb-2">Criteria weights</h5>
+                          {(Object.keys(rubricCriteria) as RubricCriterion[]).map(criterion => (
+                            <div key={criterion} className="flex items-center gap-3 mb-1">
+                              <input
+                                type="number"
+                                min={0}
+                                value={criterionWeight(criterion)}
+                                onChange={(e) => setCriterionWeight(criterion, Math.max(0, Number(e.target.value) || 0))}
+                                className="w-16 px-2 py-1 border border-gray-300 rounded text-black"
+                              />
+                              <span title={rubricCriteria[criterion].description}>{rubricCriteria[criterion].label}</span>
+                            </div>
+                          ))}
+                        </div>
+
+                        <div>
+                          <h5 className="font-semibold text-gray-900 mb-2">Letter bands (best first)</h5>
+                          <div className="overflow-x-auto">
+                            <table className="text-xs">
+                              <thead>
+                                <tr className="text-left text-gray-500">
+                                  <th className="pr-2">Grade</th>
+                                  <th className="pr-2">Label</th>
+                                  <th className="pr-2">Min score</th>
+                                  {(Object.keys(rubricCriteria) as RubricCriterion[]).map(criterion => (
+                                    <th key={criterion} className="pr-2" title={`Minimum ${rubricCriteria[criterion].label}`}>
+                                      Min {rubricCriteria[criterion].label.toLowerCase()}
+                                    </th>
+                                  ))}
+                                  <th />
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {rubricDraft.bands.map((band, index) => (
+                                  <tr key={index}>
+                                    <td className="pr-2 py-1">
+                                      <input value={band.grade} onChange={(e) => updateBand(index, { grade: e.target.value })}
+                                        className="w-12 px-1 py-1 border border-gray-300 rounded text-black" />
+                                    </td>
+                                    <td className="pr-2 py-1">
+                                      <input value={band.label} onChange={(e) => updateBand(index, { label: e.target.value })}
+                                        className="w-28 px-1 py-1 border border-gray-300 rounded text-black" />
+                                    </td>
+                                    <td className="pr-2 py-1">
+                                      <input type="number" min={0} max={100} value={band.minScore}
+                                        onChange={(e) => updateBand(index, { minScore: Number(e.target.value) })}
+                                        className="w-16 px-1 py-1 border border-gray-300 rounded text-black" />
+                                    </td>
+                                    {(Object.keys(rubricCriteria) as RubricCriterion[]).map(criterion => (
+                                      <td key={criterion} className="pr-2 py-1">
+                                        <input type="number" min={0} max={100} value={band.minimums?.[criterion] ?? ''}
+                                          onChange={(e) => setBandMinimum(index, criterion, e.target.value)}
+                                          className="w-16 px-1 py-1 border border-gray-300 rounded text-black" />
+                                      </td>
+                                    ))}
+                                    <td className="py-1">
+                                      <button
+                                        onClick={() => setRubricDraft({ ...rubricDraft, bands: rubricDraft.bands.filter((_, i) => i !== index) })}
+                                        className="text-red-600 hover:text-red-800"
+                                      >
+                                        ✕
+                                      </button>
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+                          <button
+                            onClick={() => setRubricDraft({ ...rubricDraft, bands: [...rubricDraft.bands, { grade: '', label: '', minScore: 0 }] })}
+                            className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+                          >
+                            + Add band
+                          </button>
+                        </div>
+
+                        <div>
+                          <h5 className="font-semibold text-gray-900 mb-2">Question quality penalties on coverage</h5>
+                          {rubricDraft.qualityPenalties.map((penalty, index) => (
+                            <div key={index} className="flex items-center gap-2 mb-1">
+                              <span>Quality below</span>
+                              <input type="number" min={0} max={100} value={penalty.below}
+                                onChange={(e) => updatePenalty(index, { below: Number(e.target.value) })}
+                                className="w-16 px-1 py-1 border border-gray-300 rounded text-black" />
+                              <span>multiplies coverage by</span>
+                              <input type="number" min={0} max={1} step={0.05} value={penalty.multiplier}
+                                onChange={(e) => updatePenalty(index, { multiplier: Number(e.target.value) })}
+                                className="w-16 px-1 py-1 border border-gray-300 rounded text-black" />
+                              <button
+                                onClick={() => setRubricDraft({ ...rubricDraft, qualityPenalties: rubricDraft.qualityPenalties.filter((_, i) => i !== index) })}
+                                className="text-red-600 hover:text-red-800"
+                              >
+                                ✕
+                              </button>
+                            </div>
+                          ))}
+                          <button
+                            onClick={() => setRubricDraft({ ...rubricDraft, qualityPenalties: [...rubricDraft.qualityPenalties, { below: 60, multiplier: 1 }] })}
+                            className="text-xs text-blue-600 hover:text-blue-800"
+                          >
+                            + Add penalty
+                          </button>
+                        </div>
+
+                        {rubricStatus && rubricStatus.errors.length > 0 && (
+                          <ul className="text-xs text-red-600 list-disc pl-5">
+                            {rubricStatus.errors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                        )}
+                        {rubricStatus?.saved && <p className="text-xs text-green-600">Rubric saved.</p>}
+
+                        <div className="flex gap-2">
+                          <button onClick={saveRubric} className="px-3 py-1 bg-purple-600 text-white rounded hover:bg-purple-700">
+                            Save Rubric
+                          </button>
+                          <button onClick={resetRubric} className="px-3 py-1 bg-gray-200 text-gray-800 rounded hover:bg-gray-300">
+                            Reset to Default
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-end">
+              <button
+                onClick={() => setShowAssignmentsModal(false)}
+                className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Regenerate Modal */}
       {showRegenerateModal && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
@@ -0,0 +1,135 @@
+import { randomInt, randomUUID } from 'crypto'
+import { getStorage } from './storage'
+
+/**
+ * A project published to a class. Students join with its code (or the /join link carrying it)
+ * and interview the project's personas under its instructor settings from any machine.
+ */
+export interface Assignment {
+  assignmentId: string
+  projectId: string
+  sectionId?: string // The course section it was set for; see courses.ts
+  title: string
+  instructions?: string
+  joinCode: string
+  status: 'open' | 'closed'
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type AssignmentInput = Pick<Assignment, 'projectId' | 'title'> & Partial<Pick<Assignment, 'sectionId' | 'instructions'>>
+
+export type AssignmentUpdate = Partial<Pick<Assignment, 'sectionId' | 'title' | 'instructions' | 'status'>>
+
+export interface AssignmentFilter {
+  projectId?: string
+  sectionId?: string
+}
+
+const ASSIGNMENTS = 'assignments'
+
+// No 0/O or 1/I/L, so codes read aloud or copied from a projector come out right
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+const JOIN_CODE_LENGTH = 6
+
+function revive(assignment: Assignment): Assignment {
+  return {
+    ...assignment,
+    createdAt: new Date(assignment.createdAt),
+    updatedAt: new Date(assignment.updatedAt)
+  }
+}
+
+// Students type codes by hand, so ignore case and stray spaces or dashes
+export function normalizeJoinCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '')
+}
+
+async function generateJoinCode(): Promise<string> {
+  const taken = new Set((await getStorage().list<Assignment>(ASSIGNMENTS)).map(a => a.joinCode))
+  for (;;) {
+    const code = Array.from({ length: JOIN_CODE_LENGTH },
+      () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]).join('')
+    if (!taken.has(code)) return code
+  }
+}
+
+export function validateAssignmentInput(input: unknown, partial = false): string[] {
+  const errors: string[] = []
+  if (!input || typeof input !== 'object') return ['Assignment must be an object']
+  const raw = input as Record<string, unknown>
+
+  if (!partial && (typeof raw.projectId !== 'string' || !raw.projectId)) {
+    errors.push('projectId is required')
+  }
+  if ((raw.title !== undefined || !partial) && (typeof raw.title !== 'string' || !raw.title.trim())) {
+    errors.push('title is required')
+  }
+  if (raw.sectionId !== undefined && raw.sectionId !== null && typeof raw.sectionId !== 'string') {
+    errors.push('sectionId must be a section ID')
+  }
+  if (raw.instructions !== undefined && typeof raw.instructions !== 'string') {
+    errors.push('instructions must be text')
+  }
+  if (raw.status !== undefined && raw.status !== 'open' && raw.status !== 'closed') {
+    errors.push('status must be "open" or "closed"')
+  }
+  return errors
+}
+
+export async function createAssignment(input: AssignmentInput): Promise<Assignment> {
+  const now = new Date()
+  const assignment: Assignment = {
+    assignmentId: randomUUID(),
+    projectId: input.projectId,
+    sectionId: input.sectionId || undefined,
+    title: input.title.trim(),
+    instructions: input.instructions?.trim() || undefined,
+    joinCode: await generateJoinCode(),
+    status: 'open',
+    createdAt: now,
+    updatedAt: now
+  }
+  await getStorage().put(ASSIGNMENTS, assignment.assignmentId, assignment)
+  return assignment
+}
+
+export async function getAssignment(assignmentId: string): Promise<Assignment | undefined> {
+  const assignment = await getStorage().get<Assignment>(ASSIGNMENTS, assignmentId)
+  return assignment ? revive(assignment) : undefined
+}
+
+export async function findAssignmentByCode(code: string): Promise<Assignment | undefined> {
+  const joinCode = normalizeJoinCode(code)
+  const assignments = await getStorage().list<Assignment>(ASSIGNMENTS)
+  const assignment = assignments.find(a => a.joinCode === joinCode)
+  return assignment ? revive(assignment) : undefined
+}
+
+// Newest first
+export async function listAssignments(filter: AssignmentFilter = {}): Promise<Assignment[]> {
+  const assignments = (await getStorage().list<Assignment>(ASSIGNMENTS)).map(revive)
+  return assignments
+    .filter(assignment =>
+      (!filter.projectId || assignment.projectId === filter.projectId) &&
+      (!filter.sectionId || assignment.sectionId === filter.sectionId)
+    )
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
+
+export async function updateAssignment(assignmentId: string, changes: AssignmentUpdate): Promise<Assignment | undefined> {
+  const existing = await getAssignment(assignmentId)
+  if (!existing) return undefined
+
+  const assignment: Assignment = {
+    ...existing,
+    // null moves the assignment out of its section
+    sectionId: changes.sectionId !== undefined ? changes.sectionId || undefined : existing.sectionId,
+    title: changes.title?.trim() || existing.title,
+    instructions: changes.instructions !== undefined ? changes.instructions.trim() || undefined : existing.instructions,
+    status: changes.status || existing.status,
+    updatedAt: new Date()
+  }
+  await getStorage().put(ASSIGNMENTS, assignmentId, assignment)
+  return assignment
+}
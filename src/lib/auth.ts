@@ -0,0 +1,128 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { NextResponse } from 'next/server'
+import { getStudent, Student } from './students'
+
+export const STUDENT_COOKIE = 'student_session'
+export const INSTRUCTOR_COOKIE = 'instructor_session'
+
+const SESSION_MAX_AGE = 60 * 60 * 24 * 7 // One week, in seconds
+
+// Instructor tokens are signed with this prefix, so a student's token never passes as an instructor's
+const INSTRUCTOR_AUDIENCE = 'instructor:'
+
+let warnedAboutSecret = false
+let warnedAboutInstructorPassword = false
+
+// AUTH_SECRET signs the sign-in cookie. Production refuses to run without one; development falls back
+// to a fixed secret so the app works out of the box.
+function authSecret(): string {
+  const secret = process.env.AUTH_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET is not set')
+  }
+  if (!warnedAboutSecret) {
+    console.warn('AUTH_SECRET is not set - signing student sessions with an insecure development secret')
+    warnedAboutSecret = true
+  }
+  return 'development-only-auth-secret'
+}
+
+function sign(payload: string, audience = ''): string {
+  return createHmac('sha256', authSecret()).update(`${audience}${payload}`).digest('base64url')
+}
+
+// Token format: <base64url student ID>.<expiry in epoch seconds>.<HMAC of the first two parts>
+export function createSessionToken(studentId: string, now = Date.now(), audience = ''): string {
+  const payload = `${Buffer.from(studentId).toString('base64url')}.${Math.floor(now / 1000) + SESSION_MAX_AGE}`
+  return `${payload}.${sign(payload, audience)}`
+}
+
+// Returns the student ID a token was issued for, or null if it is forged, malformed or expired
+export function verifySessionToken(token: string, now = Date.now(), audience = ''): string | null {
+  const [encodedId, expires, signature] = token.split('.')
+  if (!encodedId || !expires || !signature) return null
+
+  const expected = Buffer.from(sign(`${encodedId}.${expires}`, audience))
+  const actual = Buffer.from(signature)
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null
+  if (Number(expires) * 1000 < now) return null
+
+  return Buffer.from(encodedId, 'base64url').toString()
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.get('cookie')
+  if (!header) return undefined
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=')
+    if (key === name) return decodeURIComponent(value.join('='))
+  }
+  return undefined
+}
+
+// The signed-in student for a request, if the cookie is valid and they are still on the roster
+export async function getCurrentStudent(req: Request): Promise<Student | null> {
+  const token = readCookie(req, STUDENT_COOKIE)
+  const studentId = token ? verifySessionToken(token) : null
+  if (!studentId) return null
+  return (await getStudent(studentId)) || null
+}
+
+export function setSessionCookie(response: NextResponse, studentId: string): void {
+  response.cookies.set(STUDENT_COOKIE, createSessionToken(studentId), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE
+  })
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(STUDENT_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 })
+}
+
+// INSTRUCTOR_PASSWORD guards what only instructors may see, such as hidden facts and the requirement
+// answer key. Production refuses instructor access without one; development without one lets everyone in
+// so the app works out of the box.
+function instructorPassword(): string | undefined {
+  const password = process.env.INSTRUCTOR_PASSWORD
+  if (password) return password
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('INSTRUCTOR_PASSWORD is not set')
+  }
+  if (!warnedAboutInstructorPassword) {
+    console.warn('INSTRUCTOR_PASSWORD is not set - every visitor is treated as an instructor')
+    warnedAboutInstructorPassword = true
+  }
+  return undefined
+}
+
+export function checkInstructorPassword(password: string): boolean {
+  const expected = instructorPassword()
+  if (!expected) return true
+  const hash = (value: string) => createHmac('sha256', authSecret()).update(value).digest()
+  return timingSafeEqual(hash(password), hash(expected))
+}
+
+// Whether the request comes from a signed-in instructor
+export function isInstructor(req: Request): boolean {
+  if (!instructorPassword()) return true
+  const token = readCookie(req, INSTRUCTOR_COOKIE)
+  return !!token && verifySessionToken(token, Date.now(), INSTRUCTOR_AUDIENCE) === 'instructor'
+}
+
+export function setInstructorCookie(response: NextResponse): void {
+  response.cookies.set(INSTRUCTOR_COOKIE, createSessionToken('instructor', Date.now(), INSTRUCTOR_AUDIENCE), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE
+  })
+}
+
+export function clearInstructorCookie(response: NextResponse): void {
+  response.cookies.set(INSTRUCTOR_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 })
+}
@@ -0,0 +1,129 @@
+import type { RunnableConfig } from '@langchain/core/runnables'
+import { Checkpoint, CheckpointMetadata, MemorySaver } from '@langchain/langgraph'
+import { getStorage } from './storage'
+
+const CHECKPOINTS = 'checkpoints'
+
+// Only the latest checkpoint is resumed; a few older ones are kept for debugging a bad turn
+const KEEP_CHECKPOINTS = 3
+
+type PendingWrites = Parameters<MemorySaver['putWrites']>[1]
+
+// One LangGraph thread as persisted, with the serialized checkpoint bytes base64-encoded for JSON
+interface StoredThread {
+  threadId: string
+  checkpoints: Record<string, Record<string, [string, string, string | undefined]>>
+  writes: Record<string, Record<string, [string, string, string]>>
+}
+
+const encode = (bytes: Uint8Array) => Buffer.from(bytes).toString('base64')
+const decode = (text: string) => new Uint8Array(Buffer.from(text, 'base64'))
+
+// MemorySaver keys pending writes by JSON.stringify([threadId, namespace, checkpointId])
+function writeKeyThread(key: string): string {
+  return JSON.parse(key)[0]
+}
+
+/**
+ * LangGraph checkpointer that keeps each thread in the session store, so graph state survives
+ * restarts and is shared between server instances. A thread is loaded from storage before it is
+ * read and written back after every checkpoint.
+ */
+export class StorageCheckpointSaver extends MemorySaver {
+  async getTuple(config: RunnableConfig) {
+    await this.load(config.configurable?.thread_id)
+    return super.getTuple(config)
+  }
+
+  async *list(config: RunnableConfig, options?: Parameters<MemorySaver['list']>[1]) {
+    await this.load(config.configurable?.thread_id)
+    yield* super.list(config, options)
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata) {
+    const result = await super.put(config, checkpoint, metadata)
+    await this.save(config.configurable?.thread_id)
+    return result
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrites, taskId: string) {
+    await super.putWrites(config, writes, taskId)
+    await this.save(config.configurable?.thread_id)
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    this.forget(threadId)
+    await getStorage().delete(CHECKPOINTS, threadId)
+  }
+
+  private forget(threadId: string): void {
+    delete this.storage[threadId]
+    for (const key of Object.keys(this.writes)) {
+      if (writeKeyThread(key) === threadId) delete this.writes[key]
+    }
+  }
+
+  private async load(threadId?: string): Promise<void> {
+    if (!threadId) return
+
+    const stored = await getStorage().get<StoredThread>(CHECKPOINTS, threadId)
+    this.forget(threadId)
+    if (!stored) return
+
+    this.storage[threadId] = {}
+    for (const [namespace, checkpoints] of Object.entries(stored.checkpoints)) {
+      this.storage[threadId][namespace] = {}
+      for (const [id, [checkpoint, metadata, parentId]] of Object.entries(checkpoints)) {
+        this.storage[threadId][namespace][id] = [decode(checkpoint), decode(metadata), parentId]
+      }
+    }
+    for (const [key, writes] of Object.entries(stored.writes)) {
+      this.writes[key] = {}
+      for (const [innerKey, [taskId, channel, value]] of Object.entries(writes)) {
+        this.writes[key][innerKey] = [taskId, channel, decode(value)]
+      }
+    }
+  }
+
+  private async save(threadId?: string): Promise<void> {
+    if (!threadId) return
+
+    const stored: StoredThread = { threadId, checkpoints: {}, writes: {} }
+    const kept = new Set<string>()
+
+    for (const [namespace, checkpoints] of Object.entries(this.storage[threadId] || {})) {
+      // Checkpoint ids sort chronologically
+      const latestIds = Object.keys(checkpoints).sort((a, b) => b.localeCompare(a)).slice(0, KEEP_CHECKPOINTS)
+      stored.checkpoints[namespace] = {}
+      for (const id of latestIds) {
+        const [checkpoint, metadata, parentId] = checkpoints[id]
+        stored.checkpoints[namespace][id] = [encode(checkpoint), encode(metadata), parentId]
+        kept.add(JSON.stringify([threadId, namespace, id]))
+      }
+    }
+
+    for (const [key, writes] of Object.entries(this.writes)) {
+      if (writeKeyThread(key) !== threadId) continue
+      if (!kept.has(key)) {
+        delete this.writes[key]
+        continue
+      }
+      stored.writes[key] = {}
+      for (const [innerKey, [taskId, channel, value]] of Object.entries(writes)) {
+        stored.writes[key][innerKey] = [taskId, channel, encode(value)]
+      }
+    }
+
+    await getStorage().put(CHECKPOINTS, threadId, stored)
+  }
+}
+
+let checkpointer: StorageCheckpointSaver | null = null
+
+// Shared by every request so a session's graph state is found again on its next turn
+export function getCheckpointer(): StorageCheckpointSaver {
+  if (!checkpointer) {
+    checkpointer = new StorageCheckpointSaver()
+  }
+  return checkpointer
+}
@@ -0,0 +1,93 @@
+import { randomUUID } from 'crypto'
+import { asksAbout } from './hidden-facts'
+
+/**
+ * Disagreements an instructor builds into a project: two personas who hold opposing positions on
+ * one topic, such as security against usability on a login requirement. Each persona keeps its
+ * position for the whole interview and argues it when both are in a discussion that touches the
+ * topic, and grading checks whether the student noticed the disagreement and dug into it.
+ */
+
+export interface ConflictSide {
+  persona: string // Persona name
+  position: string // What this persona holds, in a sentence
+}
+
+export interface StakeholderConflict {
+  id: string
+  topic: string // What they disagree about, e.g. "Password rules"
+  requirement?: string // The canonical requirement it bears on
+  sides: [ConflictSide, ConflictSide]
+  keywords: string[] // Words or phrases that make a question about the conflict; the topic's own words if empty
+}
+
+// One persona's view of a conflict it takes part in
+export interface ConflictStance {
+  conflictId: string
+  topic: string
+  requirement?: string
+  keywords: string[]
+  position: string
+  opponent: string
+  opponentPosition: string
+}
+
+export function stancesOf(conflicts: StakeholderConflict[] | undefined, personaName: string): ConflictStance[] {
+  return (conflicts || []).flatMap(conflict => {
+    const index = conflict.sides.findIndex(side => side.persona === personaName)
+    if (index < 0) return []
+    const [own, other] = index === 0 ? conflict.sides : [conflict.sides[1], conflict.sides[0]]
+    return [{
+      conflictId: conflict.id,
+      topic: conflict.topic,
+      requirement: conflict.requirement,
+      keywords: conflict.keywords,
+      position: own.position,
+      opponent: other.persona,
+      opponentPosition: other.position
+    }]
+  })
+}
+
+// Whether a message is about the conflict's topic, judged by its keywords
+export function touchesConflict(stance: Pick<ConflictStance, 'topic' | 'keywords'>, text: string): boolean {
+  return asksAbout(stance, text)
+}
+
+// Check instructor-declared conflicts. personaNames, when given, is the roster they must refer to.
+export function validateConflicts(input: unknown, personaNames?: string[]): string[] {
+  if (input === undefined || input === null) return []
+  if (!Array.isArray(input)) return ['conflicts must be a list']
+
+  const errors: string[] = []
+  for (const item of input as Record<string, unknown>[]) {
+    const sides = item?.sides as Record<string, unknown>[] | undefined
+    if (typeof item?.topic !== 'string' || !item.topic.trim()) {
+      errors.push('Every conflict needs a topic')
+    } else if (!Array.isArray(sides) || sides.length !== 2 ||
+        sides.some(side => typeof side?.persona !== 'string' || typeof side.position !== 'string' || !side.position.trim())) {
+      errors.push(`${item.topic}: a conflict needs two sides, each with a persona and a position`)
+    } else if (sides[0].persona === sides[1].persona) {
+      errors.push(`${item.topic}: the two sides must be different personas`)
+    } else if (personaNames && sides.some(side => !personaNames.includes(side.persona as string))) {
+      errors.push(`${item.topic}: both sides must be personas in the project`)
+    } else if (item.requirement !== undefined && typeof item.requirement !== 'string') {
+      errors.push(`${item.topic}: requirement must be text`)
+    } else if (item.keywords !== undefined &&
+        (!Array.isArray(item.keywords) || item.keywords.some(k => typeof k !== 'string'))) {
+      errors.push(`${item.topic}: keywords must be a list of strings`)
+    }
+  }
+  return errors
+}
+
+// Tidies validated conflicts: trims text, lowercases keywords and gives new conflicts an ID
+export function normalizeConflicts(conflicts: StakeholderConflict[]): StakeholderConflict[] {
+  return conflicts.map(conflict => ({
+    id: conflict.id || randomUUID(),
+    topic: conflict.topic.trim(),
+    requirement: conflict.requirement?.trim() || undefined,
+    sides: conflict.sides.map(side => ({ persona: side.persona, position: side.position.trim() })) as StakeholderConflict['sides'],
+    keywords: (conflict.keywords || []).filter(k => k.trim()).map(k => k.trim().toLowerCase())
+  }))
+}
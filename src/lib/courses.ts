@@ -0,0 +1,174 @@
+import { randomUUID } from 'crypto'
+import { getAssignment, listAssignments } from './assignments'
+import { getLLMProvider, isLLMProviderName, LLM_PROVIDER_NAMES, LLMProvider, LLMProviderName } from './llm'
+import { getStorage } from './storage'
+
+/**
+ * A course runs for a term and is taught in one or more sections. Each section has its own
+ * enrolled students and its own assignments, so a department can compare sections of the same course.
+ */
+export interface Course {
+  courseId: string
+  name: string
+  term?: string // e.g. "Fall 2026"
+  llmProvider?: LLMProviderName // The model the course's sessions use; the deployment default otherwise
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface Section {
+  sectionId: string
+  courseId: string
+  name: string
+  studentIds: string[] // Roster IDs of the enrolled students
+  createdAt: Date
+  updatedAt: Date
+}
+
+// llmProvider: null clears the course's choice
+export type CourseInput = Pick<Course, 'name'> & Partial<Pick<Course, 'term'>> & { llmProvider?: LLMProviderName | null }
+
+export type SectionInput = Pick<Section, 'name'> & Partial<Pick<Section, 'studentIds'>>
+
+const COURSES = 'courses'
+const SECTIONS = 'sections'
+
+function reviveCourse(course: Course): Course {
+  return { ...course, createdAt: new Date(course.createdAt), updatedAt: new Date(course.updatedAt) }
+}
+
+function reviveSection(section: Section): Section {
+  return { ...section, createdAt: new Date(section.createdAt), updatedAt: new Date(section.updatedAt) }
+}
+
+export function validateCourseInput(input: unknown, partial = false): string[] {
+  const errors: string[] = []
+  if (!input || typeof input !== 'object') return ['Course must be an object']
+  const raw = input as Record<string, unknown>
+
+  if ((raw.name !== undefined || !partial) && (typeof raw.name !== 'string' || !raw.name.trim())) {
+    errors.push('name is required')
+  }
+  if (raw.term !== undefined && typeof raw.term !== 'string') {
+    errors.push('term must be text')
+  }
+  if (raw.llmProvider !== undefined && raw.llmProvider !== null && !isLLMProviderName(raw.llmProvider)) {
+    errors.push(`llmProvider must be one of ${LLM_PROVIDER_NAMES.join(', ')}`)
+  }
+  return errors
+}
+
+export function validateSectionInput(input: unknown, partial = false): string[] {
+  const errors: string[] = []
+  if (!input || typeof input !== 'object') return ['Section must be an object']
+  const raw = input as Record<string, unknown>
+
+  if ((raw.name !== undefined || !partial) && (typeof raw.name !== 'string' || !raw.name.trim())) {
+    errors.push('name is required')
+  }
+  if (raw.studentIds !== undefined &&
+      (!Array.isArray(raw.studentIds) || raw.studentIds.some(id => typeof id !== 'string' || !id.trim()))) {
+    errors.push('studentIds must be a list of student IDs')
+  }
+  return errors
+}
+
+export async function createCourse(input: CourseInput): Promise<Course> {
+  const now = new Date()
+  const course: Course = {
+    courseId: randomUUID(),
+    name: input.name.trim(),
+    term: input.term?.trim() || undefined,
+    llmProvider: input.llmProvider || undefined,
+    createdAt: now,
+    updatedAt: now
+  }
+  await getStorage().put(COURSES, course.courseId, course)
+  return course
+}
+
+export async function getCourse(courseId: string): Promise<Course | undefined> {
+  const course = await getStorage().get<Course>(COURSES, courseId)
+  return course ? reviveCourse(course) : undefined
+}
+
+// Newest first
+export async function listCourses(): Promise<Course[]> {
+  const courses = (await getStorage().list<Course>(COURSES)).map(reviveCourse)
+  return courses.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
+
+export async function updateCourse(courseId: string, changes: Partial<CourseInput>): Promise<Course | undefined> {
+  const existing = await getCourse(courseId)
+  if (!existing) return undefined
+
+  const course: Course = {
+    ...existing,
+    name: changes.name?.trim() || existing.name,
+    term: changes.term !== undefined ? changes.term.trim() || undefined : existing.term,
+    llmProvider: changes.llmProvider !== undefined ? changes.llmProvider || undefined : existing.llmProvider,
+    updatedAt: new Date()
+  }
+  await getStorage().put(COURSES, courseId, course)
+  return course
+}
+
+export async function createSection(courseId: string, input: SectionInput): Promise<Section> {
+  const now = new Date()
+  const section: Section = {
+    sectionId: randomUUID(),
+    courseId,
+    name: input.name.trim(),
+    studentIds: uniqueIds(input.studentIds || []),
+    createdAt: now,
+    updatedAt: now
+  }
+  await getStorage().put(SECTIONS, section.sectionId, section)
+  return section
+}
+
+export async function getSection(sectionId: string): Promise<Section | undefined> {
+  const section = await getStorage().get<Section>(SECTIONS, sectionId)
+  return section ? reviveSection(section) : undefined
+}
+
+// In the order they were created, which is usually how departments number them
+export async function listSections(courseId?: string): Promise<Section[]> {
+  const sections = (await getStorage().list<Section>(SECTIONS)).map(reviveSection)
+  return sections
+    .filter(section => !courseId || section.courseId === courseId)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+}
+
+// studentIds replaces the enrollment list as a whole
+export async function updateSection(sectionId: string, changes: Partial<SectionInput>): Promise<Section | undefined> {
+  const existing = await getSection(sectionId)
+  if (!existing) return undefined
+
+  const section: Section = {
+    ...existing,
+    name: changes.name?.trim() || existing.name,
+    studentIds: changes.studentIds ? uniqueIds(changes.studentIds) : existing.studentIds,
+    updatedAt: new Date()
+  }
+  await getStorage().put(SECTIONS, sectionId, section)
+  return section
+}
+
+function uniqueIds(ids: string[]): string[] {
+  return Array.from(new Set(ids.map(id => id.trim()).filter(Boolean)))
+}
+
+// The model a session or grading run uses: its assignment's course's choice, or the deployment default
+export async function resolveLLMProvider(assignmentId?: string): Promise<LLMProvider> {
+  const assignment = assignmentId ? await getAssignment(assignmentId) : undefined
+  const section = assignment?.sectionId ? await getSection(assignment.sectionId) : undefined
+  const course = section ? await getCourse(section.courseId) : undefined
+  return getLLMProvider(course?.llmProvider)
+}
+
+// Persona generation has no session: it uses the course the project was last published to in a section
+export async function resolveProjectLLMProvider(projectId?: string): Promise<LLMProvider> {
+  const assignments = projectId ? await listAssignments({ projectId }) : []
+  return resolveLLMProvider(assignments.find(assignment => assignment.sectionId)?.assignmentId)
+}
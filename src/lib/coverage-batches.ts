@@ -0,0 +1,244 @@
+import { randomUUID } from 'crypto'
+import { after } from 'next/server'
+import { gradeSession } from './dashboard'
+import { listReports, StoredReport } from './reports'
+import { getSession, listSessions } from './sessions'
+import { getStorage } from './storage'
+
+/**
+ * Coverage analysis for a whole class at once. A batch takes every completed session in a project,
+ * analyzes a few at a time so the model provider isn't flooded, retries sessions whose analysis
+ * failed and keeps its progress in storage so the dashboard can follow it from any request.
+ * Reports land in the same cache as one-off analyses.
+ */
+
+export type BatchItemStatus = 'pending' | 'analyzing' | 'analyzed' | 'skipped' | 'failed'
+
+export interface BatchItem {
+  sessionId: string
+  studentName: string
+  status: BatchItemStatus // skipped: a report for the current transcript already existed
+  attempts: number
+  coverage?: number
+  score?: number
+  grade?: string
+  error?: string // The last failure
+}
+
+export interface BatchProgress {
+  total: number
+  analyzed: number
+  skipped: number
+  failed: number
+  remaining: number
+}
+
+export interface CoverageBatch {
+  batchId: string
+  projectId: string
+  // interrupted: the server running it stopped before it finished; resuming picks up where it left off
+  status: 'running' | 'completed' | 'interrupted'
+  concurrency: number
+  force: boolean // Reanalyze sessions that already have a current report
+  items: BatchItem[]
+  progress: BatchProgress
+  createdAt: Date
+  updatedAt: Date
+  heartbeatAt: Date // Refreshed while the batch runs, so a stale one can be told apart from a slow one
+  finishedAt?: Date
+}
+
+export interface BatchOptions {
+  concurrency?: number
+  force?: boolean
+}
+
+const BATCHES = 'coverage_batches'
+
+export const DEFAULT_BATCH_CONCURRENCY = 3
+export const MAX_BATCH_CONCURRENCY = 8
+const MAX_ATTEMPTS = 3 // Per session per run
+const RETRY_DELAY = 2000 // ms, doubled for each further attempt
+const HEARTBEAT_INTERVAL = 30 * 1000
+const HEARTBEAT_TIMEOUT = 2 * 60 * 1000
+
+function summarize(items: BatchItem[]): BatchProgress {
+  const count = (status: BatchItemStatus) => items.filter(item => item.status === status).length
+  return {
+    total: items.length,
+    analyzed: count('analyzed'),
+    skipped: count('skipped'),
+    failed: count('failed'),
+    remaining: count('pending') + count('analyzing')
+  }
+}
+
+function revive(stored: CoverageBatch): CoverageBatch {
+  const batch: CoverageBatch = {
+    ...stored,
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt),
+    heartbeatAt: new Date(stored.heartbeatAt),
+    finishedAt: stored.finishedAt ? new Date(stored.finishedAt) : undefined
+  }
+  // No server has touched it for a while, so whichever one was running it has gone
+  if (batch.status === 'running' && Date.now() - batch.heartbeatAt.getTime() > HEARTBEAT_TIMEOUT) {
+    batch.status = 'interrupted'
+    batch.items = batch.items.map(item => item.status === 'analyzing' ? { ...item, status: 'pending' } : item)
+    batch.progress = summarize(batch.items)
+  }
+  return batch
+}
+
+async function save(batch: CoverageBatch): Promise<void> {
+  const now = new Date()
+  batch.progress = summarize(batch.items)
+  batch.updatedAt = now
+  batch.heartbeatAt = now
+  await getStorage().put(BATCHES, batch.batchId, batch)
+}
+
+export async function getCoverageBatch(batchId: string): Promise<CoverageBatch | undefined> {
+  const stored = await getStorage().get<CoverageBatch>(BATCHES, batchId)
+  return stored ? revive(stored) : undefined
+}
+
+// Newest first
+export async function listCoverageBatches(projectId: string): Promise<CoverageBatch[]> {
+  const batches = await getStorage().list<CoverageBatch>(BATCHES)
+  return batches
+    .filter(batch => batch.projectId === projectId)
+    .map(revive)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
+
+// A project runs one batch at a time; two would analyze the same sessions twice
+export async function findRunningBatch(projectId: string): Promise<CoverageBatch | undefined> {
+  return (await listCoverageBatches(projectId)).find(batch => batch.status === 'running')
+}
+
+/**
+ * Queues every completed session in the project and starts analyzing them in the background.
+ * Resolves once the batch is stored, with its sessions listed; poll getCoverageBatch for progress.
+ * Call it while handling a request.
+ */
+export async function startCoverageBatch(projectId: string, options: BatchOptions = {}): Promise<CoverageBatch> {
+  const sessions = (await listSessions({ projectId })).filter(session => session.status === 'completed')
+  const current = options.force ? new Map<string, StoredReport>() : await listReports(sessions)
+
+  const now = new Date()
+  const batch: CoverageBatch = {
+    batchId: randomUUID(),
+    projectId,
+    status: 'running',
+    concurrency: options.concurrency || DEFAULT_BATCH_CONCURRENCY,
+    force: !!options.force,
+    items: sessions.map(session => {
+      const report = current.get(session.sessionId)
+      return {
+        sessionId: session.sessionId,
+        studentName: session.studentName,
+        status: report ? 'skipped' : 'pending',
+        attempts: 0,
+        coverage: report?.coverage,
+        score: report?.score,
+        grade: report?.grade
+      }
+    }),
+    progress: summarize([]),
+    createdAt: now,
+    updatedAt: now,
+    heartbeatAt: now
+  }
+  await save(batch)
+  console.log(`Coverage batch ${batch.batchId} started for project ${projectId}:`, batch.progress)
+
+  launch(batch)
+  return batch
+}
+
+// Runs the failed sessions of a finished batch again, along with any an interrupted run never reached
+export async function resumeCoverageBatch(batch: CoverageBatch): Promise<CoverageBatch> {
+  batch.status = 'running'
+  batch.finishedAt = undefined
+  batch.items = batch.items.map(item =>
+    item.status === 'failed' || item.status === 'analyzing'
+      ? { ...item, status: 'pending', attempts: 0, error: undefined }
+      : item
+  )
+  await save(batch)
+  console.log(`Coverage batch ${batch.batchId} resumed:`, batch.progress)
+
+  launch(batch)
+  return batch
+}
+
+function launch(batch: CoverageBatch): void {
+  const finished = runBatch(batch)
+  // Serverless platforms may freeze a function once it has answered; this keeps it alive until the batch ends
+  after(() => finished)
+}
+
+async function runBatch(batch: CoverageBatch): Promise<void> {
+  const heartbeat = setInterval(() => {
+    save(batch).catch(error => console.error('Coverage batch heartbeat failed:', error))
+  }, HEARTBEAT_INTERVAL)
+
+  try {
+    const queue = batch.items.filter(item => item.status === 'pending')
+    let next = 0
+    const worker = async () => {
+      while (next < queue.length) {
+        await analyzeItem(batch, queue[next++])
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(batch.concurrency, queue.length) }, worker))
+
+    batch.status = 'completed'
+    batch.finishedAt = new Date()
+    await save(batch)
+    console.log(`Coverage batch ${batch.batchId} completed:`, batch.progress)
+  } catch (error) {
+    // Only storage failures get here; analysis errors are recorded on their items
+    console.error(`Coverage batch ${batch.batchId} stopped:`, error)
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+async function analyzeItem(batch: CoverageBatch, item: BatchItem): Promise<void> {
+  item.status = 'analyzing'
+  await save(batch)
+
+  while (item.attempts < MAX_ATTEMPTS) {
+    item.attempts++
+    try {
+      // Re-read so a transcript edited since the batch started is analyzed as it is now
+      const session = await getSession(item.sessionId)
+      if (!session) {
+        item.status = 'failed'
+        item.error = 'Session no longer exists'
+        break
+      }
+
+      // Strict, so a provider outage fails the session here instead of caching a zero for it
+      const report = await gradeSession(session, true)
+      item.status = 'analyzed'
+      item.coverage = report.coverage
+      item.score = report.score
+      item.grade = report.grade
+      item.error = undefined
+      break
+    } catch (error) {
+      console.error(`Coverage batch ${batch.batchId}: attempt ${item.attempts} failed for session ${item.sessionId}:`, error)
+      item.error = error instanceof Error ? error.message : String(error)
+      if (item.attempts >= MAX_ATTEMPTS) {
+        item.status = 'failed'
+      } else {
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * 2 ** (item.attempts - 1)))
+      }
+    }
+  }
+
+  await save(batch)
+}
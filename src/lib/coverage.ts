@@ -0,0 +1,783 @@
+import type { StakeholderConflict } from './conflicts'
+import { getLLMProvider, LLMProvider, parseJSONResponse } from './llm'
+import type { RequirementOwners } from './requirement-owners'
+import type { ExtractedRequirement } from './requirements'
+import { applyRubric, DEFAULT_RUBRIC, qualityMultiplier, Rubric, RubricCriterion, RubricResult } from './rubrics'
+import type { Message } from './sessions'
+
+export interface CoverageRequest {
+  messages: Message[]
+  projectRequirements: string[] // List of actual requirements for the project
+  studentName: string
+  sessionId: string
+  generateReport?: boolean // Flag to generate detailed report
+  rubric?: Rubric // The assignment's rubric; DEFAULT_RUBRIC otherwise
+  personas?: string[] // The project's persona names, for persona breadth
+  requirementOwners?: RequirementOwners // Who should have been asked about each requirement
+  conflicts?: StakeholderConflict[] // The project's declared conflicts, checked for whether the student found them
+  extractedRequirements?: Pick<ExtractedRequirement, 'verified'>[] // What the student extracted, for extraction accuracy
+  strict?: boolean // Throw when a model call fails instead of scoring what it was judging as a miss
+}
+
+export interface QuestionQuality {
+  question: string
+  score: number // 1-5
+  explanation: string
+}
+
+export interface RequirementAnalysis {
+  requirement: string
+  covered: boolean
+  evidence: string[] // Quotes from transcript that cover this requirement
+  coverageScore: number // 0-1 score for how well it was covered
+  owners?: string[] // The personas who know this requirement
+  neverAsked?: string[] // Set when it was missed and the student never spoke to any of its owners
+  missedReason?: string
+}
+
+// Whether the student found one of the project's declared conflicts and dug into it
+export interface ConflictAnalysis {
+  conflictId: string
+  topic: string
+  personas: [string, string]
+  detected: boolean // Noticed the two stakeholders disagree
+  explored: boolean // Went on to probe it: reasons, priorities or a compromise
+  evidence: string[] // Student quotes showing it
+  explanation: string
+}
+
+export interface CoverageResponse {
+  studentName: string
+  sessionId: string
+  overallCoverageRate: number // Percentage of requirements covered
+  requirementAnalyses: RequirementAnalysis[]
+  questionQualityScore: number // Average quality score of questions (1-5)
+  questionAnalyses: QuestionQuality[]
+  strengths: string[] // What the student did well
+  improvements: string[] // Areas for improvement
+  analyzedAt: Date
+  detailedAnalysis?: string // Detailed report for instructors
+  criterionScores: Record<RubricCriterion, number> // Every criterion, weighted or not, on a 0-100 scale
+  rubricResult: RubricResult
+  neglectedPersonas: Record<string, number> // Personas never interviewed, with how many missed requirements they owned
+  conflictAnalyses: ConflictAnalysis[]
+}
+
+// Common words that say nothing about whether a question builds on the previous answer
+const FOLLOW_UP_STOPWORDS = new Set([
+  'about', 'also', 'because', 'been', 'being', 'could', 'does', 'from', 'have', 'here', 'into', 'just',
+  'know', 'like', 'make', 'more', 'much', 'need', 'other', 'really', 'said', 'should', 'some', 'such',
+  'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'thing', 'things', 'think', 'this',
+  'those', 'very', 'want', 'were', 'what', 'when', 'where', 'which', 'will', 'with', 'would', 'your'
+])
+
+function contentWords(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z']{4,}/g) || []
+  return new Set(words.filter(word => !FOLLOW_UP_STOPWORDS.has(word)))
+}
+
+// Measures every rubric criterion on a 0-100 scale so any rubric can weigh them
+function measureCriteria(
+  messages: Message[],
+  coverage: number,
+  questionQuality: number,
+  personas: string[] | undefined,
+  extractedRequirements: Pick<ExtractedRequirement, 'verified'>[] | undefined,
+  conflictAnalyses: ConflictAnalysis[]
+): Record<RubricCriterion, number> {
+  const interviewed = new Set(messages.filter(m => m.sender === 'persona' && m.personaName).map(m => m.personaName))
+  const personaBreadth = personas?.length
+    ? personas.filter(name => interviewed.has(name)).length / personas.length * 100
+    : interviewed.size > 0 ? 100 : 0
+
+  // A question answering a persona's reply counts as a follow-up when it picks up a word from that reply
+  let answeredQuestions = 0
+  let followUps = 0
+  let lastReply: Set<string> | undefined
+  for (const message of messages) {
+    if (message.sender === 'persona') {
+      lastReply = contentWords(message.content)
+    } else if (message.sender === 'student' && lastReply) {
+      answeredQuestions++
+      const reply = lastReply
+      if (Array.from(contentWords(message.content)).some(word => reply.has(word))) followUps++
+      lastReply = undefined
+    }
+  }
+
+  return {
+    coverage,
+    questionQuality,
+    personaBreadth,
+    followUpDepth: answeredQuestions > 0 ? followUps / answeredQuestions * 100 : 0,
+    extractionAccuracy: extractedRequirements?.length
+      ? extractedRequirements.filter(r => r.verified).length / extractedRequirements.length * 100
+      : 0,
+    // Half credit for noticing a conflict, full credit for exploring it; nothing to find is full marks
+    conflictExploration: conflictAnalyses.length > 0
+      ? conflictAnalyses.reduce((sum, c) => sum + (c.explored ? 1 : c.detected ? 0.5 : 0), 0) / conflictAnalyses.length * 100
+      : 100
+  }
+}
+
+// Grades a transcript against the project's requirements: every student question is scored for quality,
+// coverage is judged in one model call, weak questioning discounts the coverage rate as the rubric says,
+// and the rubric weighs the result into a grade. The model calls go to llm, the course's provider where there is one.
+export async function analyzeCoverage({
+  messages,
+  projectRequirements,
+  studentName,
+  sessionId,
+  generateReport,
+  rubric = DEFAULT_RUBRIC,
+  personas,
+  requirementOwners,
+  conflicts,
+  extractedRequirements,
+  strict = false
+}: CoverageRequest, llm: LLMProvider = getLLMProvider()): Promise<CoverageResponse> {
+  console.log('=== REQUIREMENT COVERAGE ANALYSIS ===')
+  console.log('Student:', studentName)
+  console.log('Total requirements:', projectRequirements.length)
+  console.log('Total messages:', messages.length)
+  console.log('Project requirements:', projectRequirements)
+
+  // Extract student questions only
+  const studentQuestions = messages
+    .filter(msg => msg.sender === 'student')
+    .map(msg => msg.content)
+
+  console.log('Student questions count:', studentQuestions.length)
+
+  // Step 1: Evaluate question quality
+  const questionAnalyses = await evaluateQuestionQuality(llm, studentQuestions, projectRequirements, strict)
+  const avgQuestionScore = questionAnalyses.length > 0
+    ? questionAnalyses.reduce((sum, q) => sum + q.score, 0) / questionAnalyses.length
+    : 1 // Default to very low if no questions
+
+  // Step 2: Evaluate requirement coverage
+  const requirementAnalyses = await evaluateRequirementCoverage(
+    llm,
+    projectRequirements,
+    messages,
+    questionAnalyses,
+    strict,
+    requirementOwners
+  )
+  const neglectedPersonas = countNeglectedPersonas(requirementAnalyses)
+
+  // Step 3: Check whether the student found the stakeholder conflicts
+  const conflictAnalyses = await evaluateConflictHandling(llm, conflicts || [], messages, strict)
+
+  // Calculate overall coverage - using strict evaluation
+  const coveredRequirements = requirementAnalyses.filter(r => r.covered).length
+  const overallCoverageRate = (coveredRequirements / projectRequirements.length) * 100
+
+  // Adjust coverage based on question quality, on the rubric's 0-100 scale where 5/5 is 100
+  const questionQuality = avgQuestionScore / 5 * 100
+  const qualityPenalty = qualityMultiplier(rubric, questionQuality)
+  const adjustedCoverageRate = overallCoverageRate * qualityPenalty
+
+  console.log('Raw coverage rate:', overallCoverageRate)
+  console.log('Average question quality:', avgQuestionScore)
+  console.log('Quality penalty multiplier:', qualityPenalty)
+  console.log('Adjusted coverage rate:', adjustedCoverageRate)
+
+  const criterionScores = measureCriteria(
+    messages,
+    adjustedCoverageRate,
+    questionQuality,
+    personas,
+    extractedRequirements,
+    conflictAnalyses
+  )
+  const rubricResult = applyRubric(rubric, criterionScores)
+  console.log('Rubric score:', rubricResult.score, 'grade:', rubricResult.grade)
+
+  // Generate strengths and improvements
+  const { strengths, improvements } = generateFeedback(
+    requirementAnalyses,
+    questionAnalyses,
+    adjustedCoverageRate,
+    neglectedPersonas,
+    conflictAnalyses
+  )
+
+  // Generate detailed analysis if requested
+  let detailedAnalysis: string | undefined
+  if (generateReport) {
+    detailedAnalysis = generateDetailedReport(
+      studentName,
+      sessionId,
+      adjustedCoverageRate,
+      requirementAnalyses,
+      questionAnalyses,
+      strengths,
+      improvements,
+      messages,
+      rubricResult,
+      conflictAnalyses
+    )
+  }
+
+  return {
+    studentName,
+    sessionId,
+    overallCoverageRate: adjustedCoverageRate,
+    requirementAnalyses,
+    questionQualityScore: avgQuestionScore,
+    questionAnalyses,
+    strengths,
+    improvements,
+    analyzedAt: new Date(),
+    detailedAnalysis,
+    criterionScores,
+    rubricResult,
+    neglectedPersonas,
+    conflictAnalyses
+  }
+}
+
+async function evaluateQuestionQuality(
+  llm: LLMProvider,
+  questions: string[],
+  projectRequirements: string[],
+  strict: boolean
+): Promise<QuestionQuality[]> {
+  const analyses: QuestionQuality[] = []
+
+  // Create context about the project from requirements
+  const projectContext = projectRequirements.join('\n')
+
+  for (const question of questions) {
+    try {
+      const prompt = `You are an expert requirements engineering instructor evaluating student interview questions.
+
+PROJECT REQUIREMENTS CONTEXT:
+${projectContext}
+
+STUDENT QUESTION: "${question}"
+
+Evaluate this question on a scale of 1-5:
+1 = Very Poor (casual, unprofessional, or completely off-topic like "howdy dude lol")
+2 = Poor (too vague, lazy questions like "give me requirements" or "what do you need?")
+3 = Fair (somewhat relevant but lacks depth or specificity)
+4 = Good (professional, specific, targets actual requirements)
+5 = Excellent (insightful, probing, elicits detailed requirements)
+
+IMPORTANT CRITERIA:
+- Questions asking directly for requirements (e.g., "give me requirements", "what are your requirements") should score 2 or lower
+- Casual/unprofessional language scores 1
+- Questions must demonstrate effort to understand stakeholder needs, not just ask for a list
+- Good questions explore WHY, HOW, WHEN, WHO aspects
+- Excellent questions probe edge cases, constraints, priorities
+
+FORMAT YOUR RESPONSE EXACTLY AS:
+SCORE: [1-5]
+EXPLANATION: [One sentence explaining the score]
+
+Example responses:
+SCORE: 1
+EXPLANATION: Unprofessional greeting with no relevance to requirements elicitation.
+
+SCORE: 2
+EXPLANATION: Lazy question asking directly for requirements without understanding context.
+
+SCORE: 4
+EXPLANATION: Specific question about user workflow that helps uncover functional requirements.`
+
+      const response = await llm.chat({
+        message: prompt,
+        maxTokens: 100,
+        temperature: 0.3,
+      })
+
+      const responseText = response.text?.trim() || ''
+      console.log(`Question "${question}" evaluation:`, responseText)
+
+      // Parse response
+      const scoreMatch = responseText.match(/SCORE:\s*(\d)/i)
+      const explanationMatch = responseText.match(/EXPLANATION:\s*(.+)/i)
+
+      const score = scoreMatch ? parseInt(scoreMatch[1]) : 2
+      const explanation = explanationMatch ? explanationMatch[1].trim() : 'Unable to evaluate'
+
+      analyses.push({
+        question,
+        score: Math.max(1, Math.min(5, score)), // Ensure 1-5 range
+        explanation
+      })
+
+    } catch (error) {
+      console.error('Error evaluating question:', error)
+      if (strict) throw error
+      analyses.push({
+        question,
+        score: 2,
+        explanation: 'Error during evaluation'
+      })
+    }
+  }
+
+  return analyses
+}
+
+// Define type for evaluation response
+interface RequirementEvaluation {
+  requirementNumber: number
+  covered: boolean
+  evidence: string[]
+  confidence: number
+}
+
+async function evaluateRequirementCoverage(
+  llm: LLMProvider,
+  requirements: string[],
+  messages: Message[],
+  questionQuality: QuestionQuality[],
+  strict: boolean,
+  requirementOwners?: RequirementOwners
+): Promise<RequirementAnalysis[]> {
+  const analyses: RequirementAnalysis[] = []
+
+  // Build conversation transcript
+  const transcript = messages
+    .map(msg => `${msg.sender === 'student' ? 'Student' : msg.personaName || 'Persona'}: ${msg.content}`)
+    .join('\n\n')
+
+  // Get average question quality for this evaluation
+  const avgQuality = questionQuality.length > 0
+    ? questionQuality.reduce((sum, q) => sum + q.score, 0) / questionQuality.length
+    : 2
+
+  // Create a single evaluation call for all requirements (more efficient)
+  try {
+    const requirementsList = requirements
+      .map((req, index) => `Requirement ${index + 1}: ${req}`)
+      .join('\n')
+
+    const prompt = `You are evaluating a requirements elicitation interview to determine which requirements were successfully uncovered.
+
+COMPLETE LIST OF PROJECT REQUIREMENTS:
+${requirementsList}
+
+INTERVIEW TRANSCRIPT:
+${transcript}
+
+STUDENT QUESTION QUALITY: ${avgQuality.toFixed(1)}/5
+${avgQuality < 3 ? 'Note: Low quality questions detected - be extra strict in evaluation.' : ''}
+
+For each requirement, determine if it was covered in the conversation. A requirement is only "covered" if:
+1. The student asked relevant questions about it (not just "what are your requirements")
+2. The persona provided information about it in response to good questions
+3. There is clear evidence in the transcript
+
+${avgQuality < 3 ? 'IMPORTANT: Due to low question quality, only mark requirements as covered if there is VERY clear evidence.' : ''}
+
+Return a JSON array with one object per requirement:
+[
+  {
+    "requirementNumber": 1,
+    "covered": true/false,
+    "evidence": ["quote from transcript"] or [],
+    "confidence": 0.0-1.0
+  }
+]
+
+Only include actual quotes as evidence. If not covered, evidence should be empty array.`
+
+    const response = await llm.chat({
+      message: prompt,
+      maxTokens: 2000,
+      temperature: 0.2,
+    })
+
+    const responseText = response.text?.trim() || '[]'
+    console.log('Coverage evaluation response:', responseText.substring(0, 500))
+
+    // Parse JSON response
+    let evaluations: RequirementEvaluation[] = []
+    try {
+      evaluations = parseJSONResponse<RequirementEvaluation[]>(responseText)
+    } catch (parseError) {
+      console.error('Failed to parse coverage JSON:', parseError)
+      if (strict) throw parseError
+      evaluations = []
+    }
+
+    // Map evaluations to requirements
+    requirements.forEach((req, index) => {
+      const evaluation = evaluations.find((e: RequirementEvaluation) => e.requirementNumber === index + 1)
+
+      if (evaluation) {
+        analyses.push({
+          requirement: req,
+          covered: evaluation.covered || false,
+          evidence: Array.isArray(evaluation.evidence) ? evaluation.evidence : [],
+          coverageScore: evaluation.covered ? (evaluation.confidence || 0.8) : 0
+        })
+      } else {
+        // Default to not covered
+        analyses.push({
+          requirement: req,
+          covered: false,
+          evidence: [],
+          coverageScore: 0
+        })
+      }
+    })
+
+  } catch (error) {
+    console.error('Error evaluating requirements:', error)
+    if (strict) throw error
+    // Return all requirements as not covered on error
+    requirements.forEach(req => {
+      analyses.push({
+        requirement: req,
+        covered: false,
+        evidence: [],
+        coverageScore: 0
+      })
+    })
+  }
+
+  return attributeToOwners(analyses, messages, requirementOwners)
+}
+
+function listNames(names: string[]): string {
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}` : names[0]
+}
+
+// Names each requirement's owners and, for a missed one, says whether the student ever spoke to them
+function attributeToOwners(
+  analyses: RequirementAnalysis[],
+  messages: Message[],
+  requirementOwners?: RequirementOwners
+): RequirementAnalysis[] {
+  if (!requirementOwners) return analyses
+  const interviewed = new Set(messages.filter(m => m.sender === 'persona' && m.personaName).map(m => m.personaName))
+
+  return analyses.map(analysis => {
+    const owners = requirementOwners[analysis.requirement] || []
+    if (owners.length === 0) return analysis
+    if (analysis.covered) return { ...analysis, owners }
+
+    const spokenTo = owners.filter(name => interviewed.has(name))
+    return spokenTo.length === 0
+      ? { ...analysis, owners, neverAsked: owners, missedReason: `Missed because you never asked ${listNames(owners)}` }
+      : { ...analysis, owners, missedReason: `You spoke with ${listNames(spokenTo)} but never got to this` }
+  })
+}
+
+interface ConflictEvaluation {
+  conflictNumber: number
+  detected: boolean
+  explored: boolean
+  evidence: string[]
+  explanation: string
+}
+
+// Judges every declared conflict in one model call. On failure each counts as not found, unless strict.
+async function evaluateConflictHandling(
+  llm: LLMProvider,
+  conflicts: StakeholderConflict[],
+  messages: Message[],
+  strict: boolean
+): Promise<ConflictAnalysis[]> {
+  if (conflicts.length === 0) return []
+
+  const transcript = messages
+    .map(msg => `${msg.sender === 'student' ? 'Student' : msg.personaName || 'Persona'}: ${msg.content}`)
+    .join('\n\n')
+  const conflictList = conflicts
+    .map((c, index) => `Conflict ${index + 1}: ${c.sides[0].persona} ("${c.sides[0].position}") vs ${c.sides[1].persona} ("${c.sides[1].position}") on ${c.topic}${c.requirement ? ` (requirement: ${c.requirement})` : ''}`)
+    .join('\n')
+
+  let evaluations: ConflictEvaluation[] = []
+  try {
+    const prompt = `You are evaluating whether a student noticed and explored disagreements between stakeholders in a requirements elicitation interview.
+
+KNOWN STAKEHOLDER CONFLICTS:
+${conflictList}
+
+INTERVIEW TRANSCRIPT:
+${transcript}
+
+For each conflict, decide:
+- detected: the student showed they noticed the stakeholders disagree, e.g. by pointing out the tension, asking one stakeholder about the other's view, or naming the trade-off
+- explored: after detecting it, the student dug into it, e.g. by asking why each side holds its position, which matters more, or whether a compromise would work
+
+Only the student's own questions count. A persona mentioning the disagreement is not detection by the student.
+
+Return a JSON array with one object per conflict:
+[
+  {
+    "conflictNumber": 1,
+    "detected": true/false,
+    "explored": true/false,
+    "evidence": ["quote of the student's question"] or [],
+    "explanation": "One sentence"
+  }
+]`
+
+    const response = await llm.chat({
+      message: prompt,
+      maxTokens: 1000,
+      temperature: 0.2,
+    })
+    evaluations = parseJSONResponse<ConflictEvaluation[]>(response.text?.trim() || '[]')
+  } catch (error) {
+    console.error('Error evaluating stakeholder conflicts:', error)
+    if (strict) throw error
+  }
+
+  return conflicts.map((conflict, index) => {
+    const evaluation = Array.isArray(evaluations)
+      ? evaluations.find(e => e.conflictNumber === index + 1)
+      : undefined
+    const detected = !!evaluation?.detected
+    return {
+      conflictId: conflict.id,
+      topic: conflict.topic,
+      personas: [conflict.sides[0].persona, conflict.sides[1].persona],
+      detected,
+      explored: detected && !!evaluation?.explored, // Exploring needs the conflict found first
+      evidence: Array.isArray(evaluation?.evidence) ? evaluation.evidence : [],
+      explanation: evaluation?.explanation || 'Not evaluated'
+    }
+  })
+}
+
+function countNeglectedPersonas(analyses: RequirementAnalysis[]): Record<string, number> {
+  const neglected: Record<string, number> = {}
+  for (const name of analyses.flatMap(analysis => analysis.neverAsked || [])) {
+    neglected[name] = (neglected[name] || 0) + 1
+  }
+  return neglected
+}
+
+function generateFeedback(
+  requirementAnalyses: RequirementAnalysis[],
+  questionAnalyses: QuestionQuality[],
+  overallCoverage: number,
+  neglectedPersonas: Record<string, number>,
+  conflictAnalyses: ConflictAnalysis[]
+): { strengths: string[]; improvements: string[] } {
+  const strengths: string[] = []
+  const improvements: string[] = []
+
+  // Analyze question quality
+  const excellentQuestions = questionAnalyses.filter(q => q.score >= 4)
+  const poorQuestions = questionAnalyses.filter(q => q.score <= 2)
+  const avgQuestionScore = questionAnalyses.length > 0
+    ? questionAnalyses.reduce((sum, q) => sum + q.score, 0) / questionAnalyses.length
+    : 0
+
+  // Analyze requirement coverage
+  const coveredReqs = requirementAnalyses.filter(r => r.covered)
+  const missedReqs = requirementAnalyses.filter(r => !r.covered)
+
+  // Generate strengths
+  if (excellentQuestions.length > 0) {
+    strengths.push(`Asked ${excellentQuestions.length} high-quality questions that effectively explored requirements`)
+  }
+  if (coveredReqs.length >= requirementAnalyses.length * 0.6) {
+    strengths.push(`Successfully elicited ${coveredReqs.length} out of ${requirementAnalyses.length} requirements`)
+  }
+  conflictAnalyses.filter(c => c.explored).forEach(c => {
+    strengths.push(`Spotted and explored the disagreement between ${c.personas.join(' and ')} about ${c.topic}`)
+  })
+  if (avgQuestionScore >= 3.5) {
+    strengths.push(`Maintained professional communication with average question quality of ${avgQuestionScore.toFixed(1)}/5`)
+  }
+
+  // Generate improvements
+  if (poorQuestions.length > 0) {
+    improvements.push(`Avoid low-quality questions - ${poorQuestions.length} questions scored 2 or below`)
+    if (poorQuestions.some(q => q.explanation.includes('requirements'))) {
+      improvements.push(`Don't ask directly for requirements - explore needs through specific questions`)
+    }
+  }
+  if (missedReqs.length > 0) {
+    const topMissed = missedReqs.slice(0, 2).map(r => r.requirement.substring(0, 50) + '...')
+    improvements.push(`Missed ${missedReqs.length} requirements including: ${topMissed.join('; ')}`)
+  }
+  Object.entries(neglectedPersonas)
+    .sort(([, a], [, b]) => b - a)
+    .forEach(([name, missed]) => {
+      improvements.push(`Interview ${name} - you never asked them, and they knew ${missed} requirement${missed === 1 ? '' : 's'} you missed`)
+    })
+  conflictAnalyses.filter(c => !c.explored).forEach(c => {
+    improvements.push(c.detected
+      ? `You noticed ${c.personas.join(' and ')} disagree about ${c.topic}; ask why each holds their position and what trade-off would work`
+      : `${c.personas.join(' and ')} disagree about ${c.topic} - compare what stakeholders tell you to find conflicts like this`)
+  })
+  if (avgQuestionScore < 3) {
+    improvements.push(`Improve question quality - current average is only ${avgQuestionScore.toFixed(1)}/5`)
+  }
+  if (questionAnalyses.length < 5) {
+    improvements.push(`Ask more questions - only ${questionAnalyses.length} questions asked`)
+  }
+
+  // Ensure we always have feedback
+  if (strengths.length === 0) {
+    strengths.push('Completed the interview session')
+  }
+  if (improvements.length === 0) {
+    improvements.push('Continue practicing requirements elicitation techniques')
+  }
+
+  return { strengths, improvements }
+}
+
+function generateDetailedReport(
+  studentName: string,
+  sessionId: string,
+  overallCoverage: number,
+  requirementAnalyses: RequirementAnalysis[],
+  questionAnalyses: QuestionQuality[],
+  strengths: string[],
+  improvements: string[],
+  messages: Message[],
+  rubricResult: RubricResult,
+  conflictAnalyses: ConflictAnalysis[]
+): string {
+  const coveredReqs = requirementAnalyses.filter(r => r.covered)
+  const missedReqs = requirementAnalyses.filter(r => !r.covered)
+  const avgQuestionScore = questionAnalyses.length > 0
+    ? questionAnalyses.reduce((sum, q) => sum + q.score, 0) / questionAnalyses.length
+    : 0
+
+  const studentQuestions = messages.filter(m => m.sender === 'student').length
+  const excellentQuestions = questionAnalyses.filter(q => q.score >= 4).length
+  const poorQuestions = questionAnalyses.filter(q => q.score <= 2).length
+
+  let report = `# Requirements Coverage Analysis Report\n\n`
+  report += `**Student:** ${studentName}\n`
+  report += `**Session ID:** ${sessionId}\n`
+  report += `**Date:** ${new Date().toLocaleDateString()}\n`
+  report += `**Time:** ${new Date().toLocaleTimeString()}\n\n`
+
+  report += `## Executive Summary\n\n`
+  report += `The student achieved an overall requirements coverage of **${overallCoverage.toFixed(1)}%** with an average question quality score of **${avgQuestionScore.toFixed(1)}/5**. `
+  report += `They successfully elicited ${coveredReqs.length} out of ${requirementAnalyses.length} project requirements through ${studentQuestions} questions.\n\n`
+
+  report += `## Performance Metrics\n\n`
+  report += `| Metric | Value |\n`
+  report += `|--------|-------|\n`
+  report += `| Overall Coverage Rate | ${overallCoverage.toFixed(1)}% |\n`
+  report += `| Question Quality Score | ${avgQuestionScore.toFixed(1)}/5 |\n`
+  report += `| Total Questions Asked | ${studentQuestions} |\n`
+  report += `| Excellent Questions (4-5) | ${excellentQuestions} |\n`
+  report += `| Poor Questions (1-2) | ${poorQuestions} |\n`
+  report += `| Requirements Covered | ${coveredReqs.length}/${requirementAnalyses.length} |\n\n`
+
+  report += `## Grade Assessment\n\n`
+  report += `**Grade: ${rubricResult.grade}${rubricResult.label !== rubricResult.grade ? ` (${rubricResult.label})` : ''}** with a rubric score of **${rubricResult.score.toFixed(1)}/100**.\n\n`
+  report += `| Criterion | Weight | Score | Points |\n`
+  report += `|-----------|--------|-------|--------|\n`
+  rubricResult.criteria.forEach(c => {
+    report += `| ${c.label} | ${(c.weight * 100).toFixed(0)}% | ${c.score.toFixed(1)} | ${c.points.toFixed(1)} |\n`
+  })
+  report += `\n`
+  if (rubricResult.missedBand && rubricResult.shortfalls.length > 0) {
+    report += `Not graded ${rubricResult.missedBand} because:\n`
+    rubricResult.shortfalls.forEach(reason => {
+      report += `- ${reason}\n`
+    })
+    report += `\n`
+  }
+
+  report += `## Question Quality Analysis\n\n`
+
+  if (poorQuestions > 0) {
+    report += `### Poor Quality Questions (Score 1-2)\n\n`
+    questionAnalyses
+      .filter(q => q.score <= 2)
+      .slice(0, 3)
+      .forEach(q => {
+        report += `**"${q.question}"** (Score: ${q.score}/5)\n`
+        report += `- ${q.explanation}\n\n`
+      })
+  }
+
+  if (excellentQuestions > 0) {
+    report += `### Excellent Questions (Score 4-5)\n\n`
+    questionAnalyses
+      .filter(q => q.score >= 4)
+      .slice(0, 3)
+      .forEach(q => {
+        report += `**"${q.question}"** (Score: ${q.score}/5)\n`
+        report += `- ${q.explanation}\n\n`
+      })
+  }
+
+  report += `## Requirement Coverage Details\n\n`
+
+  if (coveredReqs.length > 0) {
+    report += `### Successfully Covered Requirements\n\n`
+    coveredReqs.slice(0, 5).forEach(req => {
+      report += `✅ **${req.requirement}**\n`
+      if (req.evidence.length > 0) {
+        report += `   Evidence: "${req.evidence[0].substring(0, 100)}..."\n`
+      }
+      report += `\n`
+    })
+  }
+
+  if (missedReqs.length > 0) {
+    report += `### Missed Requirements\n\n`
+    report += `The following requirements were not adequately covered:\n\n`
+    missedReqs.slice(0, 10).forEach(req => {
+      report += `❌ ${req.requirement}\n`
+      if (req.missedReason) {
+        report += `   ${req.missedReason}\n`
+      }
+    })
+    report += `\n`
+  }
+
+  if (conflictAnalyses.length > 0) {
+    report += `## Stakeholder Conflicts\n\n`
+    conflictAnalyses.forEach(c => {
+      const status = c.explored ? '✅ Explored' : c.detected ? '⚠️ Noticed but not explored' : '❌ Not noticed'
+      report += `**${c.personas.join(' vs ')}** on ${c.topic}: ${status}\n`
+      report += `- ${c.explanation}\n`
+      if (c.evidence.length > 0) {
+        report += `- Evidence: "${c.evidence[0].substring(0, 100)}"\n`
+      }
+      report += `\n`
+    })
+  }
+
+  report += `## Strengths\n\n`
+  strengths.forEach(s => {
+    report += `- ${s}\n`
+  })
+  report += `\n`
+
+  report += `## Areas for Improvement\n\n`
+  improvements.forEach(i => {
+    report += `- ${i}\n`
+  })
+  report += `\n`
+
+  report += `## Recommendations\n\n`
+  report += `1. **Question Quality**: `
+  if (avgQuestionScore < 3) {
+    report += `Focus on asking specific, professional questions that explore the 'why' and 'how' behind requirements.\n`
+  } else {
+    report += `Continue asking thoughtful questions but aim for more depth.\n`
+  }
+
+  report += `2. **Coverage Strategy**: `
+  if (missedReqs.length > requirementAnalyses.length * 0.4) {
+    report += `Create a mental checklist of requirement areas to ensure comprehensive coverage.\n`
+  } else {
+    report += `Good coverage overall - focus on the few missed areas.\n`
+  }
+
+  report += `3. **Interview Technique**: Avoid asking directly for requirements. Instead, explore user workflows, pain points, and goals.\n`
+
+  return report
+}
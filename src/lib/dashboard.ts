@@ -0,0 +1,567 @@
+import { Assignment, listAssignments } from './assignments'
+import { Course, listSections, resolveLLMProvider, Section } from './courses'
+import { analyzeCoverage } from './coverage'
+import { passBackGrade } from './lti'
+import { getProject, Persona, Project } from './projects'
+import { PersonaMood, willingnessOf } from './rapport'
+import { CoverageReport, listReports, saveReport, StoredReport } from './reports'
+import { resolveRubric } from './rubrics'
+import { listSessions, SessionData } from './sessions'
+import { listStudents } from './students'
+
+export interface StudentSession {
+  sessionId: string
+  studentId?: string
+  studentName: string
+  startTime: Date
+  endTime?: Date
+  duration: number
+  messageCount: number
+  personasInterviewed: string[]
+  lastActivity: Date
+  status: 'active' | 'completed' | 'abandoned'
+  requirementsExtracted: boolean
+  transcriptDownloaded: boolean
+  requirementCoverageRate?: number
+  coverageReport?: CoverageReport
+  neglectedPersonas?: Record<string, number> // From the cached report; see CoverageResponse
+  personaMoods: Record<string, PersonaMood> // How each persona felt about the student by the end
+}
+
+export interface PersonaEngagement {
+  personaName: string
+  messageCount: number
+  engagementRate: number
+  collaborativeDiscussions: number
+  // Among analyzed sessions: how many never interviewed this persona though it owned a requirement
+  // the student missed, and how many requirements were missed that way in total
+  neglectedSessions: number
+  requirementsMissed: number
+  // Across the sessions that interviewed this persona: its average rapport with the student by the
+  // end, and how many students put it off so badly that it withdrew
+  averageRapport?: number
+  withdrawnSessions: number
+}
+
+export interface ClassOverview {
+  totalStudents: number
+  activeStudents: number
+  completedSessions: number
+  avgSessionDuration: number
+  avgMessagesPerSession: number
+  personaEngagement: PersonaEngagement[]
+  overallProgress: number
+}
+
+export interface RecentActivityItem {
+  timestamp: Date
+  studentName: string
+  action: string
+  details: string
+}
+
+export interface DashboardResponse {
+  projectId: string
+  projectName: string
+  domain: string
+  personas: Persona[]
+  studentSessions: StudentSession[]
+  classOverview: ClassOverview
+  recentActivity: RecentActivityItem[]
+}
+
+// Used when neither the project nor the session has the requirements its personas were generated from
+const DEFAULT_PROJECT_REQUIREMENTS = [
+  'The system must provide user authentication and authorization',
+  'Users should be able to manage their profile information',
+  'The system must ensure data security and privacy',
+  'Users should be able to perform core domain-specific operations',
+  'The system must provide real-time updates and notifications',
+  'The system must have an intuitive and responsive user interface',
+  'Users should be able to export and import data',
+  'The system must maintain audit logs for compliance',
+  'The system must support multiple user roles and permissions',
+  'The system must handle errors gracefully and provide meaningful feedback'
+]
+
+// Class-wide view of a project's sessions. Coverage is not analyzed here; reports cached since
+// each transcript last changed are attached.
+export async function buildDashboard(project: Project): Promise<DashboardResponse> {
+  const rawSessions = await listSessions({ projectId: project.projectId })
+  console.log('Raw sessions count:', rawSessions.length)
+
+  const reports = await listReports(rawSessions)
+  const studentSessions = rawSessions.map(session => toStudentSession(session, reports.get(session.sessionId)))
+
+  return {
+    projectId: project.projectId,
+    projectName: project.name,
+    domain: project.domain || 'General',
+    personas: project.personas,
+    studentSessions,
+    classOverview: calculateRealClassOverview(studentSessions, project.personas, rawSessions),
+    recentActivity: generateRealRecentActivity(rawSessions)
+  }
+}
+
+function toStudentSession(session: SessionData, cached?: StoredReport): StudentSession {
+  return {
+    sessionId: session.sessionId,
+    studentId: session.studentId,
+    studentName: session.studentName,
+    startTime: session.startTime,
+    endTime: session.endTime,
+    duration: session.endTime
+      ? Math.round((session.endTime.getTime() - session.startTime.getTime()) / 1000 / 60)
+      : 0,
+    messageCount: session.messages.length,
+    personasInterviewed: session.personasInterviewed,
+    lastActivity: session.messages.length > 0
+      ? session.messages[session.messages.length - 1].timestamp
+      : session.startTime,
+    status: session.status,
+    requirementsExtracted: session.requirementsExtracted,
+    transcriptDownloaded: session.transcriptDownloaded,
+    requirementCoverageRate: cached?.coverage, // Otherwise calculated on demand
+    coverageReport: cached?.report,
+    neglectedPersonas: cached?.neglectedPersonas,
+    personaMoods: finalMoods(session)
+  }
+}
+
+// Each persona's mood as of its last reply; replies from before moods were tracked have none
+function finalMoods(session: SessionData): Record<string, PersonaMood> {
+  const moods: Record<string, PersonaMood> = {}
+  for (const msg of session.messages) {
+    if (msg.sender === 'persona' && msg.personaName && msg.metadata?.mood) {
+      moods[msg.personaName] = msg.metadata.mood
+    }
+  }
+  return moods
+}
+
+export interface AssignmentOverview {
+  assignmentId: string
+  title: string
+  projectId: string
+  projectName: string
+  classOverview: ClassOverview
+}
+
+export interface SectionOverview {
+  sectionId: string
+  name: string
+  studentIds: string[] // Enrolled students
+  classOverview: ClassOverview
+  assignments: AssignmentOverview[]
+}
+
+// One student's standing on one assignment, summarizing however many sessions they ran for it
+export interface AssignmentProgress {
+  assignmentId: string
+  title: string
+  status: StudentSession['status'] | 'not-started'
+  sessionCount: number
+  messageCount: number
+  requirementCoverageRate?: number // Best cached coverage across the sessions
+  lastActivity?: Date
+}
+
+export interface StudentProgress {
+  studentId?: string // Absent for anonymous sessions, which are grouped by name
+  studentName: string
+  sectionId: string
+  sectionName: string
+  enrolled: boolean
+  assignments: AssignmentProgress[] // In the order the assignments were set
+  completedAssignments: number
+  avgCoverageRate?: number
+}
+
+export interface CourseDashboardResponse {
+  courseId: string
+  name: string
+  term?: string
+  classOverview: ClassOverview // Across every assignment in every section
+  sections: SectionOverview[]
+  studentProgress: StudentProgress[]
+}
+
+// Rolls every section's assignments up into one view of the course, for comparing sections
+// and following each student through the term. Like buildDashboard it only uses cached reports.
+export async function buildCourseDashboard(course: Course): Promise<CourseDashboardResponse> {
+  const sections = await listSections(course.courseId)
+  const sectionAssignments = new Map<string, Assignment[]>()
+  for (const section of sections) {
+    // Oldest first, so progress reads in term order
+    sectionAssignments.set(section.sectionId, (await listAssignments({ sectionId: section.sectionId })).reverse())
+  }
+
+  const projects = new Map<string, Project>()
+  for (const assignment of Array.from(sectionAssignments.values()).flat()) {
+    if (projects.has(assignment.projectId)) continue
+    const project = await getProject(assignment.projectId)
+    if (project) projects.set(assignment.projectId, project)
+  }
+
+  const assignmentIds = new Set(Array.from(sectionAssignments.values()).flat().map(a => a.assignmentId))
+  const courseSessions = (await listSessions()).filter(s => s.assignmentId && assignmentIds.has(s.assignmentId))
+  const reports = await listReports(courseSessions)
+  const studentNames = new Map((await listStudents()).map(student => [student.studentId, student.name]))
+
+  const overview = (sessions: SessionData[], personas: Persona[]) => calculateRealClassOverview(
+    sessions.map(session => toStudentSession(session, reports.get(session.sessionId))),
+    personas,
+    sessions
+  )
+  const personasOf = (assignments: Assignment[]) => uniquePersonas(
+    assignments.flatMap(a => projects.get(a.projectId)?.personas || [])
+  )
+  const sessionsFor = (assignment: Assignment) => courseSessions.filter(s => s.assignmentId === assignment.assignmentId)
+
+  const sectionOverviews: SectionOverview[] = sections.map(section => {
+    const assignments = sectionAssignments.get(section.sectionId) || []
+    return {
+      sectionId: section.sectionId,
+      name: section.name,
+      studentIds: section.studentIds,
+      classOverview: overview(assignments.flatMap(sessionsFor), personasOf(assignments)),
+      assignments: assignments.map(assignment => ({
+        assignmentId: assignment.assignmentId,
+        title: assignment.title,
+        projectId: assignment.projectId,
+        projectName: projects.get(assignment.projectId)?.name || 'Unknown Project',
+        classOverview: overview(sessionsFor(assignment), personasOf([assignment]))
+      }))
+    }
+  })
+
+  const allAssignments = Array.from(sectionAssignments.values()).flat()
+  return {
+    courseId: course.courseId,
+    name: course.name,
+    term: course.term,
+    classOverview: overview(courseSessions, personasOf(allAssignments)),
+    sections: sectionOverviews,
+    studentProgress: sections.flatMap(section =>
+      calculateStudentProgress(section, sectionAssignments.get(section.sectionId) || [], courseSessions, reports, studentNames)
+    )
+  }
+}
+
+// Enrolled students appear even before their first session; students who joined a section's
+// assignment without being enrolled in it are listed too, so nobody's work goes missing
+function calculateStudentProgress(
+  section: Section,
+  assignments: Assignment[],
+  sessions: SessionData[],
+  reports: Map<string, StoredReport>,
+  studentNames: Map<string, string>
+): StudentProgress[] {
+  const assignmentIds = new Set(assignments.map(a => a.assignmentId))
+  const sectionSessions = sessions.filter(s => s.assignmentId && assignmentIds.has(s.assignmentId))
+
+  const participants = new Map<string, { studentId?: string, studentName: string, enrolled: boolean }>()
+  for (const studentId of section.studentIds) {
+    participants.set(studentId, { studentId, studentName: studentNames.get(studentId) || studentId, enrolled: true })
+  }
+  for (const session of sectionSessions) {
+    const key = session.studentId || `name:${session.studentName}`
+    if (!participants.has(key)) {
+      participants.set(key, { studentId: session.studentId, studentName: session.studentName, enrolled: false })
+    }
+  }
+
+  return Array.from(participants.entries()).map(([key, participant]) => {
+    const own = sectionSessions.filter(s => (s.studentId || `name:${s.studentName}`) === key)
+
+    const progress: AssignmentProgress[] = assignments.map(assignment => {
+      const attempts = own.filter(s => s.assignmentId === assignment.assignmentId)
+      const coverages = attempts
+        .map(s => reports.get(s.sessionId)?.coverage)
+        .filter((coverage): coverage is number => coverage !== undefined)
+      const latest = attempts
+        .map(s => toStudentSession(s))
+        .sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime())[0]
+
+      return {
+        assignmentId: assignment.assignmentId,
+        title: assignment.title,
+        // One completed attempt is enough, whatever happened in later ones
+        status: attempts.some(s => s.status === 'completed') ? 'completed' : latest?.status || 'not-started',
+        sessionCount: attempts.length,
+        messageCount: attempts.reduce((sum, s) => sum + s.messages.length, 0),
+        requirementCoverageRate: coverages.length > 0 ? Math.max(...coverages) : undefined,
+        lastActivity: latest?.lastActivity
+      }
+    })
+
+    const covered = progress
+      .map(p => p.requirementCoverageRate)
+      .filter((coverage): coverage is number => coverage !== undefined)
+
+    return {
+      ...participant,
+      sectionId: section.sectionId,
+      sectionName: section.name,
+      assignments: progress,
+      completedAssignments: progress.filter(p => p.status === 'completed').length,
+      avgCoverageRate: covered.length > 0 ? covered.reduce((sum, c) => sum + c, 0) / covered.length : undefined
+    }
+  })
+}
+
+// Assignments in a section may share a project or reuse persona names; count each name once
+function uniquePersonas(personas: Persona[]): Persona[] {
+  return Array.from(new Map(personas.map(persona => [persona.name, persona])).values())
+}
+
+export interface SessionCoverage {
+  success: boolean
+  coverage: number
+  report: CoverageReport
+  questionQuality?: number
+  requirementsCovered?: number
+  totalRequirements?: number
+  score?: number // Rubric score, 0-100
+  grade?: string
+}
+
+// Analyzes one session on demand and caches the report until its messages change.
+// A failed analysis returns a conservative placeholder that is not cached.
+export async function analyzeSessionCoverage(session: SessionData): Promise<SessionCoverage> {
+  try {
+    return toSessionCoverage(await gradeSession(session))
+  } catch (analysisError) {
+    console.error('Coverage analysis error:', analysisError)
+
+    const fallbackCoverage = 35 // Lower default
+    return {
+      success: true,
+      coverage: fallbackCoverage,
+      report: {
+        overallCoverageRate: fallbackCoverage,
+        strengths: ['Attempted to conduct interview'],
+        improvements: ['Ask more specific questions', 'Avoid asking directly for requirements', 'Explore user needs in depth'],
+        detailedAnalysis: `Unable to perform detailed analysis. Please ensure questions are professional and targeted.`,
+        analyzedAt: new Date()
+      }
+    }
+  }
+}
+
+// Analyzes a session, caches the report and passes the grade back to the student's LMS. Throws when
+// the analysis fails; with strict set, a failed model call does too rather than costing the student marks.
+export async function gradeSession(session: SessionData, strict = false): Promise<StoredReport> {
+  console.log('Analyzing coverage for session:', session.sessionId, 'with', session.messages.length, 'messages')
+
+  // The project's canonical list wins; sessions from before projects existed carried their own copy
+  const project = session.projectId ? await getProject(session.projectId) : undefined
+  const projectRequirements = project?.requirements.length
+    ? project.requirements
+    : session.metadata?.projectRequirements?.length
+      ? session.metadata.projectRequirements
+      : DEFAULT_PROJECT_REQUIREMENTS
+  if (projectRequirements === DEFAULT_PROJECT_REQUIREMENTS) {
+    console.log('Using default requirements - should be replaced with actual project requirements')
+  }
+
+  const coverageData = await analyzeCoverage({
+    messages: session.messages,
+    projectRequirements,
+    studentName: session.studentName,
+    sessionId: session.sessionId,
+    generateReport: true,
+    rubric: await resolveRubric(session.assignmentId),
+    personas: project?.personas.map(p => p.name),
+    requirementOwners: project?.requirementOwners,
+    conflicts: project?.conflicts,
+    extractedRequirements: session.metadata?.extractedRequirements,
+    strict
+  }, await resolveLLMProvider(session.assignmentId))
+  console.log('Coverage analysis complete:', {
+    coverage: coverageData.overallCoverageRate,
+    questionQuality: coverageData.questionQualityScore
+  })
+
+  // Create a simplified report for the dashboard
+  const report: CoverageReport = {
+    overallCoverageRate: coverageData.overallCoverageRate,
+    strengths: coverageData.strengths,
+    improvements: coverageData.improvements,
+    detailedAnalysis: coverageData.detailedAnalysis || '',
+    analyzedAt: coverageData.analyzedAt
+  }
+
+  const cached = await saveReport(session, {
+    coverage: coverageData.overallCoverageRate,
+    questionQuality: coverageData.questionQualityScore,
+    requirementsCovered: coverageData.requirementAnalyses.filter(r => r.covered).length,
+    totalRequirements: coverageData.requirementAnalyses.length,
+    score: coverageData.rubricResult.score,
+    grade: coverageData.rubricResult.grade,
+    neglectedPersonas: coverageData.neglectedPersonas,
+    report
+  })
+  console.log('Report cached for session:', session.sessionId)
+
+  // Students who launched from an LMS get the new grade there too
+  if (session.assignmentId && session.studentId) {
+    await passBackGrade(session.assignmentId, session.studentId)
+  }
+
+  return cached
+}
+
+export function toSessionCoverage(stored: StoredReport): SessionCoverage {
+  return {
+    success: true,
+    coverage: stored.coverage,
+    report: stored.report,
+    questionQuality: stored.questionQuality,
+    requirementsCovered: stored.requirementsCovered,
+    totalRequirements: stored.totalRequirements,
+    score: stored.score,
+    grade: stored.grade
+  }
+}
+
+function calculateRealClassOverview(
+  sessions: StudentSession[],
+  personas: Persona[],
+  rawSessions: SessionData[]
+): ClassOverview {
+  const completedSessions = sessions.filter(s => s.status === 'completed')
+  const activeSessions = sessions.filter(s => s.status === 'active')
+
+  // Calculate real persona engagement from messages
+  const personaEngagementMap: Record<string, PersonaEngagement> = {}
+
+  personas.forEach(persona => {
+    let totalMessages = 0
+    let collaborativeCount = 0
+
+    rawSessions.forEach(session => {
+      session.messages.forEach(msg => {
+        if (msg.sender === 'persona' && msg.personaName === persona.name) {
+          totalMessages++
+          if (msg.metadata?.discussionRound) {
+            collaborativeCount++
+          }
+        }
+      })
+    })
+
+    const sessionsWithPersona = sessions.filter(s =>
+      s.personasInterviewed.includes(persona.name)
+    )
+    const missedPerSession = sessions.map(s => s.neglectedPersonas?.[persona.name] || 0)
+    const moods = sessions
+      .map(s => s.personaMoods[persona.name])
+      .filter((mood): mood is PersonaMood => mood !== undefined)
+
+    personaEngagementMap[persona.name] = {
+      personaName: persona.name,
+      messageCount: totalMessages,
+      engagementRate: sessions.length > 0 ? (sessionsWithPersona.length / sessions.length) * 100 : 0,
+      collaborativeDiscussions: collaborativeCount,
+      neglectedSessions: missedPerSession.filter(missed => missed > 0).length,
+      requirementsMissed: missedPerSession.reduce((sum, missed) => sum + missed, 0),
+      averageRapport: moods.length > 0 ? moods.reduce((sum, mood) => sum + mood.rapport, 0) / moods.length : undefined,
+      withdrawnSessions: moods.filter(mood => willingnessOf(mood) === 'withdrawn').length
+    }
+  })
+
+  return {
+    // Signed-in students are counted once however many sessions they run
+    totalStudents: new Set(sessions.map(s => s.studentId || s.studentName)).size,
+    activeStudents: activeSessions.length,
+    completedSessions: completedSessions.length,
+    avgSessionDuration: completedSessions.length > 0
+      ? completedSessions.reduce((sum, s) => sum + s.duration, 0) / completedSessions.length
+      : 0,
+    avgMessagesPerSession: sessions.length > 0
+      ? sessions.reduce((sum, s) => sum + s.messageCount, 0) / sessions.length
+      : 0,
+    personaEngagement: Object.values(personaEngagementMap),
+    overallProgress: sessions.length > 0 ? (completedSessions.length / sessions.length) * 100 : 0
+  }
+}
+
+function generateRealRecentActivity(rawSessions: SessionData[]): RecentActivityItem[] {
+  const activities: RecentActivityItem[] = []
+
+  // Extract real activities from session data
+  rawSessions.forEach(session => {
+    // Session start
+    activities.push({
+      timestamp: new Date(session.startTime),
+      studentName: session.studentName,
+      action: 'Started interview',
+      details: `🟢 ${session.personasInterviewed.join(', ')}`
+    })
+
+    // Requirements extracted
+    if (session.requirementsExtracted && session.messages.length > 0) {
+      const lastMsg = session.messages[session.messages.length - 1]
+      activities.push({
+        timestamp: new Date(lastMsg.timestamp),
+        studentName: session.studentName,
+        action: 'Extracted requirements',
+        details: `📋 After ${session.messages.length} messages`
+      })
+    }
+
+    // Transcript downloaded
+    if (session.transcriptDownloaded && session.endTime) {
+      activities.push({
+        timestamp: new Date(session.endTime),
+        studentName: session.studentName,
+        action: 'Downloaded transcript',
+        details: `💾 Session completed`
+      })
+    }
+
+    // Collaborative discussions
+    session.messages.forEach(msg => {
+      if (msg.metadata?.discussionRound && msg.metadata?.speakingOrder === 1) {
+        activities.push({
+          timestamp: new Date(msg.timestamp),
+          studentName: session.studentName,
+          action: 'Engaged in collaborative discussion',
+          details: `🤝 ${msg.metadata.collaborationGoal || 'Team discussion'}`
+        })
+      }
+    })
+
+    // Personas the student put off so badly that they stopped sharing
+    const withdrawn = new Set<string>()
+    session.messages.forEach(msg => {
+      const mood: PersonaMood | undefined = msg.metadata?.mood
+      if (msg.personaName && mood && willingnessOf(mood) === 'withdrawn' && !withdrawn.has(msg.personaName)) {
+        withdrawn.add(msg.personaName)
+        activities.push({
+          timestamp: new Date(msg.timestamp),
+          studentName: session.studentName,
+          action: 'Lost a persona\'s cooperation',
+          details: `😠 ${msg.personaName} stopped sharing (patience ${mood.patience}, trust ${mood.trust})`
+        })
+      }
+    })
+
+    // Session completion
+    if (session.status === 'completed' && session.endTime) {
+      activities.push({
+        timestamp: new Date(session.endTime),
+        studentName: session.studentName,
+        action: 'Completed interview',
+        details: `✅ ${session.messages.length} messages, ${Math.round((new Date(session.endTime).getTime() - new Date(session.startTime).getTime()) / 1000 / 60)} minutes`
+      })
+    }
+  })
+
+  // Sort by timestamp and return most recent
+  return activities
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+    .slice(0, 20) // Show last 20 activities
+}
\ No newline at end of file
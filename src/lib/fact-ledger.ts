@@ -0,0 +1,129 @@
+import { getLLMProvider, LLMProvider, parseJSONResponse } from './llm'
+
+/**
+ * What each persona has already told the student. The interview prompt only carries the last few
+ * messages, so in a long session a persona forgets its own answers and repeats or contradicts them.
+ * After every reply the model lists the concrete claims it made and checks them against the
+ * persona's earlier ones; the claims go into the persona's ledger, which later prompts include, and a
+ * contradicting reply fails validation and is generated again. Ledgers are kept per persona in the
+ * session's workflow state.
+ */
+
+export interface LedgerEntry {
+  statement: string // One claim, in the third person, e.g. "Charts are done on paper first"
+  messageId: string // The reply it was made in
+}
+
+export interface Contradiction {
+  statement: string // The earlier claim
+  explanation: string // How the new reply conflicts with it
+}
+
+export interface LedgerReview {
+  statements: string[] // New claims made by the reply
+  contradictions: Contradiction[]
+}
+
+// Claims shown to the persona; the oldest drop out first
+export const LEDGER_PROMPT_LIMIT = 30
+
+const SPECIFIC = /\d|\b(always|never|every|only|currently|usually|we use|i use|our|my team)\b/i
+
+// Words too common to tie a reply to an earlier claim
+const FILLER_WORDS = new Set([
+  'about', 'also', 'been', 'because', 'could', 'does', 'from', 'have', 'into', 'just', 'like', 'make',
+  'more', 'most', 'much', 'need', 'really', 'should', 'some', 'than', 'that', 'their', 'them', 'then',
+  'there', 'they', 'this', 'very', 'want', 'were', 'what', 'when', 'where', 'which', 'will', 'with', 'would'
+])
+
+function subjectWords(text: string): Set<string> {
+  return new Set((text.toLowerCase().match(/[a-z']{4,}/g) || []).filter(word => !FILLER_WORDS.has(word)))
+}
+
+// Earlier claims that share a subject word with the reply
+export function relatedEntries(ledger: LedgerEntry[], reply: string): LedgerEntry[] {
+  const words = subjectWords(reply)
+  return ledger.filter(entry => Array.from(subjectWords(entry.statement)).some(word => words.has(word)))
+}
+
+// The earlier claims a reply is checked against. A contradiction can be worded differently from the claim
+// it breaks, so a ledger within the prompt limit is sent whole; a longer one keeps the claims sharing a
+// subject word with the reply, then the most recent others, in ledger order
+export function claimsToCompare(ledger: LedgerEntry[], reply: string): LedgerEntry[] {
+  if (ledger.length <= LEDGER_PROMPT_LIMIT) return ledger
+  const kept = new Set(relatedEntries(ledger, reply).slice(-LEDGER_PROMPT_LIMIT))
+  const others = ledger.filter(entry => !kept.has(entry))
+  others.slice(others.length - (LEDGER_PROMPT_LIMIT - kept.size)).forEach(entry => kept.add(entry))
+  return ledger.filter(entry => kept.has(entry))
+}
+
+// Sentences that state something specific, for when the model's own list can't be used
+export function guessStatements(reply: string): string[] {
+  return (reply.match(/[^.!?]+[.!?]?/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 20 && SPECIFIC.test(sentence))
+    .slice(0, 3)
+}
+
+/**
+ * Lists the claims a reply makes and any it contradicts in the persona's ledger. If the model's answer
+ * can't be used, the reply's specific-sounding sentences are kept and nothing counts as a contradiction,
+ * so a failed check never blocks a reply.
+ */
+export async function reviewReply(
+  personaName: string,
+  ledger: LedgerEntry[],
+  reply: string,
+  llm: LLMProvider = getLLMProvider()
+): Promise<LedgerReview> {
+  const earlier = claimsToCompare(ledger, reply)
+  const prompt = `You are keeping track of what a stakeholder has said in a requirements interview.
+
+STAKEHOLDER: ${personaName}
+
+WHAT THEY SAID EARLIER:
+${earlier.length > 0 ? earlier.map((entry, i) => `${i + 1}. ${entry.statement}`).join('\n') : '(nothing yet)'}
+
+THEIR NEW REPLY:
+${reply}
+
+1. List the concrete claims the new reply makes about the stakeholder, their work, their needs or the system: facts, numbers, habits, constraints. Write each as a short sentence in the third person. Leave out opinions, greetings and anything already listed above.
+2. List the earlier statements the new reply contradicts. Only count real conflicts, such as a different number or the opposite claim, not added detail.
+
+Return ONLY JSON:
+{ "statements": ["..."], "contradictions": [{ "statementNumber": 1, "explanation": "One sentence" }] }`
+
+  try {
+    const response = await llm.chat({ message: prompt, maxTokens: 600, temperature: 0.1 })
+    const review = parseJSONResponse<{ statements?: unknown, contradictions?: { statementNumber?: number, explanation?: string }[] }>(response.text || '')
+    const statements = Array.isArray(review.statements)
+      ? review.statements.filter((s): s is string => typeof s === 'string' && !!s.trim()).map(s => s.trim())
+      : guessStatements(reply)
+    const contradictions = (Array.isArray(review.contradictions) ? review.contradictions : [])
+      .filter(c => typeof c?.statementNumber === 'number' && earlier[c.statementNumber - 1])
+      .map(c => ({
+        statement: earlier[(c.statementNumber as number) - 1].statement,
+        explanation: c.explanation || 'Conflicts with what they said earlier'
+      }))
+    return { statements, contradictions }
+  } catch (error) {
+    console.error(`Failed to review ${personaName}'s reply against their ledger:`, error)
+    return { statements: guessStatements(reply), contradictions: [] }
+  }
+}
+
+// Adds a reply's claims to a persona's ledger, skipping ones it already holds
+export function recordStatements(
+  ledgers: Record<string, LedgerEntry[]>,
+  personaName: string,
+  statements: string[],
+  messageId: string
+): Record<string, LedgerEntry[]> {
+  const ledger = ledgers[personaName] || []
+  const known = new Set(ledger.map(entry => entry.statement.toLowerCase()))
+  const added = Array.from(new Set(statements))
+    .filter(statement => !known.has(statement.toLowerCase()))
+    .map(statement => ({ statement, messageId }))
+  if (added.length === 0) return ledgers
+  return { ...ledgers, [personaName]: [...ledger, ...added] }
+}
@@ -0,0 +1,178 @@
+import { getAssignment } from './assignments'
+import { getSection } from './courses'
+import { listReports, StoredReport } from './reports'
+import { applyRubric, DEFAULT_RUBRIC } from './rubrics'
+import { listSessions, SessionData, SessionFilter } from './sessions'
+import { listStudents } from './students'
+
+// One student's result, taken from their best graded session
+export interface GradebookRow {
+  studentId?: string // Absent for anonymous sessions, which are grouped by name
+  studentName: string
+  email?: string
+  sessionCount: number
+  sessionId?: string // The session the grade comes from; absent for enrolled students who never started
+  coverage?: number
+  questionQuality?: number
+  score?: number // Rubric score, 0-100
+  grade?: string // Absent until the session's coverage has been analyzed
+  requirementsCovered?: number
+  totalRequirements?: number
+  messageCount: number
+  durationMinutes: number
+  personasInterviewed: string[]
+  requirementsExtracted: boolean
+  status: SessionData['status'] | 'not-started'
+  analyzedAt?: Date
+}
+
+export interface Gradebook {
+  generatedAt: Date
+  rows: GradebookRow[]
+  ungradedSessions: number // Sessions without a current coverage report; analyze them to grade them
+}
+
+export type GradebookScope = Pick<SessionFilter, 'projectId' | 'assignmentId'>
+
+const CSV_COLUMNS: [string, (row: GradebookRow) => string | number | undefined][] = [
+  ['student_id', row => row.studentId],
+  ['student_name', row => row.studentName],
+  ['email', row => row.email],
+  ['grade', row => row.grade],
+  ['score', row => row.score?.toFixed(1)],
+  ['coverage', row => row.coverage?.toFixed(1)],
+  ['question_quality', row => row.questionQuality?.toFixed(1)],
+  ['requirements_covered', row => row.requirementsCovered],
+  ['total_requirements', row => row.totalRequirements],
+  ['message_count', row => row.messageCount],
+  ['duration_minutes', row => row.durationMinutes],
+  ['personas_interviewed', row => row.personasInterviewed.join('; ')],
+  ['requirements_extracted', row => row.requirementsExtracted ? 'yes' : 'no'],
+  ['status', row => row.status],
+  ['sessions', row => row.sessionCount],
+  ['session_id', row => row.sessionId],
+  ['analyzed_at', row => row.analyzedAt?.toISOString()]
+]
+
+// Grades come only from cached coverage reports, so exporting never runs the (slow, paid) analysis
+export async function buildGradebook(scope: GradebookScope): Promise<Gradebook> {
+  const sessions = await listSessions(scope)
+  const reports = await listReports(sessions)
+  const students = new Map((await listStudents()).map(student => [student.studentId, student]))
+
+  const byStudent = new Map<string, SessionData[]>()
+  for (const session of sessions) {
+    const key = session.studentId || `name:${session.studentName}`
+    byStudent.set(key, [...(byStudent.get(key) || []), session])
+  }
+
+  const rows = Array.from(byStudent.values()).map(own => {
+    const best = pickGradedSession(own, reports)
+    const student = best.studentId ? students.get(best.studentId) : undefined
+    return toRow(best, reports.get(best.sessionId), own.length, student?.name, student?.email)
+  })
+
+  // An assignment set for a section lists enrolled students who have not started, so they can be given zeros
+  if (scope.assignmentId) {
+    const assignment = await getAssignment(scope.assignmentId)
+    const section = assignment?.sectionId ? await getSection(assignment.sectionId) : undefined
+    for (const studentId of section?.studentIds || []) {
+      if (byStudent.has(studentId)) continue
+      const student = students.get(studentId)
+      rows.push({
+        studentId,
+        studentName: student?.name || studentId,
+        email: student?.email,
+        sessionCount: 0,
+        messageCount: 0,
+        durationMinutes: 0,
+        personasInterviewed: [],
+        requirementsExtracted: false,
+        status: 'not-started'
+      })
+    }
+  }
+
+  return {
+    generatedAt: new Date(),
+    rows: rows.sort((a, b) => a.studentName.localeCompare(b.studentName)),
+    ungradedSessions: sessions.filter(session => !reports.has(session.sessionId)).length
+  }
+}
+
+// Reports from before rubrics have no score or grade, so they are graded with the default rubric,
+// which only needs coverage and question quality
+function reportGrade(report: StoredReport): { score: number, grade: string } {
+  if (report.score !== undefined && report.grade !== undefined) {
+    return { score: report.score, grade: report.grade }
+  }
+  const { score, grade } = applyRubric(DEFAULT_RUBRIC, {
+    coverage: report.coverage,
+    questionQuality: (report.questionQuality ?? 0) / 5 * 100,
+    personaBreadth: 0,
+    followUpDepth: 0,
+    extractionAccuracy: 0,
+    conflictExploration: 0
+  })
+  return { score, grade }
+}
+
+// The highest-scoring graded session counts; with none graded, the most recent one is shown
+function pickGradedSession(sessions: SessionData[], reports: Map<string, StoredReport>): SessionData {
+  const graded = sessions.filter(session => reports.has(session.sessionId))
+  if (graded.length > 0) {
+    const score = (session: SessionData) => {
+      const report = reports.get(session.sessionId)
+      return report ? reportGrade(report).score : 0
+    }
+    return graded.reduce((best, session) => score(session) > score(best) ? session : best)
+  }
+  return sessions.reduce((latest, session) => session.startTime > latest.startTime ? session : latest)
+}
+
+function toRow(
+  session: SessionData,
+  report: StoredReport | undefined,
+  sessionCount: number,
+  rosterName?: string,
+  email?: string
+): GradebookRow {
+  const graded = report ? reportGrade(report) : undefined
+  return {
+    studentId: session.studentId,
+    studentName: rosterName || session.studentName,
+    email,
+    sessionCount,
+    sessionId: session.sessionId,
+    coverage: report?.coverage,
+    questionQuality: report?.questionQuality,
+    score: graded?.score,
+    grade: graded?.grade,
+    requirementsCovered: report?.requirementsCovered,
+    totalRequirements: report?.totalRequirements,
+    messageCount: session.messages.length,
+    durationMinutes: session.endTime
+      ? Math.round((session.endTime.getTime() - session.startTime.getTime()) / 1000 / 60)
+      : 0,
+    personasInterviewed: session.personasInterviewed,
+    requirementsExtracted: session.requirementsExtracted,
+    status: session.status,
+    analyzedAt: report?.report.analyzedAt
+  }
+}
+
+// RFC 4180 quoting. Names come from students, so anything a spreadsheet would run as a formula is
+// prefixed with an apostrophe.
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) return ''
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function gradebookToCSV(gradebook: Gradebook): string {
+  const lines = [
+    CSV_COLUMNS.map(([name]) => name).join(','),
+    ...gradebook.rows.map(row => CSV_COLUMNS.map(([, value]) => csvField(value(row))).join(','))
+  ]
+  return lines.join('\r\n') + '\r\n'
+}
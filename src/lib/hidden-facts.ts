@@ -0,0 +1,165 @@
+import { randomUUID } from 'crypto'
+import type { Willingness } from './rapport'
+
+/**
+ * Tacit knowledge a persona holds back until the student earns it. Each fact has a condition, and the
+ * interview only puts a fact in the persona's prompt once a question meets it, so a vague question
+ * can't draw out what a specific one would. Which facts each persona has revealed is kept in the
+ * session's workflow state; once revealed, a fact stays shareable for the rest of the session.
+ * A persona the student has put off shares less: see rapport.ts.
+ */
+
+export type RevealCondition = 'asked' | 'follow-up' | 'rapport'
+
+export const REVEAL_CONDITIONS: Record<RevealCondition, string> = {
+  asked: 'Asked about the topic specifically',
+  'follow-up': 'Kept probing the topic after a first answer',
+  rapport: 'Asked about the topic after building rapport with the persona, and without putting it off'
+}
+
+export interface HiddenFact {
+  id: string
+  topic: string // Names what the fact is about without giving it away, e.g. "Offline use"
+  fact: string
+  keywords: string[] // Words or phrases that make a question about this topic; the topic's own words if empty
+  revealWhen: RevealCondition
+}
+
+// What a persona may say about its hidden facts in reply to one question
+export interface Disclosure {
+  known: HiddenFact[] // Revealed earlier or earned by this question
+  earned: HiddenFact[] // The part of known this question earned
+  withheld: HiddenFact[] // Asked about but not earned yet; the persona stays general about these
+}
+
+interface TranscriptMessage {
+  sender: string
+  personaName?: string
+  content: string
+}
+
+// Replies from the persona before rapport counts as established
+export const RAPPORT_EXCHANGES = 3
+
+const STOPWORDS = new Set([
+  'about', 'also', 'because', 'been', 'being', 'could', 'does', 'from', 'have', 'here', 'into', 'just',
+  'know', 'like', 'make', 'more', 'much', 'need', 'other', 'really', 'said', 'should', 'some', 'such',
+  'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'thing', 'things', 'think', 'this',
+  'those', 'very', 'want', 'were', 'what', 'when', 'where', 'which', 'will', 'with', 'would', 'your'
+])
+
+function contentWords(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z']{4,}/g) || []
+  return words.filter(word => !STOPWORDS.has(word))
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Also used for stakeholder conflicts, which are matched the same way
+export function asksAbout(fact: Pick<HiddenFact, 'topic' | 'keywords'>, question: string): boolean {
+  const keywords = fact.keywords.length > 0 ? fact.keywords : contentWords(fact.topic)
+  // Matched from the start of a word, so "schedul" catches schedule, scheduling and schedules
+  return keywords.some(keyword => new RegExp(`\\b${escapeRegExp(keyword.toLowerCase())}`).test(question.toLowerCase()))
+}
+
+/**
+ * Decides which of a persona's facts the current question has earned. history is the transcript
+ * before the question; revealed lists the IDs of facts this persona has already shared. A guarded
+ * persona holds back its rapport facts and a withdrawn one earns nothing new, whatever was asked.
+ */
+export function assessDisclosure(
+  persona: { name: string, hiddenFacts?: HiddenFact[] },
+  question: string,
+  history: TranscriptMessage[],
+  revealed: string[] = [],
+  willingness: Willingness = 'open'
+): Disclosure {
+  const disclosure: Disclosure = { known: [], earned: [], withheld: [] }
+  const facts = persona.hiddenFacts || []
+  if (facts.length === 0) return disclosure
+
+  const exchanges = history.filter(msg => msg.sender === 'persona' && msg.personaName === persona.name).length
+  const lastQuestionIndex = history.map(msg => msg.sender).lastIndexOf('student')
+  const lastReply = lastQuestionIndex >= 0
+    ? history.slice(lastQuestionIndex + 1).find(msg => msg.personaName === persona.name)
+    : undefined
+  const replyWords = new Set(lastReply ? contentWords(lastReply.content) : [])
+  const picksUpReply = contentWords(question).some(word => replyWords.has(word))
+
+  for (const fact of facts) {
+    if (revealed.includes(fact.id)) {
+      disclosure.known.push(fact)
+      continue
+    }
+    if (!asksAbout(fact, question)) continue
+
+    const askedBefore = history.some(msg => msg.sender === 'student' && asksAbout(fact, msg.content))
+    const earned = willingness !== 'withdrawn' && (
+      fact.revealWhen === 'asked' ? true :
+      fact.revealWhen === 'follow-up' ? !!lastReply && (askedBefore || picksUpReply) :
+      exchanges >= RAPPORT_EXCHANGES && willingness === 'open'
+    )
+
+    if (earned) {
+      disclosure.known.push(fact)
+      disclosure.earned.push(fact)
+    } else {
+      disclosure.withheld.push(fact)
+    }
+  }
+  return disclosure
+}
+
+// Adds a persona's newly revealed facts to the session's record
+export function recordReveals(
+  revealedFacts: Record<string, string[]>,
+  personaName: string,
+  factIds: string[] = []
+): Record<string, string[]> {
+  if (factIds.length === 0) return revealedFacts
+  const previous = revealedFacts[personaName] || []
+  return { ...revealedFacts, [personaName]: [...new Set([...previous, ...factIds])] }
+}
+
+function isRevealCondition(value: unknown): value is RevealCondition {
+  return typeof value === 'string' && value in REVEAL_CONDITIONS
+}
+
+// Check a persona's instructor-supplied facts
+export function validateHiddenFacts(input: unknown, personaName: string): string[] {
+  if (input === undefined || input === null) return []
+  if (!Array.isArray(input)) return [`${personaName}: hiddenFacts must be a list`]
+
+  const errors: string[] = []
+  for (const item of input as Record<string, unknown>[]) {
+    if (typeof item?.fact !== 'string' || !item.fact.trim()) {
+      errors.push(`${personaName}: every hidden fact needs its fact`)
+    } else if (typeof item.topic !== 'string' || !item.topic.trim()) {
+      errors.push(`${personaName}: every hidden fact needs a topic`)
+    } else if (item.revealWhen !== undefined && !isRevealCondition(item.revealWhen)) {
+      errors.push(`${personaName}: revealWhen must be one of ${Object.keys(REVEAL_CONDITIONS).join(', ')}`)
+    } else if (item.keywords !== undefined &&
+        (!Array.isArray(item.keywords) || item.keywords.some(k => typeof k !== 'string'))) {
+      errors.push(`${personaName}: keywords must be a list of strings`)
+    }
+  }
+  return errors
+}
+
+// Tidies facts from an instructor or a model: drops incomplete ones, keeps existing IDs and gives new facts one
+export function normalizeHiddenFacts(input: unknown): HiddenFact[] {
+  if (!Array.isArray(input)) return []
+  return (input as Record<string, unknown>[])
+    .filter(item => typeof item?.fact === 'string' && item.fact.trim() && typeof item.topic === 'string' && item.topic.trim())
+    .map(item => ({
+      id: typeof item.id === 'string' && item.id ? item.id : randomUUID(),
+      topic: (item.topic as string).trim(),
+      fact: (item.fact as string).trim(),
+      keywords: (Array.isArray(item.keywords) ? item.keywords : typeof item.keywords === 'string' ? item.keywords.split(',') : [])
+        .filter((k): k is string => typeof k === 'string' && !!k.trim())
+        .map(k => k.trim().toLowerCase()),
+      revealWhen: isRevealCondition(item.revealWhen) ? item.revealWhen : 'asked'
+    }))
+}
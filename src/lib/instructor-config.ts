@@ -0,0 +1,101 @@
+import { getStorage } from './storage'
+
+export interface InstructorConfig {
+  requireAllPersonas?: boolean
+  maxResponseLength?: number // Characters per persona reply
+  forcedPersonaOrder?: string[]
+  personalityEmphasis?: boolean
+  summaryInterval?: number // Summarize every N turns
+}
+
+// A project's config as saved from the instructor dashboard
+export interface StoredInstructorConfig {
+  projectId: string
+  config: InstructorConfig
+  updatedAt: Date
+}
+
+const INSTRUCTOR_CONFIGS = 'instructor-configs'
+
+// Free-form interviews: whoever the question is for answers, no length cap
+export const DEFAULT_INSTRUCTOR_CONFIG: InstructorConfig = {
+  requireAllPersonas: false,
+  maxResponseLength: undefined,
+  forcedPersonaOrder: undefined,
+  personalityEmphasis: false,
+  summaryInterval: 20
+}
+
+const MIN_RESPONSE_LENGTH = 50
+
+// Check an instructor-supplied config and keep only known, well-formed settings
+export function validateInstructorConfig(input: unknown): { config: InstructorConfig, errors: string[] } {
+  const config: InstructorConfig = {}
+  const errors: string[] = []
+
+  if (!input || typeof input !== 'object') {
+    return { config, errors: ['Config must be an object'] }
+  }
+  const raw = input as Record<string, unknown>
+
+  for (const key of ['requireAllPersonas', 'personalityEmphasis'] as const) {
+    if (raw[key] === undefined) continue
+    if (typeof raw[key] === 'boolean') config[key] = raw[key]
+    else errors.push(`${key} must be true or false`)
+  }
+
+  if (raw.maxResponseLength !== undefined && raw.maxResponseLength !== null) {
+    const length = raw.maxResponseLength
+    if (typeof length === 'number' && Number.isInteger(length) && length >= MIN_RESPONSE_LENGTH) {
+      config.maxResponseLength = length
+    } else {
+      errors.push(`maxResponseLength must be a whole number of at least ${MIN_RESPONSE_LENGTH} characters`)
+    }
+  }
+
+  if (raw.summaryInterval !== undefined && raw.summaryInterval !== null) {
+    const interval = raw.summaryInterval
+    if (typeof interval === 'number' && Number.isInteger(interval) && interval >= 1) {
+      config.summaryInterval = interval
+    } else {
+      errors.push('summaryInterval must be a whole number of turns, at least 1')
+    }
+  }
+
+  if (raw.forcedPersonaOrder !== undefined && raw.forcedPersonaOrder !== null) {
+    const order = raw.forcedPersonaOrder
+    if (Array.isArray(order) && order.every(name => typeof name === 'string' && name.trim())) {
+      const names = order.map(name => name.trim())
+      if (new Set(names).size !== names.length) {
+        errors.push('forcedPersonaOrder must not name a persona twice')
+      } else if (names.length > 0) {
+        config.forcedPersonaOrder = names
+      }
+    } else {
+      errors.push('forcedPersonaOrder must be a list of persona names')
+    }
+  }
+
+  return { config, errors }
+}
+
+export async function getInstructorConfig(projectId: string): Promise<StoredInstructorConfig | undefined> {
+  const stored = await getStorage().get<StoredInstructorConfig>(INSTRUCTOR_CONFIGS, projectId)
+  return stored ? { ...stored, updatedAt: new Date(stored.updatedAt) } : undefined
+}
+
+// The settings a project's interviews run with: the saved config over the defaults
+export async function resolveInstructorConfig(projectId?: string): Promise<InstructorConfig> {
+  const stored = projectId ? await getInstructorConfig(projectId) : undefined
+  return { ...DEFAULT_INSTRUCTOR_CONFIG, ...stored?.config }
+}
+
+export async function saveInstructorConfig(projectId: string, config: InstructorConfig): Promise<StoredInstructorConfig> {
+  const stored: StoredInstructorConfig = { projectId, config, updatedAt: new Date() }
+  await getStorage().put(INSTRUCTOR_CONFIGS, projectId, stored)
+  return stored
+}
+
+export async function deleteInstructorConfig(projectId: string): Promise<boolean> {
+  return getStorage().delete(INSTRUCTOR_CONFIGS, projectId)
+}
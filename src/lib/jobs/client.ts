@@ -0,0 +1,50 @@
+import { FINISHED_JOB_STATUSES, Job } from './types'
+
+/**
+ * Browser side of background jobs: send a long-running request with ?background=true, then poll
+ * the job until it finishes. Only imports types, so pages can use it without pulling in storage.
+ */
+
+const POLL_INTERVAL = 1500
+const MAX_POLL_FAILURES = 5 // Consecutive; a brief network drop shouldn't lose the job
+
+// Sends the request as a background job and resolves with what the route would have answered
+export async function runInBackground<T>(
+  url: string,
+  init: RequestInit,
+  onProgress?: (progress: string) => void
+): Promise<T> {
+  const backgroundUrl = `${url}${url.includes('?') ? '&' : '?'}background=true`
+  const response = await fetch(backgroundUrl, init)
+  const data = await response.json()
+  if (!response.ok || !data.job) {
+    throw new Error(data.error || `Request failed with status ${response.status}`)
+  }
+  return waitForJob<T>(data.job.jobId, onProgress)
+}
+
+export async function waitForJob<T>(jobId: string, onProgress?: (progress: string) => void): Promise<T> {
+  let failures = 0
+  for (;;) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL))
+
+    const response = await fetch(`/api/jobs/${jobId}`).catch(() => undefined)
+    if (response?.status === 404) throw new Error('The background job no longer exists')
+    if (!response?.ok) {
+      if (++failures >= MAX_POLL_FAILURES) throw new Error('Lost touch with the background job')
+      continue
+    }
+    failures = 0
+    const job: Job<T> = (await response.json()).job
+
+    if (job.progress) onProgress?.(job.progress)
+    if (job.status === 'succeeded') return job.result as T
+    if (FINISHED_JOB_STATUSES.includes(job.status)) {
+      throw new Error(
+        job.status === 'failed' ? job.error || 'The background job failed' :
+        job.status === 'cancelled' ? 'The background job was cancelled' :
+        'The server stopped before the job finished; please try again'
+      )
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import { randomUUID } from 'crypto'
+import { after } from 'next/server'
+import { getStorage } from '../storage'
+import { FINISHED_JOB_STATUSES, Job, JobType } from './types'
+
+export * from './types'
+
+/**
+ * In-process background jobs for work that can outlast an HTTP request, such as a model call on a
+ * serverless function with a short timeout. The request stores a job and answers at once; the job
+ * runs on the same server, and its status and result are kept in storage where any request can
+ * poll them. Jobs are not resumed after a restart: a job whose server went quiet shows as
+ * interrupted, and the client submits it again.
+ */
+
+export interface JobContext {
+  jobId: string
+  signal: AbortSignal // Aborted when the job is cancelled
+  // Records the step the job is on. Throws once the job is cancelled, so handlers stop between steps.
+  setProgress(progress: string): Promise<void>
+}
+
+export type JobHandler<T> = (context: JobContext) => Promise<T>
+
+export interface JobFilter {
+  type?: JobType
+  status?: Job['status']
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled')
+    this.name = 'JobCancelledError'
+  }
+}
+
+interface ActiveJob {
+  job: Job
+  handler: JobHandler<unknown>
+  controller: AbortController
+  settle: () => void // Called once the job has finished and been saved
+}
+
+const JOBS = 'jobs'
+
+const JOB_CONCURRENCY = 4 // Jobs running at once on this server; the rest wait their turn
+const HEARTBEAT_INTERVAL = 5 * 1000
+const HEARTBEAT_TIMEOUT = 60 * 1000
+const JOB_RETENTION = 24 * 60 * 60 * 1000 // Finished jobs are kept a day for their results
+
+const queue: ActiveJob[] = []
+const active = new Map<string, ActiveJob>() // Queued or running on this server
+let running = 0
+let heartbeat: ReturnType<typeof setInterval> | undefined
+
+// The long-running routes take ?background=true to answer with a job instead of the result
+export function wantsBackground(req: Request): boolean {
+  return new URL(req.url).searchParams.get('background') === 'true'
+}
+
+function revive<T>(stored: Job<T>): Job<T> {
+  const job: Job<T> = {
+    ...stored,
+    createdAt: new Date(stored.createdAt),
+    startedAt: stored.startedAt ? new Date(stored.startedAt) : undefined,
+    finishedAt: stored.finishedAt ? new Date(stored.finishedAt) : undefined,
+    heartbeatAt: new Date(stored.heartbeatAt)
+  }
+  if (!FINISHED_JOB_STATUSES.includes(job.status) && Date.now() - job.heartbeatAt.getTime() > HEARTBEAT_TIMEOUT) {
+    job.status = 'interrupted'
+  }
+  return job
+}
+
+export async function getJob<T = unknown>(jobId: string): Promise<Job<T> | undefined> {
+  const stored = await getStorage().get<Job<T>>(JOBS, jobId)
+  return stored ? revive(stored) : undefined
+}
+
+// Newest first. Results are left out; fetch a job on its own for its result.
+export async function listJobs(filter: JobFilter = {}): Promise<Job[]> {
+  const jobs = (await getStorage().list<Job>(JOBS)).map(job => revive({ ...job, result: undefined }))
+  return jobs
+    .filter(job => !filter.type || job.type === filter.type)
+    .filter(job => !filter.status || job.status === filter.status)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
+
+/**
+ * Stores a job and runs the handler in the background once a slot is free. Whatever the handler
+ * resolves to becomes the job's result, so it should be the body the route would have answered with.
+ * Call it while handling a request.
+ */
+export async function enqueueJob<T>(type: JobType, handler: JobHandler<T>, label?: string): Promise<Job<T>> {
+  await pruneJobs()
+
+  const now = new Date()
+  const job: Job<T> = { jobId: randomUUID(), type, status: 'queued', label, createdAt: now, heartbeatAt: now }
+  let settle = () => {}
+  const settled = new Promise<void>(resolve => { settle = resolve })
+  const entry: ActiveJob = { job, handler, controller: new AbortController(), settle }
+  await saveActive(entry)
+  console.log(`Job ${job.jobId} queued: ${type}${label ? ` (${label})` : ''}`)
+
+  queue.push(entry)
+  active.set(job.jobId, entry)
+  if (!heartbeat) heartbeat = setInterval(beat, HEARTBEAT_INTERVAL)
+  drain()
+  // Serverless platforms may freeze a function once it has answered; this keeps it alive until the job ends
+  after(() => settled)
+  return job
+}
+
+/**
+ * Asks for a job to stop. A queued job is cancelled at once; a running one stops at its next step,
+ * and its result is discarded even if the work it was waiting on still finishes.
+ */
+export async function cancelJob(jobId: string): Promise<Job | undefined> {
+  const job = await getJob(jobId)
+  if (!job || FINISHED_JOB_STATUSES.includes(job.status)) return job
+
+  job.cancelRequested = true
+  if (job.status === 'queued') {
+    job.status = 'cancelled'
+    job.finishedAt = new Date()
+  }
+  await getStorage().put(JOBS, jobId, job)
+  // The server running it sees the request on its next heartbeat; when that is this one, stop now
+  active.get(jobId)?.controller.abort()
+  console.log(`Job ${jobId} cancelled`)
+  return job
+}
+
+function drain(): void {
+  while (running < JOB_CONCURRENCY && queue.length > 0) {
+    const entry = queue.shift() as ActiveJob
+    running++
+    run(entry)
+      .catch(error => console.error(`Job ${entry.job.jobId} could not be saved:`, error))
+      .finally(() => {
+        running--
+        active.delete(entry.job.jobId)
+        entry.settle()
+        if (active.size === 0 && heartbeat) {
+          clearInterval(heartbeat)
+          heartbeat = undefined
+        }
+        drain()
+      })
+  }
+}
+
+async function run(entry: ActiveJob): Promise<void> {
+  const { job, handler, controller } = entry
+  await saveActive(entry) // Picks up a cancellation made while it waited
+  if (job.status === 'cancelled') return
+
+  job.status = 'running'
+  job.startedAt = new Date()
+  await saveActive(entry)
+
+  const context: JobContext = {
+    jobId: job.jobId,
+    signal: controller.signal,
+    setProgress: async progress => {
+      if (controller.signal.aborted) throw new JobCancelledError()
+      job.progress = progress
+      await saveActive(entry)
+    }
+  }
+  const cancelled = new Promise<never>((_resolve, reject) => {
+    controller.signal.addEventListener('abort', () => reject(new JobCancelledError()))
+  })
+  cancelled.catch(() => undefined) // Only matters while raced against the handler
+
+  try {
+    job.result = await Promise.race([handler(context), cancelled])
+    job.status = 'succeeded'
+  } catch (error) {
+    if (controller.signal.aborted) {
+      job.status = 'cancelled'
+    } else {
+      console.error(`Job ${job.jobId} failed:`, error)
+      job.status = 'failed'
+      job.error = error instanceof Error ? error.message : String(error)
+    }
+  }
+  job.finishedAt = new Date()
+  await saveActive(entry)
+  console.log(`Job ${job.jobId} ${job.status}`)
+}
+
+// Writes a job this server owns. A cancellation stored by another request wins over the copy here.
+async function saveActive({ job, controller }: ActiveJob): Promise<void> {
+  const stored = await getStorage().get<Job>(JOBS, job.jobId)
+  if (stored?.cancelRequested && !job.cancelRequested) {
+    job.cancelRequested = true
+    controller.abort()
+  }
+  if (job.cancelRequested && job.status === 'queued') {
+    job.status = 'cancelled'
+    job.finishedAt = job.finishedAt || new Date()
+  }
+  job.heartbeatAt = new Date()
+  await getStorage().put(JOBS, job.jobId, job)
+}
+
+// Keeps this server's jobs from looking interrupted, and notices cancellations made elsewhere
+function beat(): void {
+  for (const entry of Array.from(active.values())) {
+    saveActive(entry).catch(error => console.error(`Job ${entry.job.jobId} heartbeat failed:`, error))
+  }
+}
+
+async function pruneJobs(): Promise<void> {
+  const cutoff = Date.now() - JOB_RETENTION
+  for (const job of await getStorage().list<Job>(JOBS)) {
+    // Interrupted jobs never finish, so their last heartbeat counts instead
+    if (new Date(job.finishedAt || job.heartbeatAt).getTime() < cutoff) {
+      await getStorage().delete(JOBS, job.jobId)
+    }
+  }
+}
@@ -0,0 +1,22 @@
+// The long-running routes that can hand their work to a job with ?background=true
+export type JobType = 'generate-personas' | 'extract-requirements' | 'requirement-coverage' | 'analyze-coverage'
+
+// interrupted: the server running it stopped first. The work is not resumed; submit it again.
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'interrupted'
+
+export const FINISHED_JOB_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled', 'interrupted']
+
+export interface Job<TResult = unknown> {
+  jobId: string
+  type: JobType
+  status: JobStatus
+  label?: string // What the job is for, e.g. the session or project name, for listing jobs
+  progress?: string // The step it is on
+  result?: TResult // The body the route would have answered with, once succeeded
+  error?: string
+  cancelRequested?: boolean // Seen by whichever server runs the job on its next heartbeat
+  createdAt: Date
+  startedAt?: Date
+  finishedAt?: Date
+  heartbeatAt: Date
+}
@@ -0,0 +1,43 @@
+import { CohereClient } from 'cohere-ai'
+import { ChatRequest, ChatResponse, LLMProvider, parseJSONResponse } from './types'
+
+export class CohereProvider implements LLMProvider {
+  readonly name = 'cohere'
+  private client: CohereClient
+  private model: string
+
+  constructor(apiKey: string, model: string = 'command-r-plus') {
+    this.client = new CohereClient({ token: apiKey })
+    this.model = model
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const response = await this.client.chat({
+      model: this.model,
+      message: request.message,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+    })
+    return { text: response.text?.trim() || '' }
+  }
+
+  async chatJSON<T>(request: ChatRequest): Promise<T> {
+    const { text } = await this.chat(request)
+    return parseJSONResponse<T>(text)
+  }
+
+  async *chatStream(request: ChatRequest): AsyncIterable<string> {
+    const stream = await this.client.chatStream({
+      model: this.model,
+      message: request.message,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+    })
+
+    for await (const event of stream) {
+      if (event.eventType === 'text-generation') {
+        yield event.text
+      }
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { CohereProvider } from './cohere'
+import { LocalProvider } from './local'
+import { OpenAIProvider } from './openai'
+import { RecordingProvider, ScriptedProvider } from './scripted'
+import { ChatRequest, ChatResponse, isLLMProviderName, LLM_PROVIDER_NAMES, LLMProvider, LLMProviderName, parseJSONResponse } from './types'
+
+export * from './types'
+export { RecordingProvider, ScriptedProvider, ScriptMissError } from './scripted'
+export type { LLMScript, ScriptReply, ScriptRule, ScriptedCall } from './scripted'
+
+const providers = new Map<string, LLMProvider>()
+let overrideProvider: LLMProvider | null = null
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'cohere':
+      if (!process.env.CO_API_KEY) throw new Error('CO_API_KEY is not set')
+      return new CohereProvider(process.env.CO_API_KEY, process.env.COHERE_MODEL || undefined)
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) throw new Error('OPENAI_API_KEY is not set')
+      return new OpenAIProvider(process.env.OPENAI_API_KEY, process.env.OPENAI_MODEL || undefined)
+    case 'local':
+      return new LocalProvider()
+    case 'scripted':
+      if (!process.env.LLM_SCRIPT) throw new Error('LLM_SCRIPT must point at a script fixture file')
+      return ScriptedProvider.fromFile(process.env.LLM_SCRIPT)
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`)
+  }
+}
+
+// Reads a provider name from the environment, refusing a typo rather than failing on the first model call
+function providerFromEnv(variable: 'LLM_PROVIDER' | 'LLM_FALLBACK_PROVIDER'): LLMProviderName | undefined {
+  const value = process.env[variable]?.trim()
+  if (!value) return undefined
+  if (!isLLMProviderName(value)) {
+    throw new Error(`${variable} is set to "${value}"; it must be one of ${LLM_PROVIDER_NAMES.join(', ')}`)
+  }
+  return value
+}
+
+// Pick the deployment default: explicit LLM_PROVIDER, else whichever API key is configured
+function defaultProviderName(): LLMProviderName {
+  const configured = providerFromEnv('LLM_PROVIDER')
+  if (configured) return configured
+  if (process.env.CO_API_KEY) return 'cohere'
+  if (process.env.OPENAI_API_KEY) return 'openai'
+  console.warn('No LLM API key configured - using the local stand-in provider')
+  return 'local'
+}
+
+// Retries a failed call on a second provider so an outage or rate limit doesn't stop a class
+class FallbackProvider implements LLMProvider {
+  readonly name: string
+
+  constructor(private primary: LLMProvider, private fallback: LLMProvider) {
+    this.name = `${primary.name}+${fallback.name}`
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    try {
+      return await this.primary.chat(request)
+    } catch (error) {
+      console.error(`LLM provider ${this.primary.name} failed, falling back to ${this.fallback.name}:`, error)
+      return this.fallback.chat(request)
+    }
+  }
+
+  async chatJSON<T>(request: ChatRequest): Promise<T> {
+    // Malformed JSON is not an outage, so only the transport goes through the fallback
+    const { text } = await this.chat(request)
+    return parseJSONResponse<T>(text)
+  }
+
+  async *chatStream(request: ChatRequest): AsyncIterable<string> {
+    let started = false
+    try {
+      for await (const delta of this.primary.chatStream(request)) {
+        started = true
+        yield delta
+      }
+    } catch (error) {
+      if (started) throw error
+      console.error(`LLM provider ${this.primary.name} stream failed, falling back to ${this.fallback.name}:`, error)
+      yield* this.fallback.chatStream(request)
+    }
+  }
+}
+
+/**
+ * Returns the provider for a deployment, or a specific one when a course overrides it.
+ * Set LLM_FALLBACK_PROVIDER (e.g. "local" or "openai") to fail over when the primary errors,
+ * and LLM_RECORD to a file path to capture the exchanges as a replayable script.
+ */
+export function getLLMProvider(name?: LLMProviderName): LLMProvider {
+  if (overrideProvider) return overrideProvider
+
+  const primaryName = name || defaultProviderName()
+  const fallbackName = providerFromEnv('LLM_FALLBACK_PROVIDER')
+  const key = fallbackName && fallbackName !== primaryName ? `${primaryName}+${fallbackName}` : primaryName
+
+  let provider = providers.get(key)
+  if (!provider) {
+    provider = createProvider(primaryName)
+    if (process.env.LLM_RECORD) {
+      provider = new RecordingProvider(provider, process.env.LLM_RECORD)
+    }
+    if (fallbackName && fallbackName !== primaryName) {
+      provider = new FallbackProvider(provider, createProvider(fallbackName))
+    }
+    providers.set(key, provider)
+  }
+  return provider
+}
+
+// Checks the provider settings when the server starts, so a misconfigured deployment fails at boot
+export function validateLLMConfig(): void {
+  providerFromEnv('LLM_PROVIDER')
+  providerFromEnv('LLM_FALLBACK_PROVIDER')
+}
+
+// Route every call through one provider (e.g. a ScriptedProvider in an offline harness); pass null to undo
+export function setLLMProvider(provider: LLMProvider | null): void {
+  overrideProvider = provider
+}
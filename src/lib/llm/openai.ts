@@ -0,0 +1,45 @@
+import OpenAI from 'openai'
+import { ChatRequest, ChatResponse, LLMProvider, parseJSONResponse } from './types'
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai'
+  private client: OpenAI
+  private model: string
+
+  constructor(apiKey: string, model: string = 'gpt-4o-mini') {
+    this.client = new OpenAI({ apiKey })
+    this.model = model
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content: request.message }],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    })
+    return { text: completion.choices[0]?.message?.content?.trim() || '' }
+  }
+
+  async chatJSON<T>(request: ChatRequest): Promise<T> {
+    const { text } = await this.chat(request)
+    return parseJSONResponse<T>(text)
+  }
+
+  async *chatStream(request: ChatRequest): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [{ role: 'user', content: request.message }],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: true,
+    })
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content
+      if (delta) {
+        yield delta
+      }
+    }
+  }
+}
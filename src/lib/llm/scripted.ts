@@ -0,0 +1,158 @@
+import { readFileSync, writeFileSync } from 'fs'
+import { ChatRequest, ChatResponse, LLMProvider, parseJSONResponse } from './types'
+
+// One canned model reply. `json` is serialised for you; `text` is sent verbatim (use it for malformed JSON)
+export interface ScriptReply {
+  text?: string
+  json?: unknown
+  error?: string
+}
+
+export interface ScriptRule {
+  name?: string
+  // Regular expression tested against the full prompt; capture groups fill {{1}}, {{2}}... in replies
+  match?: string
+  // Exact prompt (used by recorded scripts so a transcript replays byte-for-byte)
+  prompt?: string
+  // A list is played in order; the last reply repeats once the list is exhausted
+  reply: ScriptReply | ScriptReply[]
+}
+
+export interface LLMScript {
+  rules: ScriptRule[]
+  // Reply for prompts no rule matches; without it an unmatched prompt throws
+  fallback?: ScriptReply
+}
+
+export interface ScriptedCall {
+  prompt: string
+  rule?: string
+  reply: ScriptReply
+}
+
+export class ScriptMissError extends Error {
+  constructor(public readonly prompt: string) {
+    super(`No scripted reply matches prompt: ${prompt.substring(0, 120)}...`)
+    this.name = 'ScriptMissError'
+  }
+}
+
+// Fixture-driven fake model: matches prompts by pattern and plays back canned replies
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted'
+  readonly calls: ScriptedCall[] = []
+  private playCounts = new Map<number, number>()
+
+  constructor(private script: LLMScript) {}
+
+  static fromFile(path: string): ScriptedProvider {
+    return new ScriptedProvider(JSON.parse(readFileSync(path, 'utf-8')))
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const prompt = request.message
+
+    for (let i = 0; i < this.script.rules.length; i++) {
+      const rule = this.script.rules[i]
+      const captures = this.matchRule(rule, prompt)
+      if (!captures) continue
+
+      const replies = Array.isArray(rule.reply) ? rule.reply : [rule.reply]
+      const played = this.playCounts.get(i) || 0
+      this.playCounts.set(i, played + 1)
+      const reply = replies[Math.min(played, replies.length - 1)]
+
+      this.calls.push({ prompt, rule: rule.name || rule.match || 'exact prompt', reply })
+      return { text: this.render(reply, captures) }
+    }
+
+    if (this.script.fallback) {
+      this.calls.push({ prompt, reply: this.script.fallback })
+      return { text: this.render(this.script.fallback, []) }
+    }
+
+    throw new ScriptMissError(prompt)
+  }
+
+  async chatJSON<T>(request: ChatRequest): Promise<T> {
+    const { text } = await this.chat(request)
+    return parseJSONResponse<T>(text)
+  }
+
+  async *chatStream(request: ChatRequest): AsyncIterable<string> {
+    const { text } = await this.chat(request)
+    for (const word of text.match(/\S+\s*/g) || []) {
+      yield word
+    }
+  }
+
+  // Forget play positions and recorded calls between scenarios
+  reset(): void {
+    this.calls.length = 0
+    this.playCounts.clear()
+  }
+
+  private matchRule(rule: ScriptRule, prompt: string): string[] | null {
+    if (rule.prompt !== undefined) {
+      return rule.prompt === prompt ? [] : null
+    }
+    if (rule.match !== undefined) {
+      const match = prompt.match(new RegExp(rule.match, 'i'))
+      return match ? match.slice(1) : null
+    }
+    return null
+  }
+
+  private render(reply: ScriptReply, captures: string[]): string {
+    if (reply.error) {
+      throw new Error(reply.error)
+    }
+    const raw = reply.json !== undefined ? JSON.stringify(reply.json) : reply.text || ''
+    return raw.replace(/\{\{(\d+)\}\}/g, (_, index) => captures[Number(index) - 1]?.trim() || '')
+  }
+}
+
+// Wraps a live provider and writes every exchange to a script that replays the session exactly
+export class RecordingProvider implements LLMProvider {
+  readonly name: string
+  private script: LLMScript = { rules: [] }
+
+  constructor(private inner: LLMProvider, private path: string) {
+    this.name = `recording(${inner.name})`
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    try {
+      const response = await this.inner.chat(request)
+      this.record(request.message, { text: response.text })
+      return response
+    } catch (error) {
+      this.record(request.message, { error: error instanceof Error ? error.message : String(error) })
+      throw error
+    }
+  }
+
+  async chatJSON<T>(request: ChatRequest): Promise<T> {
+    const { text } = await this.chat(request)
+    return parseJSONResponse<T>(text)
+  }
+
+  async *chatStream(request: ChatRequest): AsyncIterable<string> {
+    let text = ''
+    for await (const delta of this.inner.chatStream(request)) {
+      text += delta
+      yield delta
+    }
+    this.record(request.message, { text })
+  }
+
+  private record(prompt: string, reply: ScriptReply): void {
+    const existing = this.script.rules.find(rule => rule.prompt === prompt)
+    if (existing) {
+      existing.reply = [...(Array.isArray(existing.reply) ? existing.reply : [existing.reply]), reply]
+    } else {
+      this.script.rules.push({ prompt, reply })
+    }
+    writeFileSync(this.path, JSON.stringify(this.script, null, 2))
+  }
+}
@@ -0,0 +1,54 @@
+export const LLM_PROVIDER_NAMES = ['cohere', 'openai', 'local', 'scripted'] as const
+
+export type LLMProviderName = typeof LLM_PROVIDER_NAMES[number]
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDER_NAMES as readonly string[]).includes(value)
+}
+
+export interface ChatRequest {
+  message: string
+  maxTokens?: number
+  temperature?: number
+}
+
+export interface ChatResponse {
+  text: string
+}
+
+// Shared interface every model backend implements
+export interface LLMProvider {
+  readonly name: string
+  chat(request: ChatRequest): Promise<ChatResponse>
+  // Asks for JSON and parses it; throws LLMResponseParseError on malformed output
+  chatJSON<T>(request: ChatRequest): Promise<T>
+  // Yields text deltas as they are generated
+  chatStream(request: ChatRequest): AsyncIterable<string>
+}
+
+export class LLMResponseParseError extends Error {
+  constructor(message: string, public readonly rawText: string) {
+    super(message)
+    this.name = 'LLMResponseParseError'
+  }
+}
+
+// Strip markdown fences and pull the first JSON array/object out of a model reply
+export function parseJSONResponse<T>(text: string): T {
+  const cleaned = text.replace(/```json\s*|\s*```/g, '').trim()
+
+  try {
+    return JSON.parse(cleaned) as T
+  } catch {
+    const jsonMatch = cleaned.match(/\[[\s\S]*\]/) || cleaned.match(/\{[\s\S]*\}/)
+    if (jsonMatch) {
+      try {
+        return JSON.parse(jsonMatch[0]) as T
+      } catch {
+        // fall through to the parse error below
+      }
+    }
+  }
+
+  throw new LLMResponseParseError('Model response was not valid JSON', text)
+}
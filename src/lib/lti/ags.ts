@@ -0,0 +1,117 @@
+import { randomUUID } from 'crypto'
+import { buildGradebook } from '../gradebook'
+import { getStorage } from '../storage'
+import { signJWT } from './jwt'
+import { GRADE_TARGETS, GradeTarget, gradeTargetKey } from './launch'
+import { getToolKey } from './platforms'
+import { AGS_SCORE_SCOPE, LtiError, PlatformRegistration } from './types'
+
+// A score as Assignment and Grade Services expects it (application/vnd.ims.lis.v1.score+json)
+export interface Score {
+  userId: string
+  scoreGiven: number
+  scoreMaximum: number
+  comment?: string
+  timestamp: string
+  activityProgress: 'Initialized' | 'Started' | 'InProgress' | 'Submitted' | 'Completed'
+  gradingProgress: 'FullyGraded' | 'Pending' | 'PendingManual' | 'Failed' | 'NotReady'
+}
+
+const tokenCache = new Map<string, { token: string, expiresAt: number }>()
+
+type TokenEndpoint = Pick<PlatformRegistration, 'clientId' | 'authTokenUrl'>
+
+// Client credentials grant with a JWT client assertion signed by the tool's key (LTI Security 4.1)
+async function getAccessToken(registration: TokenEndpoint, scope: string): Promise<string> {
+  const cacheKey = `${registration.authTokenUrl}|${registration.clientId}|${scope}`
+  const cached = tokenCache.get(cacheKey)
+  if (cached && cached.expiresAt > Date.now()) return cached.token
+
+  const now = Math.floor(Date.now() / 1000)
+  const assertion = signJWT({
+    iss: registration.clientId,
+    sub: registration.clientId,
+    aud: registration.authTokenUrl,
+    iat: now,
+    exp: now + 300,
+    jti: randomUUID()
+  }, await getToolKey())
+
+  const response = await fetch(registration.authTokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+      client_assertion: assertion,
+      scope
+    })
+  })
+  if (!response.ok) {
+    throw new LtiError(`Platform refused an access token: ${response.status} ${await response.text()}`, 502)
+  }
+  const { access_token, expires_in } = await response.json() as { access_token: string, expires_in?: number }
+  // Renew a minute early so a token never expires between the cache check and the request
+  tokenCache.set(cacheKey, { token: access_token, expiresAt: Date.now() + ((expires_in || 3600) - 60) * 1000 })
+  return access_token
+}
+
+// Scores are posted to the line item URL with /scores appended to its path (AGS 3.4)
+function scoresUrl(lineitem: string): string {
+  const url = new URL(lineitem)
+  url.pathname = `${url.pathname.replace(/\/$/, '')}/scores`
+  return url.toString()
+}
+
+export async function postScore(registration: TokenEndpoint, lineitem: string, score: Score): Promise<void> {
+  const token = await getAccessToken(registration, AGS_SCORE_SCOPE)
+  const response = await fetch(scoresUrl(lineitem), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/vnd.ims.lis.v1.score+json',
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify(score)
+  })
+  if (!response.ok) {
+    throw new LtiError(`Platform refused the score: ${response.status} ${await response.text()}`, 502)
+  }
+}
+
+/**
+ * Sends a student's grade for an assignment to the LMS they launched it from. The score is the
+ * gradebook's: the rubric score of their best analyzed session, out of 100. Students who never launched
+ * through an LMS are skipped. Failures are logged and kept on the grade target rather than thrown,
+ * so a platform outage never fails the coverage analysis that triggered the passback.
+ */
+export async function passBackGrade(assignmentId: string, studentId: string): Promise<void> {
+  const key = gradeTargetKey(assignmentId, studentId)
+  const target = await getStorage().get<GradeTarget>(GRADE_TARGETS, key)
+  if (!target) return
+
+  const gradebook = await buildGradebook({ assignmentId })
+  const row = gradebook.rows.find(r => r.studentId === studentId)
+  if (row?.score === undefined) return
+
+  const score: Score = {
+    userId: target.userId,
+    scoreGiven: Math.round(row.score * 10) / 10,
+    scoreMaximum: 100,
+    comment: row.totalRequirements
+      ? `Grade ${row.grade}: ${row.requirementsCovered} of ${row.totalRequirements} requirements covered`
+      : `Grade ${row.grade}`,
+    timestamp: new Date().toISOString(),
+    activityProgress: row.status === 'completed' ? 'Completed' : 'InProgress',
+    gradingProgress: 'FullyGraded'
+  }
+
+  try {
+    await postScore(target, target.lineitem, score)
+    target.lastPassback = { at: new Date(), scoreGiven: score.scoreGiven }
+    console.log(`Grade passed back for student ${studentId} on assignment ${assignmentId}: ${score.scoreGiven}`)
+  } catch (error) {
+    console.error('LTI grade passback failed:', error)
+    target.lastPassback = { at: new Date(), error: error instanceof Error ? error.message : String(error) }
+  }
+  await getStorage().put(GRADE_TARGETS, key, target)
+}
@@ -0,0 +1,9 @@
+export * from './types'
+export { passBackGrade, postScore } from './ags'
+export type { Score } from './ags'
+export { fetchKeyset, signJWT, verifyJWT } from './jwt'
+export { handleLaunch, isInstructor, startLogin, validateLaunch } from './launch'
+export type { GradeTarget, LaunchResult, LoginParams } from './launch'
+export { findRegistration, getToolKey, isMockPlatformEnabled, listRegistrations, toolBaseUrl } from './platforms'
+export { assertMockEnabled, authorizeMockLaunch, issueMockToken, listMockScores, mockKeyset, recordMockScore, startMockLaunch } from './mock-platform'
+export type { MockLaunchOptions, MockScore } from './mock-platform'
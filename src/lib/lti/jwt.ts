@@ -0,0 +1,112 @@
+import { createHash, createPrivateKey, createPublicKey, createSign, createVerify, generateKeyPairSync, KeyObject } from 'crypto'
+import { getStorage } from '../storage'
+import { JWK, JWTHeader, LtiError } from './types'
+
+// A signing key with the public half published as a JWK
+export interface SigningKey {
+  kid: string
+  privateKey: KeyObject
+  publicJwk: JWK
+}
+
+interface StoredKey {
+  privateKeyPem: string
+}
+
+const KEYS = 'lti_keys'
+
+// Clock skew tolerated between this server and the platform, in seconds
+const CLOCK_TOLERANCE = 60
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url')
+}
+
+export function signingKeyFromPem(privateKeyPem: string): SigningKey {
+  const privateKey = createPrivateKey(privateKeyPem)
+  const jwk = createPublicKey(privateKey).export({ format: 'jwk' }) as JWK
+  // RFC 7638 thumbprint, so the kid stays the same for the same key
+  const kid = createHash('sha256').update(JSON.stringify({ e: jwk.e, kty: jwk.kty, n: jwk.n })).digest('base64url')
+  return { kid, privateKey, publicJwk: { ...jwk, kid, alg: 'RS256', use: 'sig' } }
+}
+
+/**
+ * Loads a key from a PEM, or in development generates one and keeps it in the store so the
+ * kid published to the platform stays the same across restarts.
+ */
+export async function loadSigningKey(name: string, pem: string | undefined): Promise<SigningKey> {
+  if (pem) return signingKeyFromPem(pem.replace(/\\n/g, '\n'))
+
+  const stored = await getStorage().get<StoredKey>(KEYS, name)
+  if (stored) return signingKeyFromPem(stored.privateKeyPem)
+
+  const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+  const privateKeyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
+  await getStorage().put<StoredKey>(KEYS, name, { privateKeyPem })
+  console.log(`Generated LTI signing key "${name}"`)
+  return signingKeyFromPem(privateKeyPem)
+}
+
+export function signJWT(payload: object, key: SigningKey): string {
+  const header: JWTHeader = { alg: 'RS256', typ: 'JWT', kid: key.kid }
+  const input = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(payload))}`
+  const signature = createSign('RSA-SHA256').update(input).sign(key.privateKey)
+  return `${input}.${base64url(signature)}`
+}
+
+export function decodeJWT<T>(token: string): { header: JWTHeader, payload: T } {
+  const [header, payload, signature] = token.split('.')
+  if (!header || !payload || !signature) throw new LtiError('Malformed JWT')
+  try {
+    return {
+      header: JSON.parse(Buffer.from(header, 'base64url').toString()),
+      payload: JSON.parse(Buffer.from(payload, 'base64url').toString())
+    }
+  } catch {
+    throw new LtiError('Malformed JWT')
+  }
+}
+
+/**
+ * Checks an RS256 signature against the key in the set matching the token's kid, then the
+ * token's expiry. Claims such as iss, aud and nonce are the caller's to check.
+ */
+export function verifyJWT<T extends { exp?: number, iat?: number }>(token: string, keys: JWK[], now = Date.now()): T {
+  const { header, payload } = decodeJWT<T>(token)
+  if (header.alg !== 'RS256') throw new LtiError(`Unsupported JWT algorithm: ${header.alg}`)
+
+  const jwk = header.kid ? keys.find(k => k.kid === header.kid) : keys.length === 1 ? keys[0] : undefined
+  if (!jwk) throw new LtiError('No platform key matches the JWT')
+
+  const [encodedHeader, encodedPayload, signature] = token.split('.')
+  const valid = createVerify('RSA-SHA256')
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .verify(createPublicKey({ key: { ...jwk }, format: 'jwk' }), Buffer.from(signature, 'base64url'))
+  if (!valid) throw new LtiError('Invalid JWT signature', 401)
+
+  const seconds = Math.floor(now / 1000)
+  if (typeof payload.exp !== 'number' || payload.exp + CLOCK_TOLERANCE < seconds) {
+    throw new LtiError('JWT has expired', 401)
+  }
+  if (typeof payload.iat === 'number' && payload.iat - CLOCK_TOLERANCE > seconds) {
+    throw new LtiError('JWT was issued in the future', 401)
+  }
+  return payload
+}
+
+const keysetCache = new Map<string, { keys: JWK[], fetchedAt: number }>()
+const KEYSET_TTL = 10 * 60 * 1000
+
+// Platforms rotate keys rarely, so a keyset is reused for a while and refetched on an unknown kid
+export async function fetchKeyset(url: string, kid?: string): Promise<JWK[]> {
+  const cached = keysetCache.get(url)
+  if (cached && Date.now() - cached.fetchedAt < KEYSET_TTL && (!kid || cached.keys.some(k => k.kid === kid))) {
+    return cached.keys
+  }
+
+  const response = await fetch(url)
+  if (!response.ok) throw new LtiError(`Failed to fetch keyset ${url}: ${response.status}`, 502)
+  const { keys } = await response.json() as { keys: JWK[] }
+  keysetCache.set(url, { keys, fetchedAt: Date.now() })
+  return keys
+}
@@ -0,0 +1,265 @@
+import { randomBytes } from 'crypto'
+import { Assignment, createAssignment, findAssignmentByCode, getAssignment } from '../assignments'
+import { createCourse, createSection, getSection, updateSection } from '../courses'
+import { getProject } from '../projects'
+import { getStorage } from '../storage'
+import { createStudent, findStudent, getStudent } from '../students'
+import { decodeJWT, fetchKeyset, verifyJWT } from './jwt'
+import { findRegistration } from './platforms'
+import { AGS_SCORE_SCOPE, INSTRUCTOR_ROLES, LaunchClaims, LTI_CLAIMS, LtiError, PlatformRegistration } from './types'
+
+// The query or form parameters of a third-party initiated login (LTI Core 5.1.1)
+export interface LoginParams {
+  iss?: string | null
+  login_hint?: string | null
+  target_link_uri?: string | null
+  lti_message_hint?: string | null
+  client_id?: string | null
+  lti_deployment_id?: string | null
+}
+
+export type LaunchResult =
+  | { role: 'instructor', projectId: string, assignmentId: string }
+  | { role: 'student', studentId: string, assignmentId: string, joinCode: string }
+
+// Where a learner's score goes when their coverage is analyzed; see ags.ts
+export interface GradeTarget {
+  assignmentId: string
+  studentId: string
+  issuer: string
+  clientId: string
+  authTokenUrl: string
+  lineitem: string
+  userId: string // The platform's `sub` for the student
+  lastPassback?: { at: Date, scoreGiven?: number, error?: string }
+}
+
+interface LoginState {
+  state: string
+  nonce: string
+  issuer: string
+  clientId: string
+  expiresAt: number
+}
+
+// An LMS context (course offering) as created here: one course with a single section for its roster
+interface ContextLink {
+  key: string
+  courseId: string
+  sectionId: string
+}
+
+// An LMS resource link (the activity placed in a course) and the assignment it opens
+interface ResourceLink {
+  key: string
+  assignmentId: string
+}
+
+interface UserLink {
+  key: string
+  studentId: string
+}
+
+const STATES = 'lti_states'
+const CONTEXTS = 'lti_contexts'
+const LINKS = 'lti_links'
+const USERS = 'lti_users'
+export const GRADE_TARGETS = 'lti_grade_targets'
+
+const STATE_TTL = 10 * 60 * 1000 // A login must come back as a launch within ten minutes
+
+export function gradeTargetKey(assignmentId: string, studentId: string): string {
+  return `${assignmentId}|${studentId}`
+}
+
+/**
+ * The first leg of an LTI 1.3 launch. The platform names itself and the user; the tool answers with
+ * the platform's OIDC authorization URL, carrying a one-time state and nonce it checks on return.
+ */
+export async function startLogin(baseUrl: string, params: LoginParams): Promise<string> {
+  if (!params.iss || !params.login_hint || !params.target_link_uri) {
+    throw new LtiError('iss, login_hint and target_link_uri are required')
+  }
+  const registration = findRegistration(baseUrl, params.iss, params.client_id || undefined)
+
+  const now = Date.now()
+  for (const stale of await getStorage().list<LoginState>(STATES)) {
+    if (stale.expiresAt < now) await getStorage().delete(STATES, stale.state)
+  }
+  const login: LoginState = {
+    state: randomBytes(24).toString('base64url'),
+    nonce: randomBytes(24).toString('base64url'),
+    issuer: registration.issuer,
+    clientId: registration.clientId,
+    expiresAt: now + STATE_TTL
+  }
+  await getStorage().put(STATES, login.state, login)
+
+  const url = new URL(registration.authLoginUrl)
+  url.search = new URLSearchParams({
+    scope: 'openid',
+    response_type: 'id_token',
+    response_mode: 'form_post',
+    prompt: 'none',
+    client_id: registration.clientId,
+    redirect_uri: `${baseUrl}/api/lti/launch`,
+    login_hint: params.login_hint,
+    state: login.state,
+    nonce: login.nonce,
+    ...(params.lti_message_hint ? { lti_message_hint: params.lti_message_hint } : {})
+  }).toString()
+  return url.toString()
+}
+
+/**
+ * The second leg: checks the id_token the platform posted back against the login it answers, the
+ * platform's keyset and the LTI Core message rules. Each state can be used once.
+ */
+export async function validateLaunch(
+  baseUrl: string,
+  idToken: string,
+  state: string
+): Promise<{ claims: LaunchClaims, registration: PlatformRegistration }> {
+  const login = await getStorage().get<LoginState>(STATES, state)
+  if (!login) throw new LtiError('Unknown or already used launch state', 401)
+  await getStorage().delete(STATES, state)
+  if (login.expiresAt < Date.now()) throw new LtiError('Launch took too long; please try again', 401)
+
+  const { header, payload } = decodeJWT<LaunchClaims>(idToken)
+  if (payload.iss !== login.issuer) throw new LtiError('Launch issuer does not match the login', 401)
+  const registration = findRegistration(baseUrl, login.issuer, login.clientId)
+
+  const claims = verifyJWT<LaunchClaims>(idToken, await fetchKeyset(registration.keysetUrl, header.kid))
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (!audiences.includes(registration.clientId)) throw new LtiError('Launch is for another client', 401)
+  if (audiences.length > 1 && claims.azp !== registration.clientId) {
+    throw new LtiError('Launch azp does not name this client', 401)
+  }
+  if (claims.nonce !== login.nonce) throw new LtiError('Launch nonce does not match the login', 401)
+
+  const deploymentId = claims[LTI_CLAIMS.deploymentId]
+  if (!deploymentId || (registration.deploymentIds && !registration.deploymentIds.includes(deploymentId))) {
+    throw new LtiError(`Unknown deployment: ${deploymentId}`, 401)
+  }
+  if (claims[LTI_CLAIMS.version] !== '1.3.0') throw new LtiError('Only LTI 1.3.0 launches are supported')
+  if (claims[LTI_CLAIMS.messageType] !== 'LtiResourceLinkRequest') {
+    throw new LtiError(`Unsupported LTI message type: ${claims[LTI_CLAIMS.messageType]}`)
+  }
+  if (!claims[LTI_CLAIMS.resourceLink]?.id) throw new LtiError('Launch has no resource link')
+  if (!claims.sub) throw new LtiError('Anonymous launches are not supported')
+
+  return { claims, registration }
+}
+
+export function isInstructor(claims: LaunchClaims): boolean {
+  return (claims[LTI_CLAIMS.roles] || []).some(role => INSTRUCTOR_ROLES.includes(role))
+}
+
+/**
+ * Maps a validated launch onto this app: the LMS context becomes a course and section, the
+ * resource link an assignment, and a learner a roster student enrolled in that section.
+ * An activity is tied to a project the first time it is launched, through the custom parameter
+ * join_code (an existing assignment) or project_id (a new assignment for the LMS section).
+ */
+export async function handleLaunch(claims: LaunchClaims, registration: PlatformRegistration): Promise<LaunchResult> {
+  const scope = `${registration.issuer}|${claims[LTI_CLAIMS.deploymentId]}`
+  const context = await linkContext(scope, claims)
+  const assignment = await linkResource(scope, claims, context?.sectionId)
+
+  const project = await getProject(assignment.projectId)
+  if (!project) throw new LtiError('The project behind this activity no longer exists', 404)
+
+  if (isInstructor(claims)) {
+    return { role: 'instructor', projectId: project.projectId, assignmentId: assignment.assignmentId }
+  }
+
+  const studentId = await linkUser(registration.issuer, claims)
+  const sectionId = assignment.sectionId || context?.sectionId
+  const section = sectionId ? await getSection(sectionId) : undefined
+  if (section && !section.studentIds.includes(studentId)) {
+    await updateSection(section.sectionId, { studentIds: [...section.studentIds, studentId] })
+  }
+
+  // Grades can only go back when the platform offers a line item and lets us post scores to it
+  const ags = claims[LTI_CLAIMS.agsEndpoint]
+  if (ags?.lineitem && ags.scope.includes(AGS_SCORE_SCOPE)) {
+    const target: GradeTarget = {
+      ...await getStorage().get<GradeTarget>(GRADE_TARGETS, gradeTargetKey(assignment.assignmentId, studentId)),
+      assignmentId: assignment.assignmentId,
+      studentId,
+      issuer: registration.issuer,
+      clientId: registration.clientId,
+      authTokenUrl: registration.authTokenUrl,
+      lineitem: ags.lineitem,
+      userId: claims.sub
+    }
+    await getStorage().put(GRADE_TARGETS, gradeTargetKey(assignment.assignmentId, studentId), target)
+  }
+
+  return { role: 'student', studentId, assignmentId: assignment.assignmentId, joinCode: assignment.joinCode }
+}
+
+async function linkContext(scope: string, claims: LaunchClaims): Promise<ContextLink | undefined> {
+  const context = claims[LTI_CLAIMS.context]
+  if (!context?.id) return undefined
+
+  const key = `${scope}|${context.id}`
+  const existing = await getStorage().get<ContextLink>(CONTEXTS, key)
+  if (existing) return existing
+
+  const course = await createCourse({ name: context.title || context.label || context.id })
+  const section = await createSection(course.courseId, { name: context.label || 'LMS roster' })
+  const link: ContextLink = { key, courseId: course.courseId, sectionId: section.sectionId }
+  await getStorage().put(CONTEXTS, key, link)
+  console.log(`LTI context ${context.id} linked to course ${course.courseId}`)
+  return link
+}
+
+async function linkResource(scope: string, claims: LaunchClaims, sectionId?: string): Promise<Assignment> {
+  const resourceLink = claims[LTI_CLAIMS.resourceLink]
+  const key = `${scope}|${resourceLink.id}`
+  const existing = await getStorage().get<ResourceLink>(LINKS, key)
+  if (existing) {
+    const assignment = await getAssignment(existing.assignmentId)
+    if (assignment) return assignment
+  }
+
+  const custom = claims[LTI_CLAIMS.custom] || {}
+  let assignment: Assignment | undefined
+  if (custom.join_code) {
+    assignment = await findAssignmentByCode(custom.join_code)
+    if (!assignment) throw new LtiError(`No assignment has the join code ${custom.join_code}`, 404)
+  } else if (custom.project_id) {
+    const project = await getProject(custom.project_id)
+    if (!project) throw new LtiError(`Project ${custom.project_id} not found`, 404)
+    if (project.status === 'archived') throw new LtiError('This project has been archived', 409)
+    assignment = await createAssignment({
+      projectId: project.projectId,
+      title: resourceLink.title || project.name,
+      sectionId
+    })
+  } else {
+    throw new LtiError(
+      'This activity is not set up yet. Add the custom parameter join_code or project_id to the LMS link.',
+      409
+    )
+  }
+
+  await getStorage().put<ResourceLink>(LINKS, key, { key, assignmentId: assignment.assignmentId })
+  console.log(`LTI resource link ${resourceLink.id} linked to assignment ${assignment.assignmentId}`)
+  return assignment
+}
+
+// The same LMS user always maps to the same student; the first launch matches the roster by email
+async function linkUser(issuer: string, claims: LaunchClaims): Promise<string> {
+  const key = `${issuer}|${claims.sub}`
+  const existing = await getStorage().get<UserLink>(USERS, key)
+  if (existing && await getStudent(existing.studentId)) return existing.studentId
+
+  const name = claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(' ') || claims.email || claims.sub
+  const student = (claims.email ? await findStudent(claims.email) : undefined) ||
+    await createStudent({ name, email: claims.email })
+  await getStorage().put<UserLink>(USERS, key, { key, studentId: student.studentId })
+  return student.studentId
+}
@@ -0,0 +1,194 @@
+import { randomBytes, randomUUID } from 'crypto'
+import { getStorage } from '../storage'
+import type { Score } from './ags'
+import { fetchKeyset, loadSigningKey, SigningKey, signJWT, verifyJWT } from './jwt'
+import { isMockPlatformEnabled, MOCK_CLIENT_ID, MOCK_DEPLOYMENT_ID, mockIssuer } from './platforms'
+import { AGS_SCORE_SCOPE, INSTRUCTOR_ROLES, LaunchClaims, LTI_CLAIMS, LtiError } from './types'
+
+/**
+ * A stand-in LMS for trying the tool without one: it starts launches, signs id_tokens, issues
+ * access tokens to the tool's signed client assertions and keeps the scores posted to it.
+ * Only served when LTI_MOCK_PLATFORM=true.
+ */
+
+// What the person testing asks the mock LMS to launch; every field has a default
+export interface MockLaunchOptions {
+  role?: 'learner' | 'instructor'
+  userId?: string
+  name?: string
+  email?: string
+  contextId?: string
+  contextTitle?: string
+  resourceLinkId?: string
+  resourceLinkTitle?: string
+  projectId?: string // Sent as the custom parameter project_id
+  joinCode?: string // Sent as the custom parameter join_code
+}
+
+interface PendingLaunch extends Required<Pick<MockLaunchOptions, 'role' | 'userId' | 'name' | 'contextId' | 'resourceLinkId'>> {
+  launchId: string
+  email?: string
+  contextTitle?: string
+  resourceLinkTitle?: string
+  custom: Record<string, string>
+  createdAt: number
+}
+
+interface AccessToken {
+  token: string
+  scope: string[]
+  expiresAt: number
+}
+
+// The latest score per user and line item, as an LMS gradebook column keeps it
+export interface MockScore extends Score {
+  lineItemId: string
+  receivedAt: Date
+}
+
+const LAUNCHES = 'lti_mock_launches'
+const TOKENS = 'lti_mock_tokens'
+const SCORES = 'lti_mock_scores'
+
+const TOKEN_TTL = 3600 // seconds
+
+export function assertMockEnabled(): void {
+  if (!isMockPlatformEnabled()) throw new LtiError('Not found', 404)
+}
+
+function platformKey(): Promise<SigningKey> {
+  return loadSigningKey('mock-platform', undefined)
+}
+
+export async function mockKeyset(): Promise<{ keys: object[] }> {
+  return { keys: [(await platformKey()).publicJwk] }
+}
+
+// Step one of a launch: remember what to launch and send the browser to the tool's login URL
+export async function startMockLaunch(baseUrl: string, options: MockLaunchOptions): Promise<string> {
+  const custom: Record<string, string> = {}
+  if (options.projectId) custom.project_id = options.projectId
+  if (options.joinCode) custom.join_code = options.joinCode
+
+  const launch: PendingLaunch = {
+    launchId: randomUUID(),
+    role: options.role === 'instructor' ? 'instructor' : 'learner',
+    userId: options.userId || 'mock-student-1',
+    name: options.name || (options.role === 'instructor' ? 'Mock Instructor' : 'Mock Student'),
+    email: options.email,
+    contextId: options.contextId || 'mock-course',
+    contextTitle: options.contextTitle || 'Mock Course',
+    resourceLinkId: options.resourceLinkId || 'mock-activity',
+    resourceLinkTitle: options.resourceLinkTitle,
+    custom,
+    createdAt: Date.now()
+  }
+  await getStorage().put(LAUNCHES, launch.launchId, launch)
+
+  const url = new URL(`${baseUrl}/api/lti/login`)
+  url.search = new URLSearchParams({
+    iss: mockIssuer(baseUrl),
+    client_id: MOCK_CLIENT_ID,
+    lti_deployment_id: MOCK_DEPLOYMENT_ID,
+    login_hint: launch.userId,
+    lti_message_hint: launch.launchId,
+    target_link_uri: `${baseUrl}/api/lti/launch`
+  }).toString()
+  return url.toString()
+}
+
+// Step two: the OIDC authorization request. Answers with the id_token the browser posts to the tool.
+export async function authorizeMockLaunch(
+  baseUrl: string,
+  params: URLSearchParams
+): Promise<{ redirectUri: string, idToken: string, state: string }> {
+  const redirectUri = params.get('redirect_uri')
+  if (params.get('client_id') !== MOCK_CLIENT_ID) throw new LtiError('Unknown client_id')
+  if (redirectUri !== `${baseUrl}/api/lti/launch`) throw new LtiError('redirect_uri is not registered')
+  if (params.get('response_type') !== 'id_token' || params.get('scope') !== 'openid') {
+    throw new LtiError('Only the LTI implicit flow is supported')
+  }
+  const state = params.get('state')
+  const nonce = params.get('nonce')
+  if (!state || !nonce) throw new LtiError('state and nonce are required')
+
+  const launch = await getStorage().get<PendingLaunch>(LAUNCHES, params.get('lti_message_hint') || '')
+  if (!launch || launch.userId !== params.get('login_hint')) throw new LtiError('Unknown launch', 404)
+  await getStorage().delete(LAUNCHES, launch.launchId)
+
+  const issuer = mockIssuer(baseUrl)
+  const now = Math.floor(Date.now() / 1000)
+  const claims: LaunchClaims = {
+    iss: issuer,
+    aud: MOCK_CLIENT_ID,
+    sub: launch.userId,
+    exp: now + 300,
+    iat: now,
+    nonce,
+    name: launch.name,
+    email: launch.email,
+    [LTI_CLAIMS.messageType]: 'LtiResourceLinkRequest',
+    [LTI_CLAIMS.version]: '1.3.0',
+    [LTI_CLAIMS.deploymentId]: MOCK_DEPLOYMENT_ID,
+    [LTI_CLAIMS.targetLinkUri]: redirectUri,
+    [LTI_CLAIMS.resourceLink]: { id: launch.resourceLinkId, title: launch.resourceLinkTitle },
+    [LTI_CLAIMS.roles]: launch.role === 'instructor'
+      ? [INSTRUCTOR_ROLES[0]]
+      : ['http://purl.imsglobal.org/vocab/lis/v2/membership#Learner'],
+    [LTI_CLAIMS.context]: { id: launch.contextId, title: launch.contextTitle },
+    [LTI_CLAIMS.custom]: launch.custom,
+    [LTI_CLAIMS.agsEndpoint]: {
+      scope: [AGS_SCORE_SCOPE],
+      lineitem: `${issuer}/lineitems/${encodeURIComponent(launch.resourceLinkId)}`
+    }
+  }
+  return { redirectUri, idToken: signJWT(claims, await platformKey()), state }
+}
+
+// The token endpoint: checks the tool's client assertion against the tool's published keyset
+export async function issueMockToken(baseUrl: string, form: URLSearchParams): Promise<object> {
+  if (form.get('grant_type') !== 'client_credentials' ||
+      form.get('client_assertion_type') !== 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer') {
+    throw new LtiError('unsupported_grant_type')
+  }
+  const assertion = form.get('client_assertion')
+  if (!assertion) throw new LtiError('client_assertion is required')
+
+  const claims = verifyJWT<{ iss: string, sub: string, aud: string | string[], exp: number }>(
+    assertion,
+    await fetchKeyset(`${baseUrl}/api/lti/jwks`)
+  )
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+  if (claims.iss !== MOCK_CLIENT_ID || claims.sub !== MOCK_CLIENT_ID || !audiences.includes(`${mockIssuer(baseUrl)}/token`)) {
+    throw new LtiError('invalid_client', 401)
+  }
+
+  const scope = (form.get('scope') || '').split(' ').filter(s => s === AGS_SCORE_SCOPE)
+  const token: AccessToken = {
+    token: randomBytes(24).toString('base64url'),
+    scope,
+    expiresAt: Date.now() + TOKEN_TTL * 1000
+  }
+  await getStorage().put(TOKENS, token.token, token)
+  return { access_token: token.token, token_type: 'Bearer', expires_in: TOKEN_TTL, scope: scope.join(' ') }
+}
+
+export async function recordMockScore(lineItemId: string, authorization: string | null, score: Score): Promise<MockScore> {
+  const token = authorization?.startsWith('Bearer ')
+    ? await getStorage().get<AccessToken>(TOKENS, authorization.slice('Bearer '.length))
+    : undefined
+  if (!token || token.expiresAt < Date.now()) throw new LtiError('Invalid access token', 401)
+  if (!token.scope.includes(AGS_SCORE_SCOPE)) throw new LtiError('Token lacks the score scope', 403)
+
+  if (!score.userId || typeof score.scoreGiven !== 'number' || typeof score.scoreMaximum !== 'number') {
+    throw new LtiError('userId, scoreGiven and scoreMaximum are required')
+  }
+  const stored: MockScore = { ...score, lineItemId, receivedAt: new Date() }
+  await getStorage().put(SCORES, `${lineItemId}|${score.userId}`, stored)
+  return stored
+}
+
+export async function listMockScores(lineItemId: string): Promise<MockScore[]> {
+  const scores = await getStorage().list<MockScore>(SCORES)
+  return scores.filter(score => score.lineItemId === lineItemId)
+}
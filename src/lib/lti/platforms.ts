@@ -0,0 +1,78 @@
+import { loadSigningKey, SigningKey } from './jwt'
+import { LtiError, PlatformRegistration } from './types'
+
+export const MOCK_CLIENT_ID = 'persona-sim-mock'
+export const MOCK_DEPLOYMENT_ID = 'mock-deployment'
+
+let warnedAboutKey = false
+
+// LTI_MOCK_PLATFORM=true serves a stand-in LMS under /api/lti/mock for trying launches and passback locally
+export function isMockPlatformEnabled(): boolean {
+  return process.env.LTI_MOCK_PLATFORM === 'true'
+}
+
+// The tool's public address; APP_URL wins over the request's own origin, which is wrong behind a proxy
+export function toolBaseUrl(req: Request): string {
+  return (process.env.APP_URL || new URL(req.url).origin).replace(/\/$/, '')
+}
+
+export function mockIssuer(baseUrl: string): string {
+  return `${baseUrl}/api/lti/mock`
+}
+
+function mockRegistration(baseUrl: string): PlatformRegistration {
+  const issuer = mockIssuer(baseUrl)
+  return {
+    issuer,
+    clientId: MOCK_CLIENT_ID,
+    authLoginUrl: `${issuer}/auth`,
+    authTokenUrl: `${issuer}/token`,
+    keysetUrl: `${issuer}/jwks`,
+    deploymentIds: [MOCK_DEPLOYMENT_ID]
+  }
+}
+
+// LTI_PLATFORMS is a JSON array of registrations, one per LMS (or per client ID on the same LMS)
+function configuredRegistrations(): PlatformRegistration[] {
+  const raw = process.env.LTI_PLATFORMS
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed : [parsed]
+  } catch (error) {
+    console.error('LTI_PLATFORMS is not valid JSON:', error)
+    return []
+  }
+}
+
+export function listRegistrations(baseUrl: string): PlatformRegistration[] {
+  const registrations = configuredRegistrations()
+  return isMockPlatformEnabled() ? [...registrations, mockRegistration(baseUrl)] : registrations
+}
+
+// Platforms identify themselves by issuer; client_id tells apart several registrations on one issuer
+export function findRegistration(baseUrl: string, issuer: string, clientId?: string): PlatformRegistration {
+  const registration = listRegistrations(baseUrl).find(r =>
+    r.issuer === issuer && (!clientId || r.clientId === clientId)
+  )
+  if (!registration) throw new LtiError(`Unknown LTI platform: ${issuer}`, 401)
+  return registration
+}
+
+/**
+ * The key the tool signs grade passback requests with. Production requires LTI_PRIVATE_KEY (a PEM);
+ * development generates one on first use, like AUTH_SECRET's fallback in auth.ts.
+ */
+export async function getToolKey(): Promise<SigningKey> {
+  const pem = process.env.LTI_PRIVATE_KEY
+  if (!pem) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('LTI_PRIVATE_KEY is not set')
+    }
+    if (!warnedAboutKey) {
+      console.warn('LTI_PRIVATE_KEY is not set - using a generated development key for LTI')
+      warnedAboutKey = true
+    }
+  }
+  return loadSigningKey('tool', pem)
+}
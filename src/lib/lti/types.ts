@@ -0,0 +1,91 @@
+// LTI 1.3 claim names, as defined by the IMS LTI Core and Assignment and Grade Services specs
+export const LTI_CLAIMS = {
+  messageType: 'https://purl.imsglobal.org/spec/lti/claim/message_type',
+  version: 'https://purl.imsglobal.org/spec/lti/claim/version',
+  deploymentId: 'https://purl.imsglobal.org/spec/lti/claim/deployment_id',
+  targetLinkUri: 'https://purl.imsglobal.org/spec/lti/claim/target_link_uri',
+  resourceLink: 'https://purl.imsglobal.org/spec/lti/claim/resource_link',
+  roles: 'https://purl.imsglobal.org/spec/lti/claim/roles',
+  context: 'https://purl.imsglobal.org/spec/lti/claim/context',
+  custom: 'https://purl.imsglobal.org/spec/lti/claim/custom',
+  agsEndpoint: 'https://purl.imsglobal.org/spec/lti-ags/claim/endpoint'
+} as const
+
+export const AGS_SCORE_SCOPE = 'https://purl.imsglobal.org/spec/lti-ags/scope/score'
+
+// Roles that may open the instructor dashboard; everyone else launches as a student
+export const INSTRUCTOR_ROLES = [
+  'http://purl.imsglobal.org/vocab/lis/v2/membership#Instructor',
+  'http://purl.imsglobal.org/vocab/lis/v2/membership#ContentDeveloper',
+  'http://purl.imsglobal.org/vocab/lis/v2/institution/person#Administrator',
+  'http://purl.imsglobal.org/vocab/lis/v2/system/person#Administrator'
+]
+
+// An LMS registered with this tool. Registrations come from LTI_PLATFORMS (see platforms.ts).
+export interface PlatformRegistration {
+  issuer: string
+  clientId: string
+  authLoginUrl: string // OIDC authorization endpoint the login step redirects to
+  authTokenUrl: string // OAuth2 token endpoint for grade passback
+  keysetUrl: string // The platform's JWKS, used to verify launches
+  deploymentIds?: string[] // Accepted deployments; any deployment when absent
+}
+
+export interface JWK {
+  kty: string
+  kid?: string
+  alg?: string
+  use?: string
+  n?: string
+  e?: string
+}
+
+export interface JWTHeader {
+  alg: string
+  typ?: string
+  kid?: string
+}
+
+export interface LaunchContext {
+  id: string
+  label?: string
+  title?: string
+}
+
+export interface AGSEndpoint {
+  scope: string[]
+  lineitem?: string
+  lineitems?: string
+}
+
+// The id_token a platform posts to /api/lti/launch
+export interface LaunchClaims {
+  iss: string
+  aud: string | string[]
+  azp?: string
+  sub: string
+  exp: number
+  iat: number
+  nonce: string
+  name?: string
+  given_name?: string
+  family_name?: string
+  email?: string
+  [LTI_CLAIMS.messageType]: string
+  [LTI_CLAIMS.version]: string
+  [LTI_CLAIMS.deploymentId]: string
+  [LTI_CLAIMS.targetLinkUri]?: string
+  [LTI_CLAIMS.resourceLink]: { id: string, title?: string }
+  [LTI_CLAIMS.roles]: string[]
+  [LTI_CLAIMS.context]?: LaunchContext
+  [LTI_CLAIMS.custom]?: Record<string, string>
+  [LTI_CLAIMS.agsEndpoint]?: AGSEndpoint
+}
+
+// A launch or passback the tool refuses; status is the HTTP status to answer with
+export class LtiError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message)
+    this.name = 'LtiError'
+  }
+}
@@ -0,0 +1,227 @@
+import { randomUUID } from 'crypto'
+import { normalizeConflicts, StakeholderConflict, validateConflicts } from './conflicts'
+import { HiddenFact, normalizeHiddenFacts, validateHiddenFacts } from './hidden-facts'
+import { deleteProjectReports } from './reports'
+import { pruneRequirementOwners, RequirementOwners, validateRequirementOwners } from './requirement-owners'
+import { getStorage } from './storage'
+
+export interface Persona {
+  name: string
+  initials: string
+  role: string
+  goal: string
+  concerns: string
+  personality: string
+  hiddenFacts?: HiddenFact[] // What the persona only tells a student who earns it; see hidden-facts.ts
+}
+
+export interface ProjectReference {
+  name: string
+  url: string
+  description: string
+}
+
+/**
+ * A project an instructor set up: what students interview about, the persona roster they interview
+ * and the canonical requirement list their coverage is graded against. Sessions, reports and
+ * interview settings refer to it by projectId, so two projects may share a name.
+ */
+export interface Project {
+  projectId: string
+  name: string
+  domain: string
+  stories: string // The instructor's description the personas were generated from
+  personas: Persona[]
+  projectOutline?: string
+  requirements: string[]
+  requirementOwners?: RequirementOwners // Which personas know each requirement; see requirement-owners.ts
+  conflicts?: StakeholderConflict[] // Disagreements between personas that students should uncover
+  references?: ProjectReference[]
+  metadata?: {
+    searchQuery?: string
+    reposFound?: number
+    readmesProcessed?: number
+    [key: string]: unknown
+  }
+  status: 'active' | 'archived'
+  createdAt: Date
+  updatedAt: Date
+  archivedAt?: Date
+}
+
+export type ProjectInput = Pick<Project, 'name' | 'domain' | 'stories' | 'personas'> &
+  Partial<Pick<Project, 'projectOutline' | 'requirements' | 'requirementOwners' | 'conflicts' | 'references' | 'metadata'>>
+
+// What a student's interview page may see: no requirement answer key, owners, conflicts or hidden facts,
+// since those are what the student is meant to elicit
+export type StudentProject = Pick<Project, 'projectId' | 'name' | 'domain' | 'stories' | 'projectOutline' | 'references' | 'metadata' | 'status'> & {
+  personas: Omit<Persona, 'hiddenFacts'>[]
+}
+
+// Fields an instructor can change after creation
+export type ProjectUpdate = Partial<ProjectInput & { status: Project['status'] }>
+
+const PROJECTS = 'projects'
+
+const UPDATABLE_FIELDS: (keyof ProjectUpdate)[] = [
+  'name', 'domain', 'stories', 'personas', 'projectOutline', 'requirements', 'requirementOwners', 'conflicts',
+  'references', 'metadata', 'status'
+]
+
+// Gives new hidden facts their IDs; facts that already have one keep it, so sessions' records of what was revealed stay valid
+function normalizePersonas(personas: Persona[]): Persona[] {
+  return personas.map(persona =>
+    persona.hiddenFacts ? { ...persona, hiddenFacts: normalizeHiddenFacts(persona.hiddenFacts) } : persona
+  )
+}
+
+// What coverage grading reads from the project; changing any of them invalidates its cached reports
+const GRADED_FIELDS = ['personas', 'requirements', 'requirementOwners', 'conflicts'] as const
+
+// Edited requirements and renamed personas leave owners and conflicts behind; they are dropped rather than kept stale
+function dropStaleReferences(project: Project): void {
+  const personaNames = project.personas.map(p => p.name)
+  if (project.requirementOwners) {
+    project.requirementOwners = pruneRequirementOwners(project.requirementOwners, project.requirements, personaNames)
+  }
+  if (project.conflicts) {
+    project.conflicts = project.conflicts.filter(conflict => conflict.sides.every(side => personaNames.includes(side.persona)))
+  }
+}
+
+function revive(project: Project): Project {
+  return {
+    ...project,
+    createdAt: new Date(project.createdAt),
+    updatedAt: new Date(project.updatedAt),
+    archivedAt: project.archivedAt ? new Date(project.archivedAt) : undefined
+  }
+}
+
+// Check a create or update payload; `partial` allows required fields to be left out. An update's
+// conflicts are checked against the stored project's personas when it doesn't replace them.
+export function validateProjectInput(input: unknown, partial = false, existing?: Pick<Project, 'personas'>): string[] {
+  const errors: string[] = []
+  if (!input || typeof input !== 'object') return ['Project must be an object']
+  const raw = input as Record<string, unknown>
+
+  for (const key of ['name', 'domain'] as const) {
+    if (raw[key] === undefined && partial) continue
+    if (typeof raw[key] !== 'string' || !(raw[key] as string).trim()) errors.push(`${key} is required`)
+  }
+  if (raw.stories !== undefined && typeof raw.stories !== 'string') {
+    errors.push('stories must be text')
+  }
+  if (raw.personas !== undefined || !partial) {
+    const personas = raw.personas
+    if (!Array.isArray(personas) || personas.length === 0) {
+      errors.push('personas must be a non-empty list')
+    } else if (personas.some(p => !p || typeof p.name !== 'string' || !p.name.trim())) {
+      errors.push('every persona needs a name')
+    } else if (new Set(personas.map(p => p.name)).size !== personas.length) {
+      errors.push('persona names must be unique within a project')
+    } else {
+      errors.push(...personas.flatMap(p => validateHiddenFacts(p.hiddenFacts, p.name)))
+    }
+  }
+  if (raw.requirements !== undefined &&
+      (!Array.isArray(raw.requirements) || raw.requirements.some(r => typeof r !== 'string'))) {
+    errors.push('requirements must be a list of strings')
+  }
+  errors.push(...validateRequirementOwners(raw.requirementOwners))
+  const personaNames = Array.isArray(raw.personas) ? raw.personas.map(p => p?.name) : existing?.personas.map(p => p.name)
+  errors.push(...validateConflicts(raw.conflicts, personaNames))
+  if (raw.status !== undefined && raw.status !== 'active' && raw.status !== 'archived') {
+    errors.push('status must be "active" or "archived"')
+  }
+  return errors
+}
+
+export async function createProject(input: ProjectInput): Promise<Project> {
+  const now = new Date()
+  const project: Project = {
+    projectId: randomUUID(),
+    name: input.name.trim(),
+    domain: input.domain.trim(),
+    stories: input.stories || '',
+    personas: normalizePersonas(input.personas),
+    projectOutline: input.projectOutline,
+    requirements: input.requirements || [],
+    requirementOwners: input.requirementOwners,
+    conflicts: input.conflicts && normalizeConflicts(input.conflicts),
+    references: input.references,
+    metadata: input.metadata,
+    status: 'active',
+    createdAt: now,
+    updatedAt: now
+  }
+  dropStaleReferences(project)
+  await getStorage().put(PROJECTS, project.projectId, project)
+  return project
+}
+
+export async function getProject(projectId: string): Promise<Project | undefined> {
+  const project = await getStorage().get<Project>(PROJECTS, projectId)
+  return project ? revive(project) : undefined
+}
+
+// Newest first; archived projects are hidden unless asked for
+export async function listProjects(includeArchived = false): Promise<Project[]> {
+  const projects = (await getStorage().list<Project>(PROJECTS)).map(revive)
+  return projects
+    .filter(project => includeArchived || project.status === 'active')
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
+
+export async function updateProject(projectId: string, changes: ProjectUpdate): Promise<Project | undefined> {
+  const existing = await getProject(projectId)
+  if (!existing) return undefined
+
+  // Ignore anything else in the payload (IDs, timestamps) rather than letting a client overwrite it
+  const allowed = Object.fromEntries(
+    UPDATABLE_FIELDS.filter(key => changes[key] !== undefined).map(key => [key, changes[key]])
+  ) as ProjectUpdate
+
+  const now = new Date()
+  const project: Project = {
+    ...existing,
+    ...allowed,
+    name: allowed.name?.trim() || existing.name,
+    domain: allowed.domain?.trim() || existing.domain,
+    personas: allowed.personas ? normalizePersonas(allowed.personas) : existing.personas,
+    conflicts: allowed.conflicts ? normalizeConflicts(allowed.conflicts) : existing.conflicts,
+    updatedAt: now
+  }
+  if (changes.status && changes.status !== existing.status) {
+    project.archivedAt = changes.status === 'archived' ? now : undefined
+  }
+  dropStaleReferences(project)
+
+  await getStorage().put(PROJECTS, projectId, project)
+  if (GRADED_FIELDS.some(key => JSON.stringify(project[key]) !== JSON.stringify(existing[key]))) {
+    await deleteProjectReports(projectId)
+  }
+  return project
+}
+
+export function toStudentProject(project: Project): StudentProject {
+  return {
+    projectId: project.projectId,
+    name: project.name,
+    domain: project.domain,
+    stories: project.stories,
+    personas: project.personas.map(({ hiddenFacts, ...persona }) => {
+      void hiddenFacts
+      return persona
+    }),
+    projectOutline: project.projectOutline,
+    references: project.references,
+    metadata: project.metadata,
+    status: project.status
+  }
+}
+
+// Archiving keeps the project and its sessions for grading but closes it to new interviews
+export async function archiveProject(projectId: string): Promise<Project | undefined> {
+  return updateProject(projectId, { status: 'archived' })
+}
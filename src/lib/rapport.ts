@@ -0,0 +1,108 @@
+/**
+ * How each persona feels about the student, so a rude or careless interviewer gets a different
+ * conversation from a thoughtful one. Every student message is read for its tone and moves the
+ * personas' rapport, patience and trust; the result decides how much a persona is willing to share
+ * and is written into its prompt. Moods are kept per persona in the session's workflow state and
+ * copied onto each reply's metadata, where the instructor dashboard reads them.
+ */
+
+export type Tone = 'hostile' | 'dismissive' | 'careless' | 'neutral' | 'considerate'
+
+export const TONES: Record<Tone, string> = {
+  hostile: 'Insulting, rude or aggressive',
+  dismissive: 'Impatient with or brushing off what the persona says',
+  careless: 'Overly casual, slangy or low-effort for a professional interview',
+  neutral: 'Ordinary professional question',
+  considerate: 'Polite, appreciative or building on what the persona said'
+}
+
+// Each on a 0-100 scale
+export interface PersonaMood {
+  rapport: number // How warm the persona feels towards the student
+  patience: number // How much more of the student's time-wasting it will put up with
+  trust: number // How far it believes the student will use what it shares well
+}
+
+export type Willingness = 'open' | 'guarded' | 'withdrawn'
+
+export const INITIAL_MOOD: PersonaMood = { rapport: 50, patience: 80, trust: 50 }
+
+const TONE_EFFECTS: Record<Tone, PersonaMood> = {
+  hostile: { rapport: -20, patience: -30, trust: -20 },
+  dismissive: { rapport: -10, patience: -20, trust: -5 },
+  careless: { rapport: -8, patience: -15, trust: -5 },
+  neutral: { rapport: 2, patience: 3, trust: 2 },
+  considerate: { rapport: 8, patience: 5, trust: 5 }
+}
+
+const TONE_PATTERNS: [Tone, RegExp][] = [
+  ['hostile', /\b(stupid|idiot|idiots|dumb|moron|useless|pathetic|shut up|wtf|crap|suck|sucks)\b/],
+  ['dismissive', /\b(whatever|just tell me|hurry up|get to the point|don'?t care|not what i asked|boring|who cares)\b/],
+  ['careless', /\b(lol|lmao|dude|bro|howdy|yo|sup|ya|ur|idk|gimme)\b/],
+  ['considerate', /\b(thank|thanks|please|appreciate|sorry|that makes sense|you mentioned|you said|help me understand)\b/]
+]
+
+// Everyday words that only show up in capitals when someone is shouting; acronyms like EHR or HIPAA are not among them
+const SHOUTED_WORDS = /\b(I|YOU|YOUR|ME|MY|WE|IT|IS|ARE|THE|THIS|THAT|WHY|WHAT|HOW|NOT|DON'T|CAN'T|JUST|AND|TO|SO|DO)\b/g
+
+// Reads a message's tone from its wording, for when the model's own reading is unavailable
+export function assessTone(message: string): Tone {
+  const text = message.toLowerCase()
+  const letters = message.replace(/[^a-zA-Z]/g, '')
+  const shouting = letters === letters.toUpperCase() && (message.match(SHOUTED_WORDS) || []).length >= 2
+  if (shouting) return 'hostile'
+  const match = TONE_PATTERNS.find(([, pattern]) => pattern.test(text))
+  if (match) return match[0]
+  return letters.length < 2 ? 'careless' : 'neutral' // A lone "k" or "?"
+}
+
+export function isTone(value: unknown): value is Tone {
+  return typeof value === 'string' && value in TONES
+}
+
+export function moodOf(moods: Record<string, PersonaMood> | undefined, personaName: string): PersonaMood {
+  return moods?.[personaName] || INITIAL_MOOD
+}
+
+// Impatient personalities lose patience faster; easy-going ones slower
+function temperament(personality: string): number {
+  const text = personality.toLowerCase()
+  if (/\b(impatient|busy|direct|blunt|skeptical|demanding)\b/.test(text)) return 1.5
+  if (/\b(patient|friendly|enthusiastic|easy-going|warm|supportive)\b/.test(text)) return 0.75
+  return 1
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)))
+}
+
+/**
+ * Applies one student message to every persona that heard it. Personas the message was addressed
+ * to feel it fully; the others in the room feel half of it. Only losses scale with temperament.
+ */
+export function updateMoods(
+  moods: Record<string, PersonaMood>,
+  personas: { name: string, personality: string }[],
+  tone: Tone,
+  addressed: string[]
+): Record<string, PersonaMood> {
+  const effect = TONE_EFFECTS[tone]
+  const updated = { ...moods }
+  for (const persona of personas) {
+    const mood = moodOf(moods, persona.name)
+    const weight = addressed.length === 0 || addressed.includes(persona.name) ? 1 : 0.5
+    const scale = (delta: number) => delta * weight * (delta < 0 ? temperament(persona.personality) : 1)
+    updated[persona.name] = {
+      rapport: clamp(mood.rapport + scale(effect.rapport)),
+      patience: clamp(mood.patience + scale(effect.patience)),
+      trust: clamp(mood.trust + scale(effect.trust))
+    }
+  }
+  return updated
+}
+
+export function willingnessOf(mood: PersonaMood): Willingness {
+  if (mood.patience < 30 || mood.trust < 20 || mood.rapport < 20) return 'withdrawn'
+  if (mood.patience < 60 || mood.trust < 40 || mood.rapport < 40) return 'guarded'
+  return 'open'
+}
@@ -0,0 +1,112 @@
+import { createHash } from 'crypto'
+import { getStorage } from './storage'
+import { listSessions, Message, SessionData } from './sessions'
+
+export interface CoverageReport {
+  overallCoverageRate: number
+  strengths: string[]
+  improvements: string[]
+  detailedAnalysis: string
+  analyzedAt: Date
+}
+
+// A coverage report as cached for one session, with the analysis figures the dashboard shows next to it
+export interface StoredReport {
+  sessionId: string
+  projectId?: string
+  projectName: string
+  studentId?: string
+  studentName: string
+  messagesFingerprint: string // Identifies the transcript the report was generated from
+  coverage: number
+  questionQuality?: number
+  requirementsCovered?: number
+  totalRequirements?: number
+  score?: number // Rubric score, 0-100; absent on reports from before rubrics
+  grade?: string // The rubric band awarded
+  neglectedPersonas?: Record<string, number> // Personas never interviewed, with how many missed requirements they owned
+  report: CoverageReport
+}
+
+const REPORTS = 'reports'
+
+// Any added, removed or edited message changes the fingerprint and so invalidates the report
+export function fingerprintMessages(messages: Pick<Message, 'id' | 'sender' | 'content'>[]): string {
+  const hash = createHash('sha256')
+  for (const msg of messages) {
+    hash.update(JSON.stringify([msg.id, msg.sender, msg.content]))
+  }
+  return hash.digest('hex')
+}
+
+function reviveDates(stored: StoredReport): StoredReport {
+  return {
+    ...stored,
+    report: { ...stored.report, analyzedAt: new Date(stored.report.analyzedAt) }
+  }
+}
+
+// Returns the cached report only while it still describes the session's transcript.
+// A stale report is deleted so it is never served again.
+export async function getReport(session: SessionData): Promise<StoredReport | undefined> {
+  const stored = await getStorage().get<StoredReport>(REPORTS, session.sessionId)
+  if (!stored) return undefined
+
+  if (stored.messagesFingerprint !== fingerprintMessages(session.messages)) {
+    await deleteReport(session.sessionId)
+    return undefined
+  }
+  return reviveDates(stored)
+}
+
+// Current reports for every session in the project, keyed by session ID
+export async function listReports(sessions: SessionData[]): Promise<Map<string, StoredReport>> {
+  const reports = new Map<string, StoredReport>()
+  const stored = await getStorage().list<StoredReport>(REPORTS)
+  const bySession = new Map(stored.map(report => [report.sessionId, report]))
+
+  for (const session of sessions) {
+    const report = bySession.get(session.sessionId)
+    if (!report) continue
+    if (report.messagesFingerprint === fingerprintMessages(session.messages)) {
+      reports.set(session.sessionId, reviveDates(report))
+    } else {
+      await deleteReport(session.sessionId)
+    }
+  }
+  return reports
+}
+
+export async function saveReport(
+  session: SessionData,
+  analysis: Omit<StoredReport, 'sessionId' | 'projectId' | 'projectName' | 'studentId' | 'studentName' | 'messagesFingerprint'>
+): Promise<StoredReport> {
+  const stored: StoredReport = {
+    sessionId: session.sessionId,
+    projectId: session.projectId,
+    projectName: session.projectName,
+    studentId: session.studentId,
+    studentName: session.studentName,
+    messagesFingerprint: fingerprintMessages(session.messages),
+    ...analysis
+  }
+  await getStorage().put(REPORTS, session.sessionId, stored)
+  return stored
+}
+
+export async function deleteReport(sessionId: string): Promise<boolean> {
+  return getStorage().delete(REPORTS, sessionId)
+}
+
+// A report's score and grade hold only while its project's requirements, personas and conflicts are unchanged.
+// Saving them drops the project's reports so the next analysis grades against what is there now.
+export async function deleteProjectReports(projectId: string): Promise<void> {
+  const stored = await getStorage().list<StoredReport>(REPORTS)
+  await Promise.all(stored.filter(report => report.projectId === projectId).map(report => deleteReport(report.sessionId)))
+}
+
+// The same for an assignment's rubric: its sessions' reports were graded with the old one
+export async function deleteAssignmentReports(assignmentId: string): Promise<void> {
+  const sessions = await listSessions({ assignmentId })
+  await Promise.all(sessions.map(session => deleteReport(session.sessionId)))
+}
@@ -0,0 +1,108 @@
+import { getLLMProvider, LLMProvider, parseJSONResponse } from './llm'
+
+/**
+ * Which personas know which of a project's canonical requirements first-hand. Generation assigns
+ * owners, each persona is told what it owns during the interview, and grading uses them to say which
+ * stakeholder a missed requirement should have come from. Keyed by requirement text, so a requirement
+ * whose text is edited loses its owners until they are assigned again.
+ */
+export type RequirementOwners = Record<string, string[]>
+
+interface OwnerCandidate {
+  name: string
+  role: string
+  goal: string
+  concerns: string
+}
+
+const STOPWORDS = new Set([
+  'about', 'able', 'also', 'been', 'being', 'from', 'have', 'into', 'just', 'make', 'more', 'must', 'need',
+  'other', 'should', 'some', 'such', 'system', 'than', 'that', 'their', 'them', 'then', 'there', 'these',
+  'they', 'this', 'those', 'users', 'very', 'want', 'were', 'what', 'when', 'where', 'which', 'will', 'with', 'would'
+])
+
+function contentWords(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z']{4,}/g) || []
+  return new Set(words.filter(word => !STOPWORDS.has(word)))
+}
+
+/**
+ * Asks the model who would know each requirement. Falls back to matching the requirement's words
+ * against each persona's role, goal and concerns when the model's answer can't be used.
+ */
+export async function assignRequirementOwners(
+  requirements: string[],
+  personas: OwnerCandidate[],
+  llm: LLMProvider = getLLMProvider()
+): Promise<RequirementOwners> {
+  if (requirements.length === 0 || personas.length === 0) return {}
+
+  const prompt = `You are mapping a software project's requirements to the stakeholders who would know about them.
+
+STAKEHOLDERS:
+${personas.map((p, i) => `${i + 1}. ${p.name} (${p.role}). Goal: ${p.goal}. Concerns: ${p.concerns}`).join('\n')}
+
+REQUIREMENTS:
+${requirements.map((r, i) => `${i + 1}. ${r}`).join('\n')}
+
+For each requirement, name the one or two stakeholders who would know about it first-hand and could explain it to an interviewer.
+Use the stakeholders' names exactly as written.
+
+Return ONLY a JSON array with one object per requirement:
+[{ "requirementNumber": 1, "owners": ["Stakeholder Name"] }]`
+
+  try {
+    const response = await llm.chat({ message: prompt, maxTokens: 1500, temperature: 0.2 })
+    const assignments = parseJSONResponse<{ requirementNumber?: number, owners?: unknown }[]>(response.text || '')
+    if (!Array.isArray(assignments)) throw new Error('Response is not an array')
+
+    const names = new Set(personas.map(p => p.name))
+    const owners: RequirementOwners = {}
+    const fallback = guessRequirementOwners(requirements, personas)
+    requirements.forEach((requirement, index) => {
+      const assigned = assignments.find(a => a.requirementNumber === index + 1)?.owners
+      const valid = Array.isArray(assigned) ? assigned.filter((name): name is string => names.has(name)) : []
+      owners[requirement] = valid.length > 0 ? [...new Set(valid)] : fallback[requirement]
+    })
+    return owners
+  } catch (error) {
+    console.error('Failed to assign requirement owners, matching by keywords instead:', error)
+    return guessRequirementOwners(requirements, personas)
+  }
+}
+
+// Gives each requirement to the persona whose role, goal and concerns share the most words with it
+export function guessRequirementOwners(requirements: string[], personas: OwnerCandidate[]): RequirementOwners {
+  const profiles = personas.map(p => ({ name: p.name, words: contentWords(`${p.role} ${p.goal} ${p.concerns}`) }))
+  const owners: RequirementOwners = {}
+  for (const requirement of requirements) {
+    const words = Array.from(contentWords(requirement))
+    const scored = profiles.map(p => ({ name: p.name, score: words.filter(word => p.words.has(word)).length }))
+    const best = Math.max(0, ...scored.map(p => p.score))
+    // Nobody in particular: every persona may speak to it, and none is blamed for it
+    owners[requirement] = best > 0 ? scored.filter(p => p.score === best).map(p => p.name) : []
+  }
+  return owners
+}
+
+// The requirements a persona knows first-hand, among the project's current ones
+export function requirementsOwnedBy(owners: RequirementOwners | undefined, requirements: string[], personaName: string): string[] {
+  return requirements.filter(requirement => owners?.[requirement]?.includes(personaName))
+}
+
+// Drops owners of requirements no longer in the list, and personas no longer in the roster
+export function pruneRequirementOwners(owners: RequirementOwners, requirements: string[], personaNames: string[]): RequirementOwners {
+  return Object.fromEntries(requirements
+    .filter(requirement => owners[requirement])
+    .map(requirement => [requirement, owners[requirement].filter(name => personaNames.includes(name))]))
+}
+
+export function validateRequirementOwners(input: unknown): string[] {
+  if (input === undefined || input === null) return []
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return ['requirementOwners must map each requirement to a list of persona names']
+  }
+  const invalid = Object.values(input as Record<string, unknown>)
+    .some(names => !Array.isArray(names) || names.some(name => typeof name !== 'string'))
+  return invalid ? ['requirementOwners must map each requirement to a list of persona names'] : []
+}
@@ -0,0 +1,127 @@
+export type RequirementType = 'functional' | 'non-functional' | 'constraint'
+
+export interface RequirementEvidence {
+  messageId: string
+  quote: string // Span of the message the model cited
+  verified: boolean // The quote really appears in that message and a persona said it
+}
+
+export interface ExtractedRequirement {
+  id: string // REQ-001, REQ-002, ... in extraction order
+  text: string
+  type: RequirementType
+  sourcePersona: string
+  messageIds: string[] // Transcript messages that support the requirement
+  evidence: RequirementEvidence[]
+  verified: boolean // At least one quote was found in the transcript; false suggests a hallucinated requirement
+}
+
+// What the model is asked to return for each requirement, before validation
+export interface RawRequirement {
+  text?: string
+  type?: string
+  sourcePersona?: string
+  messageIds?: string[]
+  evidence?: { messageId?: string, quote?: string }[]
+}
+
+interface TranscriptMessage {
+  id: string
+  sender: string
+  content: string
+}
+
+const REQUIREMENT_TYPES: RequirementType[] = ['functional', 'non-functional', 'constraint']
+
+const TYPE_LABELS: Record<RequirementType, string> = {
+  'functional': 'Functional',
+  'non-functional': 'Non-functional',
+  'constraint': 'Constraint'
+}
+
+function normalizeType(type?: string): RequirementType {
+  const normalized = (type || '').toLowerCase().replace(/[\s_]+/g, '-')
+  if (normalized === 'nonfunctional') return 'non-functional'
+  return REQUIREMENT_TYPES.find(t => t === normalized) || 'functional'
+}
+
+// Compare text the way a reader would: ignore case, curly quotes and runs of whitespace
+function comparable(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Check a cited quote against the transcript. Only persona words count as support, since the student's
+// own question proves nothing. A quote found in a different message than the one cited is
+// re-attributed to the message it actually comes from.
+function verifyEvidence(
+  cited: { messageId?: string, quote?: string },
+  messages: TranscriptMessage[]
+): RequirementEvidence | null {
+  const quote = cited.quote?.trim().replace(/^["']|["']$/g, '')
+  if (!quote) return null
+
+  const target = comparable(quote)
+  const supports = (m: TranscriptMessage) => m.sender !== 'student' && comparable(m.content).includes(target)
+
+  const citedMessage = messages.find(m => m.id === String(cited.messageId))
+  if (citedMessage && supports(citedMessage)) {
+    return { messageId: citedMessage.id, quote, verified: true }
+  }
+
+  const actualMessage = messages.find(supports)
+  if (actualMessage) {
+    return { messageId: actualMessage.id, quote, verified: true }
+  }
+
+  return citedMessage ? { messageId: citedMessage.id, quote, verified: false } : null
+}
+
+// Validate model output: drop empty entries, assign stable ids, check every cited quote against
+// the analysed transcript and keep only message ids that exist in it
+export function normalizeRequirements(raw: RawRequirement[], messages: TranscriptMessage[]): ExtractedRequirement[] {
+  const known = new Set(messages.map(m => m.id))
+
+  return raw
+    .filter(req => typeof req?.text === 'string' && req.text.trim().length > 0)
+    .map((req, index) => {
+      const evidence = (Array.isArray(req.evidence) ? req.evidence : [])
+        .map(cited => verifyEvidence(cited, messages))
+        .filter((item): item is RequirementEvidence => item !== null)
+      const citedIds = Array.isArray(req.messageIds) ? req.messageIds.map(String) : []
+
+      return {
+        id: `REQ-${String(index + 1).padStart(3, '0')}`,
+        text: req.text!.trim(),
+        type: normalizeType(req.type),
+        sourcePersona: req.sourcePersona?.trim() || 'Unknown',
+        messageIds: Array.from(new Set([...citedIds, ...evidence.map(e => e.messageId)])).filter(id => known.has(id)),
+        evidence,
+        verified: evidence.some(e => e.verified)
+      }
+    })
+}
+
+// The numbered list shown in the requirements document
+export function renderRequirementsList(requirements: ExtractedRequirement[]): string {
+  if (requirements.length === 0) {
+    return 'No requirements could be extracted.'
+  }
+
+  return requirements
+    .map((req, index) => {
+      const lines = [`${index + 1}. [${req.id}] (${TYPE_LABELS[req.type]}) ${req.text} [Source: ${req.sourcePersona}]`]
+      req.evidence.forEach(e => {
+        lines.push(`   Evidence (message ${e.messageId}): "${e.quote}"${e.verified ? '' : ' [quote not found in message]'}`)
+      })
+      if (!req.verified) {
+        lines.push('   WARNING: No supporting quote was found in the transcript')
+      }
+      return lines.join('\n')
+    })
+    .join('\n')
+}
@@ -0,0 +1,279 @@
+import { deleteAssignmentReports } from './reports'
+import { getStorage } from './storage'
+
+// What a rubric can weigh. Every criterion is measured on a 0-100 scale; see measureCriteria in coverage.ts.
+export type RubricCriterion = 'coverage' | 'questionQuality' | 'personaBreadth' | 'followUpDepth' | 'extractionAccuracy' | 'conflictExploration'
+
+export const RUBRIC_CRITERIA: Record<RubricCriterion, { label: string, description: string }> = {
+  coverage: {
+    label: 'Requirement coverage',
+    description: 'Share of the project requirements uncovered, after any question-quality penalty'
+  },
+  questionQuality: {
+    label: 'Question quality',
+    description: 'Average question score, where 5/5 is 100'
+  },
+  personaBreadth: {
+    label: 'Persona breadth',
+    description: 'Share of the project personas who were interviewed'
+  },
+  followUpDepth: {
+    label: 'Follow-up depth',
+    description: 'Share of questions that follow up on what the persona just said'
+  },
+  extractionAccuracy: {
+    label: 'Extraction accuracy',
+    description: 'Share of extracted requirements backed by a quote from the transcript; 0 if none were extracted'
+  },
+  conflictExploration: {
+    label: 'Conflict exploration',
+    description: 'Share of the declared stakeholder conflicts the student noticed (half credit) and explored (full credit); 100 if the project declares none'
+  }
+}
+
+export interface RubricWeight {
+  criterion: RubricCriterion
+  weight: number // Relative; weights are divided by their total
+}
+
+// A letter band. A session gets the first band whose score and per-criterion minimums it meets.
+export interface GradeBand {
+  grade: string
+  label: string
+  minScore: number // Weighted rubric score, 0-100
+  minimums?: Partial<Record<RubricCriterion, number>>
+}
+
+// Coverage is multiplied by the first penalty whose threshold the question quality falls below
+export interface QualityPenalty {
+  below: number // Question quality, 0-100
+  multiplier: number
+}
+
+export interface Rubric {
+  criteria: RubricWeight[]
+  bands: GradeBand[] // Best first
+  qualityPenalties: QualityPenalty[] // Lowest threshold first
+}
+
+export interface StoredRubric {
+  assignmentId: string
+  rubric: Rubric
+  updatedAt: Date
+}
+
+export interface CriterionResult {
+  criterion: RubricCriterion
+  label: string
+  weight: number // Normalized, so the weights add up to 1
+  score: number
+  points: number // weight x score, the criterion's share of the total
+}
+
+// How a session scored against a rubric, with enough detail for the report to explain the grade
+export interface RubricResult {
+  score: number
+  grade: string
+  label: string
+  criteria: CriterionResult[]
+  missedBand?: string // The band just above the one awarded
+  // Why the session missed that band, e.g. "Question quality 62.0 is below 70"
+  shortfalls: string[]
+}
+
+const RUBRICS = 'rubrics'
+
+// The grading used before rubrics existed: A needs 80% coverage and 4/5 question quality, and so on down
+export const DEFAULT_RUBRIC: Rubric = {
+  criteria: [
+    { criterion: 'coverage', weight: 1 },
+    { criterion: 'questionQuality', weight: 1 }
+  ],
+  bands: [
+    { grade: 'A', label: 'Excellent', minScore: 80, minimums: { coverage: 80, questionQuality: 80 } },
+    { grade: 'B', label: 'Good', minScore: 70, minimums: { coverage: 70, questionQuality: 70 } },
+    { grade: 'C', label: 'Satisfactory', minScore: 60, minimums: { coverage: 60, questionQuality: 60 } },
+    { grade: 'D', label: 'Needs Improvement', minScore: 50, minimums: { coverage: 50, questionQuality: 50 } },
+    { grade: 'F', label: 'Insufficient', minScore: 0 }
+  ],
+  qualityPenalties: [
+    { below: 60, multiplier: 0.7 },
+    { below: 80, multiplier: 0.85 }
+  ]
+}
+
+function isCriterion(value: unknown): value is RubricCriterion {
+  return typeof value === 'string' && value in RUBRIC_CRITERIA
+}
+
+function isPercent(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 100
+}
+
+// Check an instructor-supplied rubric. Bands and penalties are sorted into the order grading reads them.
+export function validateRubric(input: unknown): { rubric: Rubric, errors: string[] } {
+  const errors: string[] = []
+  if (!input || typeof input !== 'object') {
+    return { rubric: DEFAULT_RUBRIC, errors: ['Rubric must be an object'] }
+  }
+  const raw = input as Record<string, unknown>
+
+  const criteria: RubricWeight[] = []
+  if (!Array.isArray(raw.criteria) || raw.criteria.length === 0) {
+    errors.push('criteria must list at least one criterion')
+  } else {
+    for (const item of raw.criteria as Record<string, unknown>[]) {
+      if (!isCriterion(item?.criterion)) {
+        errors.push(`Unknown criterion: ${item?.criterion}. Use one of ${Object.keys(RUBRIC_CRITERIA).join(', ')}`)
+      } else if (typeof item.weight !== 'number' || item.weight < 0) {
+        errors.push(`${item.criterion} weight must be a number of at least 0`)
+      } else if (criteria.some(c => c.criterion === item.criterion)) {
+        errors.push(`${item.criterion} is listed twice`)
+      } else {
+        criteria.push({ criterion: item.criterion, weight: item.weight })
+      }
+    }
+    if (criteria.length > 0 && criteria.every(c => c.weight === 0)) {
+      errors.push('At least one criterion needs a weight above 0')
+    }
+  }
+
+  const bands: GradeBand[] = []
+  if (!Array.isArray(raw.bands) || raw.bands.length === 0) {
+    errors.push('bands must list at least one grade')
+  } else {
+    for (const item of raw.bands as Record<string, unknown>[]) {
+      if (typeof item?.grade !== 'string' || !item.grade.trim()) {
+        errors.push('Every band needs a grade')
+        continue
+      }
+      const grade = item.grade.trim()
+      if (!isPercent(item.minScore)) {
+        errors.push(`${grade} minScore must be between 0 and 100`)
+        continue
+      }
+      if (bands.some(b => b.grade === grade)) {
+        errors.push(`Grade ${grade} is listed twice`)
+        continue
+      }
+      const band: GradeBand = {
+        grade,
+        label: typeof item.label === 'string' && item.label.trim() ? item.label.trim() : grade,
+        minScore: item.minScore
+      }
+      if (item.minimums !== undefined && item.minimums !== null) {
+        const minimums: Partial<Record<RubricCriterion, number>> = {}
+        for (const [criterion, minimum] of Object.entries(item.minimums as Record<string, unknown>)) {
+          if (!isCriterion(criterion)) errors.push(`${grade} has a minimum for unknown criterion ${criterion}`)
+          else if (!isPercent(minimum)) errors.push(`${grade} minimum for ${criterion} must be between 0 and 100`)
+          else minimums[criterion] = minimum
+        }
+        if (Object.keys(minimums).length > 0) band.minimums = minimums
+      }
+      bands.push(band)
+    }
+    bands.sort((a, b) => b.minScore - a.minScore)
+  }
+
+  const qualityPenalties: QualityPenalty[] = []
+  if (raw.qualityPenalties !== undefined && raw.qualityPenalties !== null) {
+    if (!Array.isArray(raw.qualityPenalties)) {
+      errors.push('qualityPenalties must be a list of { below, multiplier }')
+    } else {
+      for (const item of raw.qualityPenalties as Record<string, unknown>[]) {
+        if (!isPercent(item?.below) || typeof item.multiplier !== 'number' || item.multiplier < 0 || item.multiplier > 1) {
+          errors.push('Each quality penalty needs below (0-100) and multiplier (0-1)')
+        } else {
+          qualityPenalties.push({ below: item.below, multiplier: item.multiplier })
+        }
+      }
+      qualityPenalties.sort((a, b) => a.below - b.below)
+    }
+  }
+
+  return { rubric: { criteria, bands, qualityPenalties }, errors }
+}
+
+export function qualityMultiplier(rubric: Rubric, questionQuality: number): number {
+  return rubric.qualityPenalties.find(penalty => questionQuality < penalty.below)?.multiplier ?? 1
+}
+
+function meetsBand(band: GradeBand, score: number, measured: Record<RubricCriterion, number>): string[] {
+  const shortfalls: string[] = []
+  if (score < band.minScore) {
+    shortfalls.push(`Rubric score ${score.toFixed(1)} is below ${band.minScore}`)
+  }
+  for (const [criterion, minimum] of Object.entries(band.minimums || {}) as [RubricCriterion, number][]) {
+    if (measured[criterion] < minimum) {
+      shortfalls.push(`${RUBRIC_CRITERIA[criterion].label} ${measured[criterion].toFixed(1)} is below ${minimum}`)
+    }
+  }
+  return shortfalls
+}
+
+// Weighs the measured criteria and finds the best band the session qualifies for. The lowest band
+// is the fallback, so a rubric whose bands all have a floor still gives every session a grade.
+export function applyRubric(rubric: Rubric, measured: Record<RubricCriterion, number>): RubricResult {
+  const totalWeight = rubric.criteria.reduce((sum, c) => sum + c.weight, 0) || 1
+  const criteria = rubric.criteria.map(({ criterion, weight }) => {
+    const normalized = weight / totalWeight
+    return {
+      criterion,
+      label: RUBRIC_CRITERIA[criterion].label,
+      weight: normalized,
+      score: measured[criterion],
+      points: normalized * measured[criterion]
+    }
+  })
+  const score = criteria.reduce((sum, c) => sum + c.points, 0)
+
+  let missedBand: string | undefined
+  let shortfalls: string[] = []
+  for (const band of rubric.bands) {
+    const missed = meetsBand(band, score, measured)
+    if (missed.length === 0) {
+      return { score, grade: band.grade, label: band.label, criteria, missedBand, shortfalls }
+    }
+    missedBand = band.grade
+    shortfalls = missed
+  }
+  // Only reached when even the lowest band has a floor; its own shortfalls are not worth reporting
+  const lowest = rubric.bands[rubric.bands.length - 1]
+  const above = rubric.bands[rubric.bands.length - 2]
+  return {
+    score,
+    grade: lowest.grade,
+    label: lowest.label,
+    criteria,
+    missedBand: above?.grade,
+    shortfalls: above ? meetsBand(above, score, measured) : []
+  }
+}
+
+function revive(stored: StoredRubric): StoredRubric {
+  return { ...stored, updatedAt: new Date(stored.updatedAt) }
+}
+
+export async function getRubric(assignmentId: string): Promise<StoredRubric | undefined> {
+  const stored = await getStorage().get<StoredRubric>(RUBRICS, assignmentId)
+  return stored ? revive(stored) : undefined
+}
+
+export async function saveRubric(assignmentId: string, rubric: Rubric): Promise<StoredRubric> {
+  const stored: StoredRubric = { assignmentId, rubric, updatedAt: new Date() }
+  await getStorage().put(RUBRICS, assignmentId, stored)
+  await deleteAssignmentReports(assignmentId)
+  return stored
+}
+
+export async function deleteRubric(assignmentId: string): Promise<boolean> {
+  const deleted = await getStorage().delete(RUBRICS, assignmentId)
+  if (deleted) await deleteAssignmentReports(assignmentId)
+  return deleted
+}
+
+// The rubric a session is graded with: its assignment's, or the default for sessions outside one
+export async function resolveRubric(assignmentId?: string): Promise<Rubric> {
+  if (!assignmentId) return DEFAULT_RUBRIC
+  return (await getRubric(assignmentId))?.rubric || DEFAULT_RUBRIC
+}
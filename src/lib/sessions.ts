@@ -0,0 +1,144 @@
+import { getStorage } from './storage'
+
+export interface Message {
+  id: string
+  sender: 'student' | 'persona' | 'system'
+  personaName?: string
+  content: string
+  timestamp: Date
+  metadata?: Record<string, any>
+}
+
+export interface SessionData {
+  schemaVersion: number
+  sessionId: string
+  projectId?: string // The project the session belongs to; absent for sessions from before projects existed
+  projectName: string
+  assignmentId?: string // Set when the student joined through an assignment's join code
+  studentId?: string // Roster ID of the signed-in student; absent for anonymous sessions
+  studentName: string
+  startTime: Date
+  endTime?: Date
+  messages: Message[]
+  personasInterviewed: string[]
+  status: 'active' | 'completed' | 'abandoned'
+  requirementsExtracted: boolean
+  transcriptDownloaded: boolean
+  metadata?: {
+    projectRequirements?: string[]
+    [key: string]: any
+  }
+}
+
+const SESSIONS = 'sessions'
+
+export const SESSION_SCHEMA_VERSION = 4
+
+// A session as persisted, in whatever schema version it was written with
+type StoredSession = { sessionId: string, schemaVersion?: number, [key: string]: unknown }
+
+// migrations[n] upgrades a stored session from version n to n + 1. Append a step whenever the
+// SessionData shape changes; never edit one that has shipped, since stored data depends on it.
+const migrations: ((session: StoredSession) => StoredSession)[] = [
+  // 0 -> 1: sessions saved by the original in-memory store had no version and optional fields
+  session => ({
+    ...session,
+    studentName: session.studentName || 'Unknown Student',
+    messages: session.messages || [],
+    personasInterviewed: session.personasInterviewed || [],
+    status: session.status || 'active',
+    requirementsExtracted: !!session.requirementsExtracted,
+    transcriptDownloaded: !!session.transcriptDownloaded,
+    metadata: session.metadata || {}
+  }),
+  // 1 -> 2: sessions record the signed-in student; earlier ones were anonymous
+  session => ({
+    ...session,
+    studentId: session.studentId || undefined
+  }),
+  // 2 -> 3: sessions reference their project by ID; earlier ones only carried its name
+  session => ({
+    ...session,
+    projectId: session.projectId || undefined
+  }),
+  // 3 -> 4: sessions started from an assignment record which one
+  session => ({
+    ...session,
+    assignmentId: session.assignmentId || undefined
+  })
+]
+
+function migrateSession(stored: StoredSession): { session: SessionData, migrated: boolean } {
+  let current = stored
+  let version = stored.schemaVersion || 0
+
+  if (version > SESSION_SCHEMA_VERSION) {
+    throw new Error(`Session ${stored.sessionId} has schema version ${version}, newer than this build supports`)
+  }
+
+  const migrated = version < SESSION_SCHEMA_VERSION
+  while (version < SESSION_SCHEMA_VERSION) {
+    current = { ...migrations[version](current), schemaVersion: version + 1 }
+    version++
+  }
+
+  return { session: reviveDates(current), migrated }
+}
+
+// JSON storage hands dates back as strings
+function reviveDates(session: StoredSession): SessionData {
+  return {
+    ...session,
+    startTime: new Date(session.startTime as string),
+    endTime: session.endTime ? new Date(session.endTime as string) : undefined,
+    messages: (session.messages as Message[]).map(msg => ({
+      ...msg,
+      timestamp: new Date(msg.timestamp)
+    }))
+  } as unknown as SessionData
+}
+
+async function load(stored: StoredSession): Promise<SessionData> {
+  const { session, migrated } = migrateSession(stored)
+  if (migrated) {
+    await getStorage().put(SESSIONS, session.sessionId, session)
+  }
+  return session
+}
+
+export async function getSession(sessionId: string): Promise<SessionData | undefined> {
+  const stored = await getStorage().get<StoredSession>(SESSIONS, sessionId)
+  return stored ? load(stored) : undefined
+}
+
+export interface SessionFilter {
+  projectId?: string
+  assignmentId?: string
+  projectName?: string // Only useful for sessions saved before projects had IDs
+}
+
+export async function listSessions(filter: SessionFilter = {}): Promise<SessionData[]> {
+  const stored = await getStorage().list<StoredSession>(SESSIONS)
+  const sessions = await Promise.all(stored.map(load))
+  return sessions.filter(session =>
+    (!filter.projectId || session.projectId === filter.projectId) &&
+    (!filter.assignmentId || session.assignmentId === filter.assignmentId) &&
+    (!filter.projectName || session.projectName === filter.projectName)
+  )
+}
+
+// Accepts sessions in any known schema version (e.g. straight from an older client) and stores the current one.
+// Metadata is merged into what is already stored so clients can send only the keys they changed.
+export async function saveSession(data: StoredSession): Promise<SessionData> {
+  const { session } = migrateSession({ ...data, schemaVersion: data.schemaVersion || 0 })
+  const existing = await getStorage().get<StoredSession>(SESSIONS, session.sessionId)
+  if (existing?.metadata) {
+    session.metadata = { ...(existing.metadata as SessionData['metadata']), ...session.metadata }
+  }
+  await getStorage().put(SESSIONS, session.sessionId, session)
+  return session
+}
+
+export async function deleteSession(sessionId: string): Promise<boolean> {
+  return getStorage().delete(SESSIONS, sessionId)
+}
@@ -0,0 +1,160 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { StorageAdapter } from './types'
+
+type CollectionFile = Record<string, unknown>
+
+export interface FileStorageOptions {
+  // Collections kept as one file per record, for large records rewritten often (e.g. checkpoints)
+  filePerRecord?: string[]
+}
+
+// How long to wait between attempts on a held lock, and when a lock counts as left behind by a crash
+const LOCK_RETRY_MS = 20
+const STALE_LOCK_MS = 10_000
+
+/**
+ * Keeps each collection in one JSON file under a data directory, or one file per record for the
+ * collections named in filePerRecord. Every call re-reads from disk, and every read-modify-write of
+ * a collection file holds a lock file next to it, so several server processes or instances can share
+ * the directory without losing each other's updates. Writes go through a temp file + rename, so a
+ * crash mid-write never leaves a truncated file behind.
+ */
+export class FileStorage implements StorageAdapter {
+  readonly name = 'file'
+  private writeQueue = new Map<string, Promise<unknown>>()
+  private filePerRecord: Set<string>
+
+  constructor(private directory: string, options: FileStorageOptions = {}) {
+    this.filePerRecord = new Set(options.filePerRecord || [])
+  }
+
+  async get<T>(collection: string, id: string): Promise<T | undefined> {
+    if (this.filePerRecord.has(collection)) {
+      return this.readJSON<T>(this.recordPath(collection, id))
+    }
+    const records = await this.read(collection)
+    return records[id] as T | undefined
+  }
+
+  async list<T>(collection: string): Promise<T[]> {
+    if (this.filePerRecord.has(collection)) {
+      const directory = this.collectionPath(collection)
+      const files = await fs.readdir(directory).catch(error => {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [] as string[]
+        throw error
+      })
+      const records = await Promise.all(files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.readJSON<T>(path.join(directory, file))))
+      return records.filter(record => record !== undefined) as T[]
+    }
+    return Object.values(await this.read(collection)) as T[]
+  }
+
+  async put<T>(collection: string, id: string, value: T): Promise<void> {
+    if (this.filePerRecord.has(collection)) {
+      // A record's file is replaced whole, so the last writer wins without a lock
+      await this.writeJSON(this.recordPath(collection, id), value)
+      return
+    }
+    await this.update(collection, records => {
+      records[id] = value
+      return true
+    })
+  }
+
+  async delete(collection: string, id: string): Promise<boolean> {
+    if (this.filePerRecord.has(collection)) {
+      try {
+        await fs.unlink(this.recordPath(collection, id))
+        return true
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false
+        throw error
+      }
+    }
+    return this.update(collection, records => {
+      if (!(id in records)) return false
+      delete records[id]
+      return true
+    })
+  }
+
+  private collectionPath(collection: string): string {
+    if (!/^[\w-]+$/.test(collection)) {
+      throw new Error(`Invalid collection name: ${collection}`)
+    }
+    return path.join(this.directory, collection)
+  }
+
+  private filePath(collection: string): string {
+    return `${this.collectionPath(collection)}.json`
+  }
+
+  // Record ids come from clients, so they are encoded to stay one plain file name
+  private recordPath(collection: string, id: string): string {
+    return path.join(this.collectionPath(collection), `${encodeURIComponent(id).replace(/^\./, '%2E')}.json`)
+  }
+
+  private read(collection: string): Promise<CollectionFile> {
+    return this.readJSON<CollectionFile>(this.filePath(collection)).then(records => records || {})
+  }
+
+  private async readJSON<T>(file: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf-8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+      throw error
+    }
+  }
+
+  private async writeJSON(file: string, value: unknown): Promise<void> {
+    const temp = `${file}.${process.pid}.${Date.now()}.${Math.random().toString(36).slice(2)}.tmp`
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await fs.writeFile(temp, JSON.stringify(value, null, 2))
+    await fs.rename(temp, file)
+  }
+
+  // Read-modify-write calls for one collection run one at a time: queued within this process,
+  // and behind the collection's lock file across processes
+  private update(collection: string, change: (records: CollectionFile) => boolean): Promise<boolean> {
+    const previous = this.writeQueue.get(collection) || Promise.resolve()
+    const next = previous.catch(() => undefined).then(() => this.withLock(collection, async () => {
+      const records = await this.read(collection)
+      if (!change(records)) return false
+      await this.writeJSON(this.filePath(collection), records)
+      return true
+    }))
+    this.writeQueue.set(collection, next)
+    return next
+  }
+
+  private async withLock<T>(collection: string, work: () => Promise<T>): Promise<T> {
+    const lock = `${this.filePath(collection)}.lock`
+    await fs.mkdir(this.directory, { recursive: true })
+
+    for (;;) {
+      try {
+        await (await fs.open(lock, 'wx')).close()
+        break
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+      }
+      // A process that crashed while holding the lock never releases it
+      const held = await fs.stat(lock).catch(() => undefined)
+      if (held && Date.now() - held.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(lock, { force: true })
+      } else {
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS))
+      }
+    }
+
+    try {
+      return await work()
+    } finally {
+      await fs.rm(lock, { force: true })
+    }
+  }
+}
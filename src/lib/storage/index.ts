@@ -0,0 +1,38 @@
+import path from 'path'
+import { FileStorage } from './file'
+import { MemoryStorage } from './memory'
+import { StorageAdapter } from './types'
+
+export * from './types'
+export { FileStorage } from './file'
+export type { FileStorageOptions } from './file'
+export { MemoryStorage } from './memory'
+
+let storage: StorageAdapter | null = null
+
+/**
+ * Returns the configured store. SESSION_STORE selects the backend ("file" by default, or "memory"),
+ * and SESSION_STORE_PATH sets the directory the file backend writes to (default ".data").
+ */
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    const backend = process.env.SESSION_STORE || 'file'
+    switch (backend) {
+      case 'file':
+        // Checkpoints are large and rewritten on every graph step, so each thread gets its own file
+        storage = new FileStorage(path.resolve(process.env.SESSION_STORE_PATH || '.data'), { filePerRecord: ['checkpoints'] })
+        break
+      case 'memory':
+        storage = new MemoryStorage()
+        break
+      default:
+        throw new Error(`Unknown SESSION_STORE backend: ${backend}`)
+    }
+  }
+  return storage
+}
+
+// Swap the backing store (e.g. a MemoryStorage in an offline harness); pass null to go back to the configured one
+export function setStorage(adapter: StorageAdapter | null): void {
+  storage = adapter
+}
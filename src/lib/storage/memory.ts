@@ -0,0 +1,32 @@
+import { StorageAdapter } from './types'
+
+// Process-local store; data is lost when the server restarts. Useful for development and scripted runs.
+export class MemoryStorage implements StorageAdapter {
+  readonly name = 'memory'
+  private collections = new Map<string, Map<string, unknown>>()
+
+  async get<T>(collection: string, id: string): Promise<T | undefined> {
+    return this.collection(collection).get(id) as T | undefined
+  }
+
+  async list<T>(collection: string): Promise<T[]> {
+    return Array.from(this.collection(collection).values()) as T[]
+  }
+
+  async put<T>(collection: string, id: string, value: T): Promise<void> {
+    this.collection(collection).set(id, value)
+  }
+
+  async delete(collection: string, id: string): Promise<boolean> {
+    return this.collection(collection).delete(id)
+  }
+
+  private collection(name: string): Map<string, unknown> {
+    let records = this.collections.get(name)
+    if (!records) {
+      records = new Map()
+      this.collections.set(name, records)
+    }
+    return records
+  }
+}
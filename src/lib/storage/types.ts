@@ -0,0 +1,8 @@
+// A record store split into named collections (sessions, reports, ...), each keyed by a string id
+export interface StorageAdapter {
+  readonly name: string
+  get<T>(collection: string, id: string): Promise<T | undefined>
+  list<T>(collection: string): Promise<T[]>
+  put<T>(collection: string, id: string, value: T): Promise<void>
+  delete(collection: string, id: string): Promise<boolean>
+}
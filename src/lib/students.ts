@@ -0,0 +1,200 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+import { getStorage } from './storage'
+
+export interface Student {
+  studentId: string
+  name: string
+  email?: string
+  passwordHash?: string // scrypt$<salt>$<hash>, hex encoded
+  createdAt: Date
+}
+
+// What is safe to send to a browser
+export type PublicStudent = Omit<Student, 'passwordHash'>
+
+export interface RosterImportResult {
+  created: PublicStudent[]
+  updated: PublicStudent[]
+  // Passwords generated for new students whose roster row had none; shown to the instructor once
+  temporaryPasswords: { studentId: string, name: string, password: string }[]
+  errors: string[]
+}
+
+const STUDENTS = 'students'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+const KEY_LENGTH = 64
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, KEY_LENGTH)
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+
+  const expected = Buffer.from(hash, 'hex')
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+export function toPublicStudent({ passwordHash, ...student }: Student): PublicStudent {
+  void passwordHash
+  return student
+}
+
+function revive(student: Student): Student {
+  return { ...student, createdAt: new Date(student.createdAt) }
+}
+
+export async function getStudent(studentId: string): Promise<Student | undefined> {
+  const student = await getStorage().get<Student>(STUDENTS, studentId)
+  return student ? revive(student) : undefined
+}
+
+export async function listStudents(): Promise<Student[]> {
+  const students = await getStorage().list<Student>(STUDENTS)
+  return students.map(revive).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// Students sign in with their roster ID or email address
+export async function findStudent(identifier: string): Promise<Student | undefined> {
+  const wanted = identifier.trim().toLowerCase()
+  if (!wanted) return undefined
+
+  const byId = await getStudent(identifier.trim())
+  if (byId) return byId
+  return (await listStudents()).find(s => s.email?.toLowerCase() === wanted)
+}
+
+export async function authenticateStudent(identifier: string, password: string): Promise<Student | null> {
+  const student = await findStudent(identifier)
+  if (!student?.passwordHash) return null
+  return (await verifyPassword(password, student.passwordHash)) ? student : null
+}
+
+// Adds one student without a password, for people who sign in through their LMS instead (see lti/launch.ts)
+export async function createStudent(input: Pick<Student, 'name'> & Partial<Pick<Student, 'studentId' | 'email'>>): Promise<Student> {
+  const student: Student = {
+    studentId: input.studentId || randomUUID(),
+    name: input.name,
+    email: input.email?.toLowerCase(),
+    createdAt: new Date()
+  }
+  await getStorage().put(STUDENTS, student.studentId, student)
+  return student
+}
+
+// Split one CSV line, honouring double-quoted fields with "" escapes
+function parseCSVLine(line: string): string[] {
+  const fields: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(field.trim())
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  fields.push(field.trim())
+  return fields
+}
+
+const COLUMN_ALIASES: Record<string, 'studentId' | 'name' | 'email' | 'password'> = {
+  'studentid': 'studentId',
+  'student_id': 'studentId',
+  'student id': 'studentId',
+  'id': 'studentId',
+  'name': 'name',
+  'full name': 'name',
+  'email': 'email',
+  'password': 'password'
+}
+
+/**
+ * Creates or updates students from a roster CSV with a header row. A "name" column is required;
+ * "studentId", "email" and "password" are optional. Rows are matched to existing students by ID,
+ * then by email, so re-importing a corrected roster updates people instead of duplicating them.
+ * New students without a password get a generated one, returned in the result.
+ */
+export async function importRoster(csv: string): Promise<RosterImportResult> {
+  const result: RosterImportResult = { created: [], updated: [], temporaryPasswords: [], errors: [] }
+  const lines = csv.split(/\r?\n/).filter(line => line.trim().length > 0)
+  if (lines.length === 0) {
+    result.errors.push('Roster is empty')
+    return result
+  }
+
+  const columns = parseCSVLine(lines[0]).map(header => COLUMN_ALIASES[header.toLowerCase()])
+  if (!columns.includes('name')) {
+    result.errors.push('Roster header must include a "name" column')
+    return result
+  }
+
+  const existing = await listStudents()
+
+  for (const [index, line] of lines.slice(1).entries()) {
+    const row: Partial<Record<'studentId' | 'name' | 'email' | 'password', string>> = {}
+    parseCSVLine(line).forEach((value, column) => {
+      const key = columns[column]
+      if (key && value) row[key] = value
+    })
+
+    if (!row.name) {
+      result.errors.push(`Row ${index + 2}: missing name`)
+      continue
+    }
+
+    const email = row.email?.toLowerCase()
+    const match = existing.find(s =>
+      (row.studentId && s.studentId === row.studentId) || (email && s.email === email)
+    )
+
+    if (match) {
+      const student: Student = {
+        ...match,
+        name: row.name,
+        email: email || match.email,
+        passwordHash: row.password ? await hashPassword(row.password) : match.passwordHash
+      }
+      await getStorage().put(STUDENTS, student.studentId, student)
+      result.updated.push(toPublicStudent(student))
+      continue
+    }
+
+    const password = row.password || randomBytes(6).toString('base64url')
+    const student: Student = {
+      studentId: row.studentId || randomUUID(),
+      name: row.name,
+      email,
+      passwordHash: await hashPassword(password),
+      createdAt: new Date()
+    }
+    await getStorage().put(STUDENTS, student.studentId, student)
+    existing.push(student)
+    result.created.push(toPublicStudent(student))
+    if (!row.password) {
+      result.temporaryPasswords.push({ studentId: student.studentId, name: student.name, password })
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { analyzeCoverage, CoverageRequest } from '@/lib/coverage'
+import { ScriptedProvider, setLLMProvider } from '@/lib/llm'
+import { DEFAULT_RUBRIC, qualityMultiplier } from '@/lib/rubrics'
+import type { Message } from '@/lib/sessions'
+
+const REQUIREMENTS = [
+  'The system must import existing spreadsheets',
+  'The system must keep an audit trail of every change',
+  'The system must support role-based access'
+]
+
+function message(sender: Message['sender'], content: string, personaName?: string): Message {
+  return { id: `${sender}-${content.length}`, sender, personaName, content, timestamp: new Date() }
+}
+
+const TRANSCRIPT: Message[] = [
+  message('student', 'Howdy, how is it going?'),
+  message('persona', 'Fine, thanks.', 'Dana Ortiz'),
+  message('student', 'What are your requirements?'),
+  message('persona', 'I need the system to import our existing spreadsheets without retyping anything.', 'Dana Ortiz'),
+  message('student', 'How do you check who changed a record today?'),
+  message('persona', 'Honestly, an audit trail of every change really matters to me.', 'Sam Patel')
+]
+
+function request(overrides: Partial<CoverageRequest> = {}): CoverageRequest {
+  return {
+    messages: TRANSCRIPT,
+    projectRequirements: REQUIREMENTS,
+    studentName: 'Alex Student',
+    sessionId: 'session-1',
+    ...overrides
+  }
+}
+
+describe('analyzeCoverage with a scripted model', () => {
+  afterEach(() => {
+    setLLMProvider(null)
+  })
+
+  it('scores each question and grades coverage from the model', async () => {
+    const llm = ScriptedProvider.fromFile('fixtures/llm/interview-pipeline.json')
+
+    const result = await analyzeCoverage(request(), llm)
+
+    expect(result.questionAnalyses.map(q => q.score)).toEqual([1, 2, 4])
+    expect(result.questionQualityScore).toBeCloseTo(7 / 3)
+    expect(result.requirementAnalyses.map(r => r.covered)).toEqual([true, true, false])
+    expect(result.requirementAnalyses[1].evidence).toEqual(['an audit trail of every change really matters'])
+    const penalty = qualityMultiplier(DEFAULT_RUBRIC, (7 / 3) / 5 * 100)
+    expect(result.overallCoverageRate).toBeCloseTo(2 / 3 * 100 * penalty)
+  })
+
+  it('uses the provider it is given rather than the deployment default', async () => {
+    const deploymentDefault = new ScriptedProvider({ rules: [], fallback: { error: 'Deployment default was used' } })
+    setLLMProvider(deploymentDefault)
+    const courseProvider = ScriptedProvider.fromFile('fixtures/llm/interview-pipeline.json')
+
+    await analyzeCoverage(request(), courseProvider)
+
+    expect(deploymentDefault.calls).toHaveLength(0)
+    expect(courseProvider.calls.map(call => call.rule)).toContain('requirement coverage')
+  })
+
+  describe('failure-modes fixture', () => {
+    it('counts requirements as missed when the coverage answer is unusable', async () => {
+      const llm = ScriptedProvider.fromFile('fixtures/llm/failure-modes.json')
+
+      const result = await analyzeCoverage(request(), llm)
+
+      expect(result.questionAnalyses).toHaveLength(3)
+      expect(result.requirementAnalyses.every(r => !r.covered)).toBe(true)
+      expect(result.overallCoverageRate).toBe(0)
+    })
+
+    it('throws instead when grading strictly', async () => {
+      const llm = ScriptedProvider.fromFile('fixtures/llm/failure-modes.json')
+
+      await expect(analyzeCoverage(request({ strict: true }), llm)).rejects.toThrow()
+    })
+  })
+})
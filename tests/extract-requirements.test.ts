@@ -0,0 +1,103 @@
+import { randomUUID } from 'crypto'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { POST as extract } from '@/app/api/extract-requirements/route'
+import { POST as interview } from '@/app/api/interview/route'
+import { analyzeCoverage } from '@/lib/coverage'
+import { ScriptedProvider, setLLMProvider } from '@/lib/llm'
+import type { ExtractedRequirement } from '@/lib/requirements'
+import type { Message } from '@/lib/sessions'
+import { MemoryStorage, setStorage } from '@/lib/storage'
+
+const PERSONAS = [
+  { name: 'Dana Ortiz', initials: 'DO', role: 'Records Clerk', goal: 'Stop retyping data from spreadsheets', concerns: 'Losing data during migration', personality: 'practical' },
+  { name: 'Sam Patel', initials: 'SP', role: 'Compliance Officer', goal: 'Prove who changed what and when', concerns: 'Gaps in the audit trail', personality: 'cautious' }
+]
+
+function post(route: (req: Request) => Promise<Response>, path: string, body: unknown) {
+  return route(new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  }))
+}
+
+// One interview turn through the interview route, answering with the transcript it produced
+async function transcript(): Promise<Message[]> {
+  const response = await post(interview, '/api/interview', {
+    message: 'Could you walk me through how you keep patient records each day?',
+    personas: PERSONAS,
+    conversationHistory: [],
+    sessionId: randomUUID()
+  })
+  return (await response.json()).messages
+}
+
+describe('requirement extraction with a scripted model', () => {
+  beforeEach(() => {
+    setStorage(new MemoryStorage())
+  })
+
+  afterEach(() => {
+    setLLMProvider(null)
+    setStorage(null)
+  })
+
+  it('extracts quoted requirements from an interview and grades coverage against them', async () => {
+    const llm = ScriptedProvider.fromFile('fixtures/llm/interview-pipeline.json')
+    setLLMProvider(llm)
+    const messages = await transcript()
+    const [dana, sam] = messages.filter(msg => msg.sender === 'persona')
+
+    const response = await post(extract, '/api/extract-requirements', { messages, personas: PERSONAS })
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    const requirements: ExtractedRequirement[] = body.structuredRequirements
+    expect(requirements).toEqual([
+      expect.objectContaining({
+        id: 'REQ-001',
+        text: 'The system must import existing spreadsheets without manual re-entry',
+        type: 'functional',
+        sourcePersona: 'Dana Ortiz',
+        messageIds: [dana.id],
+        verified: true
+      }),
+      // The quote is Sam's, so it is re-attributed to Sam's message
+      expect.objectContaining({
+        id: 'REQ-002',
+        type: 'non-functional',
+        messageIds: [dana.id, sam.id],
+        evidence: [{ messageId: sam.id, quote: 'an audit trail of every change really matters', verified: true }],
+        verified: true
+      })
+    ])
+    expect(body.requirements).toContain('[REQ-001] (Functional) The system must import existing spreadsheets')
+
+    const coverage = await analyzeCoverage({
+      messages,
+      projectRequirements: requirements.map(req => req.text),
+      studentName: 'Alex Student',
+      sessionId: 'session-1',
+      extractedRequirements: requirements
+    }, llm)
+
+    expect(coverage.requirementAnalyses.map(r => [r.requirement, r.covered])).toEqual([
+      ['The system must import existing spreadsheets without manual re-entry', true],
+      ['The system must keep an audit trail of every change', true]
+    ])
+    expect(coverage.overallCoverageRate).toBe(100)
+  })
+
+  it('fails with an error the student can retry when the model does not answer with JSON', async () => {
+    setLLMProvider(ScriptedProvider.fromFile('fixtures/llm/failure-modes.json'))
+    const messages = [
+      { id: 'm1', sender: 'student', content: 'What do you need from the system?', timestamp: new Date() },
+      { id: 'm2', sender: 'persona', personaName: 'Dana Ortiz', content: 'I need it to import our spreadsheets.', timestamp: new Date() }
+    ]
+
+    const response = await post(extract, '/api/extract-requirements', { messages, personas: PERSONAS })
+
+    expect(response.status).toBe(500)
+    expect(await response.json()).toEqual({ error: 'Failed to generate requirements' })
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { LEDGER_PROMPT_LIMIT, LedgerEntry, reviewReply } from '@/lib/fact-ledger'
+import { ScriptedProvider } from '@/lib/llm'
+
+const LEDGER: LedgerEntry[] = [
+  { statement: 'Dana enters about 40 patient records a day', messageId: 'm1' },
+  { statement: 'Charts are done on paper first', messageId: 'm2' }
+]
+
+describe('reviewReply', () => {
+  it('checks a reply against every earlier claim, however it is worded', async () => {
+    const llm = new ScriptedProvider({
+      rules: [],
+      fallback: { json: { statements: ['Dana types notes straight into the tablet'], contradictions: [{ statementNumber: 2, explanation: 'Says there is no paper step' }] } }
+    })
+
+    const review = await reviewReply('Dana Ortiz', LEDGER, 'I type my notes straight into the tablet during the visit.', llm)
+
+    expect(llm.calls).toHaveLength(1)
+    expect(llm.calls[0].prompt).toContain('1. Dana enters about 40 patient records a day')
+    expect(llm.calls[0].prompt).toContain('2. Charts are done on paper first')
+    expect(review).toEqual({
+      statements: ['Dana types notes straight into the tablet'],
+      contradictions: [{ statement: 'Charts are done on paper first', explanation: 'Says there is no paper step' }]
+    })
+  })
+
+  it("asks the model for a first reply's claims, even ones without a number or habit word", async () => {
+    const llm = new ScriptedProvider({ rules: [], fallback: { json: { statements: ['Charts are done on paper first'], contradictions: [] } } })
+
+    const review = await reviewReply('Dana Ortiz', [], 'Charts are done on paper first.', llm)
+
+    expect(llm.calls[0].prompt).toContain('WHAT THEY SAID EARLIER:\n(nothing yet)')
+    expect(review.statements).toEqual(['Charts are done on paper first'])
+  })
+
+  it('sends a long ledger narrowed to the related claims, then the latest', async () => {
+    const llm = new ScriptedProvider({ rules: [], fallback: { json: { statements: [], contradictions: [] } } })
+    const unrelated = Array.from({ length: LEDGER_PROMPT_LIMIT }, (_, i) => ({ statement: `Dana has worked ${i + 1} winters here`, messageId: `w${i}` }))
+
+    await reviewReply('Dana Ortiz', [LEDGER[0], ...unrelated], 'I only enter 5 patient records on a busy day.', llm)
+
+    const prompt = llm.calls[0].prompt
+    expect(prompt).toContain('1. Dana enters about 40 patient records a day')
+    expect(prompt).toContain(`${LEDGER_PROMPT_LIMIT}. Dana has worked ${LEDGER_PROMPT_LIMIT} winters here`)
+    expect(prompt).not.toContain('Dana has worked 1 winters here')
+  })
+})
@@ -0,0 +1,41 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { FileStorage } from '@/lib/storage'
+
+describe('FileStorage', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'file-storage-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('keeps every update when two instances share the directory', async () => {
+    // Separate instances stand in for separate server processes: they share no write queue
+    const first = new FileStorage(directory)
+    const second = new FileStorage(directory)
+
+    await Promise.all(Array.from({ length: 20 }, (_, i) => (i % 2 ? first : second).put('sessions', `s${i}`, { i })))
+
+    expect(await first.list('sessions')).toHaveLength(20)
+    await expect(fs.access(path.join(directory, 'sessions.json.lock'))).rejects.toThrow()
+  })
+
+  it('keeps file-per-record collections as one file for each record', async () => {
+    const storage = new FileStorage(directory, { filePerRecord: ['checkpoints'] })
+
+    await storage.put('checkpoints', 'session-1', { step: 1 })
+    await storage.put('checkpoints', '../escape', { step: 2 })
+
+    expect((await fs.readdir(path.join(directory, 'checkpoints'))).sort()).toEqual(['%2E.%2Fescape.json', 'session-1.json'])
+    expect(await storage.get('checkpoints', '../escape')).toEqual({ step: 2 })
+    expect(await storage.list('checkpoints')).toHaveLength(2)
+    expect(await storage.delete('checkpoints', 'session-1')).toBe(true)
+    expect(await storage.get('checkpoints', 'session-1')).toBeUndefined()
+  })
+})
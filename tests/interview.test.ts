@@ -0,0 +1,274 @@
+import { randomUUID } from 'crypto'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { POST } from '@/app/api/interview/route'
+import { saveInstructorConfig } from '@/lib/instructor-config'
+import { LLMScript, ScriptedProvider, setLLMProvider } from '@/lib/llm'
+import { createProject } from '@/lib/projects'
+import { MemoryStorage, setStorage } from '@/lib/storage'
+
+const TEAM_MEMBER = { name: 'Lee Wong', initials: 'LW', role: 'IT Support', goal: 'Keep the servers patched', concerns: 'Downtime during the switch-over', personality: 'calm' }
+
+const PERSONAS = [
+  { name: 'Dana Ortiz', initials: 'DO', role: 'Records Clerk', goal: 'Stop retyping data from spreadsheets', concerns: 'Losing data during migration', personality: 'practical' },
+  { name: 'Sam Patel', initials: 'SP', role: 'Compliance Officer', goal: 'Prove who changed what and when', concerns: 'Gaps in the audit trail', personality: 'cautious' }
+]
+
+const TEAM = [...PERSONAS, TEAM_MEMBER]
+
+interface TurnMessage {
+  sender: string
+  personaName?: string
+  content: string
+  metadata?: Record<string, unknown>
+}
+
+// Each persona's first reply is too short to pass validation; every reply after that is fine
+const SHORT_FIRST_REPLY: LLMScript = {
+  rules: [
+    { match: 'Analyze this student interview question', reply: { text: 'TOPIC:records | GENERAL:yes | TONE:neutral | REASONING:Asks about records' } },
+    { match: 'You are keeping track of what a stakeholder has said', reply: { json: { statements: [], contradictions: [] } } },
+    {
+      match: '^You are ([^,]+), a ([^.,\\n]+)',
+      reply: [
+        { text: 'Too short.' },
+        { text: 'As {{2}}, I move the paper records into the spreadsheet every Monday before the clinic opens.' }
+      ]
+    }
+  ],
+  fallback: { text: 'The team wants records moved safely.' }
+}
+
+// Runs one turn through the route, and so through the whole interview graph
+async function interview(sessionId: string, message: string, personas = PERSONAS, projectId?: string) {
+  const response = await POST(new Request('http://localhost/api/interview', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, personas, conversationHistory: [], sessionId, projectId })
+  }))
+  return { status: response.status, body: await response.json() }
+}
+
+function replies(messages: TurnMessage[]): TurnMessage[] {
+  return messages.filter(msg => msg.sender === 'persona')
+}
+
+describe('interview graph with a scripted model', () => {
+  let llm: ScriptedProvider
+
+  beforeEach(() => {
+    setStorage(new MemoryStorage())
+  })
+
+  afterEach(() => {
+    setLLMProvider(null)
+    setStorage(null)
+  })
+
+  describe('interview-pipeline fixture', () => {
+    beforeEach(() => {
+      llm = ScriptedProvider.fromFile('fixtures/llm/interview-pipeline.json')
+      setLLMProvider(llm)
+    })
+
+    it('has every persona answer a general question in character', async () => {
+      const { status, body } = await interview(randomUUID(), 'Could you walk me through how you keep patient records each day?')
+
+      expect(status).toBe(200)
+      expect(replies(body.messages)).toEqual([
+        expect.objectContaining({ personaName: 'Dana Ortiz', content: expect.stringContaining('As Records Clerk') }),
+        expect.objectContaining({ personaName: 'Sam Patel', content: expect.stringContaining('Speaking as Compliance Officer') })
+      ])
+      // Each reply's claims are listed for its persona's ledger, even with nothing earlier to check them against
+      expect(llm.calls.map(call => call.rule)).toEqual([
+        'interview input analysis',
+        'persona reply',
+        'persona reply',
+        'ledger review',
+        'ledger review'
+      ])
+    })
+
+    it('resumes the session from its checkpoint on the next turn', async () => {
+      const sessionId = randomUUID()
+      await interview(sessionId, 'Could you walk me through how you keep patient records each day?')
+      const { body } = await interview(sessionId, 'What worries you most about moving to a new system?')
+
+      // The first turn's question and two replies come from the checkpoint, not the client
+      expect(body.metadata.conversationLength).toBe(3 + body.messages.length)
+      expect(body.metadata.factLedger['Dana Ortiz'][0]).toEqual(expect.objectContaining({
+        statement: expect.stringContaining('I spend most of my morning reconciling records by hand')
+      }))
+      // The persona's earlier claims are carried into its next prompt, and its new reply is checked against them
+      const secondTurnPrompts = llm.calls.filter(call => call.rule === 'persona reply').slice(2)
+      expect(secondTurnPrompts.some(call => call.prompt.includes('reconciling records by hand'))).toBe(true)
+      expect(llm.calls.filter(call => call.rule === 'ledger review').some(call => call.prompt.includes('reconciling records by hand'))).toBe(true)
+    })
+  })
+
+  describe('replies that fail validation', () => {
+    beforeEach(() => {
+      llm = new ScriptedProvider(SHORT_FIRST_REPLY)
+      setLLMProvider(llm)
+    })
+
+    it('are given again by the persona the question was put to', async () => {
+      const { body } = await interview(randomUUID(), 'Dana Ortiz, which records take up most of your morning?')
+
+      expect(replies(body.messages)).toEqual([expect.objectContaining({
+        personaName: 'Dana Ortiz',
+        content: 'As Records Clerk, I move the paper records into the spreadsheet every Monday before the clinic opens.'
+      })])
+      expect(body.metadata.debugInfo.currentSpeaker).toBe('Dana Ortiz')
+    })
+
+    it('are given again in the team discussion they came from', async () => {
+      const { body } = await interview(randomUUID(), 'Could you all discuss together how records should move to the new system?')
+
+      const discussion = replies(body.messages)
+      expect(discussion.map(msg => msg.personaName)).toEqual(['Dana Ortiz', 'Sam Patel'])
+      expect(discussion.every(msg => msg.metadata?.discussionRound === true)).toBe(true)
+      expect(discussion.every(msg => msg.content.includes('every Monday'))).toBe(true)
+    })
+  })
+
+  describe('a later team discussion', () => {
+    beforeEach(() => {
+      llm = new ScriptedProvider({
+        rules: [
+          { match: 'Analyze this student interview question', reply: { text: 'TOPIC:records | GENERAL:yes | TONE:neutral | REASONING:Asks the team' } },
+          { match: 'You are keeping track of what a stakeholder has said', reply: { json: { statements: [], contradictions: [] } } },
+          {
+            match: '^You are ([^,]+), a ([^.,\\n]+)',
+            reply: [
+              { text: 'As {{2}}, I would move the paper records over one department at a time.' },
+              { text: 'As {{2}}, I would keep the old spreadsheets readable until the audit closes.' },
+              { text: 'Too short.' },
+              { text: 'As {{2}}, I would check every imported record against the paper copy first.' }
+            ]
+          }
+        ],
+        fallback: { text: 'The team agreed to migrate records in stages.' }
+      })
+      setLLMProvider(llm)
+    })
+
+    // Each general question goes to two of the three, so neither discussion reaches the three replies that call for a summary
+
+    it('is still validated once earlier discussions fill the session', async () => {
+      const sessionId = randomUUID()
+      await interview(sessionId, 'Could you all discuss together how records should move to the new system?', TEAM)
+      const { body } = await interview(sessionId, 'Could you all discuss together how to check the moved records?', TEAM)
+
+      const discussion = replies(body.messages)
+      expect(discussion).toHaveLength(2)
+      expect(discussion.every(msg => msg.metadata?.discussionRound === true)).toBe(true)
+      expect(discussion.every(msg => msg.content.includes('imported record against the paper copy'))).toBe(true)
+      expect(body.messages.some((msg: TurnMessage) => msg.personaName === 'Team')).toBe(false)
+    })
+  })
+
+  describe('replies that contradict the ledger', () => {
+    const DANA = PERSONAS.slice(0, 1)
+
+    beforeEach(() => {
+      llm = new ScriptedProvider({
+        rules: [
+          { match: 'Analyze this student interview question', reply: { text: 'TOPIC:records | GENERAL:yes | TONE:neutral | REASONING:Asks about volume' } },
+          {
+            match: 'You are keeping track of what a stakeholder has said',
+            reply: [
+              { json: { statements: ['Dana enters about 40 patient records every day'], contradictions: [] } },
+              { json: { statements: [], contradictions: [{ statementNumber: 1, explanation: 'Gives a different number of records' }] } },
+              { json: { statements: [], contradictions: [] } }
+            ]
+          },
+          {
+            match: '^You are ([^,]+), a ([^.,\\n]+)',
+            reply: [
+              { text: 'As {{2}}, I enter about 40 patient records every single day.' },
+              { text: 'As {{2}}, I only ever enter 5 patient records on a busy day.' },
+              { text: 'As {{2}}, a busy day means well over 40 patient records for me.' }
+            ]
+          }
+        ],
+        fallback: { text: 'Records volume is the main topic.' }
+      })
+      setLLMProvider(llm)
+    })
+
+    it('are given again by the same persona, told which claims to keep to', async () => {
+      const sessionId = randomUUID()
+      await interview(sessionId, 'How many patient records come across your desk each day?', DANA)
+      const { body } = await interview(sessionId, 'And how many patient records on a busy day?', DANA)
+
+      expect(replies(body.messages)).toEqual([expect.objectContaining({
+        personaName: 'Dana Ortiz',
+        content: 'As Records Clerk, a busy day means well over 40 patient records for me.'
+      })])
+      const retryPrompt = llm.calls.filter(call => call.rule?.startsWith('^You are')).pop()?.prompt
+      expect(retryPrompt).toContain('Your last attempt at this reply contradicted what you said before')
+      expect(retryPrompt).toContain('Dana enters about 40 patient records every day')
+    })
+  })
+
+  describe('a summarized team discussion that contradicts the ledger', () => {
+    beforeEach(() => {
+      llm = new ScriptedProvider({
+        rules: [
+          { match: 'Analyze this student interview question', reply: { text: 'TOPIC:records | GENERAL:yes | TONE:neutral | REASONING:Asks about volume' } },
+          {
+            match: 'You are keeping track of what a stakeholder has said[\\s\\S]*THEIR NEW REPLY:\\nAs Records Clerk, I only ever',
+            reply: { json: { statements: [], contradictions: [{ statementNumber: 1, explanation: 'Gives a different number of records' }] } }
+          },
+          { match: 'You are keeping track of what a stakeholder has said', reply: { json: { statements: ['They enter about 40 patient records every day'], contradictions: [] } } },
+          {
+            match: '^You are ([^,]+), a ([^.,\\n]+)',
+            reply: [
+              { text: 'As {{2}}, I see about 40 patient records come through every single day.' },
+              { text: 'As {{2}}, I see about 40 patient records come through every single day.' },
+              { text: 'As {{2}}, I see about 40 patient records come through every single day.' },
+              { text: 'As {{2}}, I only ever enter 5 patient records on a busy day.' },
+              { text: 'As {{2}}, I think we should move the records over in stages.' }
+            ]
+          }
+        ],
+        fallback: { text: 'The team agreed to move records over in stages.' }
+      })
+      setLLMProvider(llm)
+    })
+
+    it('is validated and given again before it is summarized', async () => {
+      const { projectId } = await createProject({ name: 'Clinic Records', domain: 'Healthcare', stories: 'Move paper records online', personas: TEAM })
+      // Every persona answers every question, so the discussion reaches the three replies that call for a summary
+      await saveInstructorConfig(projectId, { requireAllPersonas: true })
+      const sessionId = randomUUID()
+      await interview(sessionId, 'How many patient records come across your desk each day?', TEAM, projectId)
+      const { body } = await interview(sessionId, 'Could you all discuss together how to move the records over?', TEAM, projectId)
+
+      const discussion = replies(body.messages)
+      expect(discussion).toHaveLength(3)
+      expect(discussion.every(msg => msg.content.includes('move the records over in stages'))).toBe(true)
+      expect(body.messages).toContainEqual(expect.objectContaining({ personaName: 'Team', content: 'The team agreed to move records over in stages.' }))
+    })
+  })
+
+  describe('failure-modes fixture', () => {
+    beforeEach(() => {
+      llm = ScriptedProvider.fromFile('fixtures/llm/failure-modes.json')
+      setLLMProvider(llm)
+    })
+
+    it('still answers when the analysis times out and a reply is rate limited', async () => {
+      const { status, body } = await interview(randomUUID(), 'Could you walk me through how you keep patient records each day?')
+
+      expect(status).toBe(200)
+      const [dana, sam] = replies(body.messages)
+      expect(dana.personaName).toBe('Dana Ortiz')
+      expect(dana.content).not.toBe('')
+      expect(sam).toEqual(expect.objectContaining({
+        personaName: 'Sam Patel',
+        content: 'As Compliance Officer, I mostly need reports I can trust without double-checking them by hand.'
+      }))
+    })
+  })
+})
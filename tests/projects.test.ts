@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST as signIn } from '@/app/api/auth/instructor/route'
+import { GET } from '@/app/api/projects/[projectId]/route'
+import { createProject, Persona, validateProjectInput } from '@/lib/projects'
+import { MemoryStorage, setStorage } from '@/lib/storage'
+
+const STORED = {
+  personas: [
+    { name: 'Dana Ortiz', role: 'Records Clerk' },
+    { name: 'Sam Patel', role: 'Compliance Officer' }
+  ] as Persona[]
+}
+
+function conflict(opponent: string) {
+  return {
+    topic: 'Data entry speed',
+    sides: [
+      { persona: 'Dana Ortiz', position: 'Imports must be one click' },
+      { persona: opponent, position: 'Every import needs a review step' }
+    ]
+  }
+}
+
+describe('validateProjectInput', () => {
+  it("checks an update's conflicts against the stored personas when it leaves them unchanged", () => {
+    expect(validateProjectInput({ conflicts: [conflict('Lee Wong')] }, true, STORED))
+      .toEqual(['Data entry speed: both sides must be personas in the project'])
+    expect(validateProjectInput({ conflicts: [conflict('Sam Patel')] }, true, STORED)).toEqual([])
+  })
+
+  it("checks conflicts against the update's own personas when it replaces them", () => {
+    const personas = [...STORED.personas, { name: 'Lee Wong', role: 'IT Support' }]
+
+    expect(validateProjectInput({ personas, conflicts: [conflict('Lee Wong')] }, true, STORED)).toEqual([])
+    expect(validateProjectInput({ personas: STORED.personas.slice(0, 1), conflicts: [conflict('Sam Patel')] }, true, STORED))
+      .toEqual(['Data entry speed: both sides must be personas in the project'])
+  })
+})
+
+describe('GET /api/projects/[projectId]', () => {
+  let projectId: string
+
+  beforeEach(async () => {
+    vi.stubEnv('INSTRUCTOR_PASSWORD', 'letmein')
+    setStorage(new MemoryStorage())
+    projectId = (await createProject({
+      name: 'Clinic Records',
+      domain: 'Healthcare',
+      stories: 'Move paper records online',
+      personas: [{
+        name: 'Dana Ortiz', initials: 'DO', role: 'Records Clerk', goal: 'Stop retyping data', concerns: 'Losing data', personality: 'practical',
+        hiddenFacts: [{ id: 'fact-1', topic: 'Offline use', fact: 'The clinic loses its connection most Fridays', keywords: ['offline'], revealWhen: 'asked' }]
+      }],
+      requirements: ['The system must work offline'],
+      requirementOwners: { 'The system must work offline': ['Dana Ortiz'] }
+    })).projectId
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    setStorage(null)
+  })
+
+  function get(query = '', cookie?: string) {
+    return GET(
+      new Request(`http://localhost/api/projects/${projectId}${query}`, { headers: cookie ? { cookie } : {} }),
+      { params: Promise.resolve({ projectId }) }
+    )
+  }
+
+  it('refuses the whole project to anyone but a signed-in instructor', async () => {
+    expect((await get()).status).toBe(401)
+
+    const response = await signIn(new Request('http://localhost/api/auth/instructor', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password: 'letmein' })
+    }))
+    const cookie = response.headers.get('set-cookie')!.split(';')[0]
+    const { project } = await (await get('', cookie)).json()
+
+    expect(project.requirements).toEqual(['The system must work offline'])
+    expect(project.personas[0].hiddenFacts).toHaveLength(1)
+  })
+
+  it('gives anyone the student view without hidden facts or the answer key', async () => {
+    const response = await get('?view=student')
+    const { project } = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(project.personas[0]).toEqual(expect.objectContaining({ name: 'Dana Ortiz', role: 'Records Clerk' }))
+    expect(project.personas[0].hiddenFacts).toBeUndefined()
+    expect(project.requirements).toBeUndefined()
+    expect(project.requirementOwners).toBeUndefined()
+    expect(project.conflicts).toBeUndefined()
+  })
+})
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest'
+import { assessTone } from '@/lib/rapport'
+
+describe('assessTone', () => {
+  it.each([
+    ['Why?', 'neutral'],
+    ['Ok.', 'neutral'],
+    ['Thanks!', 'considerate'],
+    ['Does the EHR need HIPAA AUDIT LOGS?', 'neutral'],
+    ['HIPAA EHR API?', 'neutral'],
+    ['Is u the unit you use for weights?', 'neutral'],
+    ['k', 'careless'],
+    ['lol what do u even do all day', 'careless'],
+    ['WHY IS THIS SO SLOW', 'hostile'],
+    ['That is a stupid answer', 'hostile']
+  ])('reads %j as %s', (message, tone) => {
+    expect(assessTone(message)).toBe(tone)
+  })
+})
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createProject, updateProject } from '@/lib/projects'
+import { getReport, saveReport } from '@/lib/reports'
+import { DEFAULT_RUBRIC, deleteRubric, saveRubric } from '@/lib/rubrics'
+import { saveSession, SessionData } from '@/lib/sessions'
+import { MemoryStorage, setStorage } from '@/lib/storage'
+
+const PERSONAS = [{ name: 'Dana Ortiz', initials: 'DO', role: 'Records Clerk', goal: 'Stop retyping data', concerns: 'Losing data', personality: 'practical' }]
+
+async function gradedSession(projectId: string, assignmentId?: string): Promise<SessionData> {
+  const session = await saveSession({
+    sessionId: `session-${Math.random().toString(36).slice(2)}`,
+    projectId,
+    projectName: 'Clinic Records',
+    assignmentId,
+    studentName: 'Alex Student',
+    startTime: new Date(),
+    messages: [{ id: 'm1', sender: 'student', content: 'How do you keep records today?', timestamp: new Date() }]
+  })
+  await saveReport(session, {
+    coverage: 50,
+    score: 62,
+    grade: 'D',
+    report: { overallCoverageRate: 50, strengths: [], improvements: [], detailedAnalysis: '', analyzedAt: new Date() }
+  })
+  return session
+}
+
+describe('cached coverage reports', () => {
+  let projectId: string
+
+  beforeEach(async () => {
+    setStorage(new MemoryStorage())
+    projectId = (await createProject({
+      name: 'Clinic Records',
+      domain: 'Healthcare',
+      stories: 'Move paper records online',
+      personas: PERSONAS,
+      requirements: ['The system must import existing spreadsheets']
+    })).projectId
+  })
+
+  afterEach(() => {
+    setStorage(null)
+  })
+
+  it('are dropped when the project changes what sessions are graded against', async () => {
+    const session = await gradedSession(projectId)
+
+    await updateProject(projectId, { name: 'Clinic Records 2', requirements: ['The system must import existing spreadsheets'] })
+    expect(await getReport(session)).toBeDefined()
+
+    await updateProject(projectId, { requirements: ['The system must import existing spreadsheets', 'The system must keep an audit trail'] })
+    expect(await getReport(session)).toBeUndefined()
+  })
+
+  it("are dropped for an assignment's sessions when its rubric is saved or reset", async () => {
+    const session = await gradedSession(projectId, 'assignment-1')
+    const other = await gradedSession(projectId, 'assignment-2')
+
+    await saveRubric('assignment-1', DEFAULT_RUBRIC)
+    expect(await getReport(session)).toBeUndefined()
+    expect(await getReport(other)).toBeDefined()
+
+    await saveRubric('assignment-2', DEFAULT_RUBRIC)
+    const regraded = await gradedSession(projectId, 'assignment-2')
+    await deleteRubric('assignment-2')
+    expect(await getReport(regraded)).toBeUndefined()
+  })
+})